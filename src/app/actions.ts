@@ -5,82 +5,117 @@
 
 "use server";
 
-import { CreateSaaNoteUseCase } from "@/features/aws-note/usecases/create-saa-note";
-import { GeminiClient } from "@/features/aws-note/infrastructure/gemini-client";
-import { NotionClient } from "@/features/aws-note/infrastructure/notion-client";
+import { z } from "zod";
+import {
+  CreateSaaNoteUseCase,
+  type CreateSaaNoteOptions,
+} from "@/features/aws-note/usecases/create-saa-note";
+import { RollbackQuestionRevisionUseCase } from "@/features/aws-note/usecases/rollback-question-revision";
+import { TranslateQuestionNoteUseCase } from "@/features/aws-note/usecases/translate-question-note";
+import { PromoteMentorAnswerUseCase } from "@/features/aws-note/usecases/promote-mentor-answer";
+import {
+  GetUsageSummaryUseCase,
+  type UsageSummary,
+} from "@/features/aws-note/usecases/get-usage-summary";
+import { ImportQuestionsUseCase } from "@/features/question-import/usecases/import-questions";
+import { getAnalysisJob } from "@/features/question-import/infrastructure/analysis-queue";
+import { GenerationSettingsOverridesSchema } from "@/features/aws-note/infrastructure/generation-settings";
 import { logger } from "@/features/aws-note/infrastructure/logger";
 import type {
   ExamQuestionNote,
   ExamQuestionInput,
 } from "@/features/aws-note/entities/types";
-
-/**
- * 環境変数の検証
- */
-function getEnvVars() {
-  logger.debug("Validating environment variables");
-  const geminiApiKey = process.env.GEMINI_API_KEY;
-  const notionApiKey = process.env.NOTION_API_KEY;
-  const notionDatabaseId = process.env.NOTION_DATABASE_ID;
-
-  if (!geminiApiKey) {
-    const error = new Error("GEMINI_API_KEY is not set");
-    logger.error("Environment variable validation failed", error);
-    throw error;
-  }
-  if (!notionApiKey) {
-    const error = new Error("NOTION_API_KEY is not set");
-    logger.error("Environment variable validation failed", error);
-    throw error;
-  }
-  if (!notionDatabaseId) {
-    const error = new Error("NOTION_DATABASE_ID is not set");
-    logger.error("Environment variable validation failed", error);
-    throw error;
-  }
-
-  logger.debug("Environment variables validated successfully");
-  return { geminiApiKey, notionApiKey, notionDatabaseId };
-}
+import { MAX_QUESTION_PAGE_SIZE } from "@/features/aws-note/entities/question-repository";
+import type {
+  GetAllQuestionsOptions,
+  QuestionFacets,
+  QuestionQuery,
+  QuestionRepositoryType,
+} from "@/features/aws-note/entities/question-repository";
+import type {
+  AnalysisJob,
+  ImportFormat,
+  ImportOptions,
+  ImportResult,
+} from "@/features/question-import/entities/types";
+import type { QuestionRevision } from "@/features/aws-note/entities/question-revision";
+import type { GenerationSettingsOverrides } from "@/features/aws-note/entities/generation-settings";
+import {
+  EXPLANATION_LANGUAGES,
+  type ExplanationLanguage,
+} from "@/features/aws-note/entities/explanation-language";
+import {
+  getEnvVars,
+  createAnalysisCache,
+  createQuestionAnalyzer,
+  createQuestionRepository,
+  createRevisionRepository,
+  createUsageLedger,
+} from "./env";
 
 /**
  * 試験問題から解説ノートを作成
+ *
+ * @param options.bypassCache - キャッシュ済みの分析結果を使わずに再生成する
+ * @param options.outputLanguage - 解説の出力言語（ja / en / bilingual）
+ * @param options.generation - 生成設定の上書き（省略した項目は環境変数の設定）
  */
 export async function createExamQuestionNote(
-  questionInput: ExamQuestionInput
+  questionInput: ExamQuestionInput,
+  options: CreateSaaNoteOptions & {
+    generation?: GenerationSettingsOverrides;
+  } = {}
 ): Promise<{
   success: boolean;
   note?: ExamQuestionNote;
-  notionPageId?: string;
+  noteId?: string;
+  repositoryType?: QuestionRepositoryType;
   error?: string;
 }> {
   logger.info("createExamQuestionNote called", {
     questionTextLength: questionInput.questionText.length,
     choicesCount: questionInput.choices.length,
+    bypassCache: options.bypassCache ?? false,
+    promptTemplateId: options.promptTemplateId,
+    outputLanguage: options.outputLanguage,
+    generation: options.generation,
   });
 
   try {
-    const { geminiApiKey, notionApiKey, notionDatabaseId } = getEnvVars();
+    const env = getEnvVars();
 
     logger.debug("Initializing infrastructure clients");
     // インフラ層のインスタンス化
-    const geminiClient = new GeminiClient(geminiApiKey);
-    const notionClient = new NotionClient(notionApiKey, notionDatabaseId);
+    const analyzer = createQuestionAnalyzer(
+      env,
+      GenerationSettingsOverridesSchema.parse(options.generation ?? {})
+    );
+    const questionRepository = createQuestionRepository(env);
 
     // ユースケースの実行
     logger.info("Executing CreateSaaNoteUseCase");
-    const useCase = new CreateSaaNoteUseCase(geminiClient, notionClient);
-    const result = await useCase.execute(questionInput);
+    const useCase = new CreateSaaNoteUseCase(
+      analyzer,
+      questionRepository,
+      createRevisionRepository(env),
+      createAnalysisCache(env)
+    );
+    const result = await useCase.execute(questionInput, {
+      bypassCache: options.bypassCache === true,
+      promptTemplateId: options.promptTemplateId,
+      outputLanguage: options.outputLanguage,
+    });
 
     logger.info("Exam question note created successfully", {
-      notionPageId: result.notionPageId,
+      noteId: result.noteId,
       correctAnswer: result.note.correctAnswer,
     });
 
     return {
       success: true,
       note: result.note,
-      notionPageId: result.notionPageId,
+      noteId: result.noteId,
+      repositoryType: env.repositoryType,
     };
   } catch (error) {
     logger.error("Failed to create exam question note", error as Error, {
@@ -95,23 +130,29 @@ export async function createExamQuestionNote(
 }
 
 /**
- * Notionからすべての問題を取得
+ * 問題リポジトリからすべての問題を取得
+ *
+ * @param options - forceRefresh: true でサーバー側キャッシュを使わずに再取得
  */
-export async function getAllQuestions(): Promise<{
+export async function getAllQuestions(
+  options: GetAllQuestionsOptions = {}
+): Promise<{
   success: boolean;
   questions?: ExamQuestionNote[];
   error?: string;
 }> {
-  logger.info("getAllQuestions called");
+  logger.info("getAllQuestions called", {
+    forceRefresh: options.forceRefresh ?? false,
+  });
 
   try {
-    const { notionApiKey, notionDatabaseId } = getEnvVars();
-
-    logger.debug("Initializing Notion client");
-    const notionClient = new NotionClient(notionApiKey, notionDatabaseId);
+    const env = getEnvVars();
+    const questionRepository = createQuestionRepository(env);
 
-    logger.info("Fetching all questions from Notion");
-    const questions = await notionClient.getAllQuestions();
+    logger.info("Fetching all questions from question repository", {
+      repositoryType: env.repositoryType,
+    });
+    const questions = await questionRepository.getAllQuestions(options);
 
     logger.info("Successfully fetched all questions", {
       count: questions.length,
@@ -129,3 +170,375 @@ export async function getAllQuestions(): Promise<{
     };
   }
 }
+
+/**
+ * 問題検索条件の入力スキーマ
+ */
+const QuestionQuerySchema = z.object({
+  services: z.array(z.string()).optional(),
+  pillars: z
+    .array(
+      z.enum([
+        "cost-optimization",
+        "performance-efficiency",
+        "reliability",
+        "security",
+        "operational-excellence",
+        "sustainability",
+      ])
+    )
+    .optional(),
+  search: z.string().max(200).optional(),
+  pageSize: z.number().int().min(1).max(MAX_QUESTION_PAGE_SIZE).optional(),
+  cursor: z.string().optional(),
+  forceRefresh: z.boolean().optional(),
+});
+
+/**
+ * 条件に一致する問題をページ単位で取得
+ */
+export async function queryQuestions(query: QuestionQuery): Promise<{
+  success: boolean;
+  questions?: ExamQuestionNote[];
+  nextCursor?: string | null;
+  error?: string;
+}> {
+  logger.info("queryQuestions called", {
+    servicesCount: query.services?.length ?? 0,
+    pillarsCount: query.pillars?.length ?? 0,
+    hasSearch: Boolean(query.search),
+    hasCursor: Boolean(query.cursor),
+  });
+
+  try {
+    const validatedQuery = QuestionQuerySchema.parse(query);
+    const questionRepository = createQuestionRepository(getEnvVars());
+    const result = await questionRepository.queryQuestions(validatedQuery);
+
+    return {
+      success: true,
+      questions: result.questions,
+      nextCursor: result.nextCursor,
+    };
+  } catch (error) {
+    logger.error("Failed to query questions", error as Error);
+    return {
+      success: false,
+      error:
+        error instanceof z.ZodError
+          ? `Invalid query: ${error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")}`
+          : error instanceof Error
+            ? error.message
+            : "Unknown error",
+    };
+  }
+}
+
+/**
+ * フィルターに使用できる関連サービス・柱の一覧を取得
+ */
+export async function getQuestionFacets(): Promise<{
+  success: boolean;
+  facets?: QuestionFacets;
+  error?: string;
+}> {
+  logger.info("getQuestionFacets called");
+
+  try {
+    const questionRepository = createQuestionRepository(getEnvVars());
+    const facets = await questionRepository.getQuestionFacets();
+
+    return {
+      success: true,
+      facets,
+    };
+  } catch (error) {
+    logger.error("Failed to fetch question facets", error as Error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * 問題ノートと改訂履歴（新しい順）を取得
+ */
+export async function getQuestionRevisions(noteId: string): Promise<{
+  success: boolean;
+  question?: ExamQuestionNote | null;
+  revisions?: QuestionRevision[];
+  error?: string;
+}> {
+  logger.info("getQuestionRevisions called", { noteId });
+
+  try {
+    const env = getEnvVars();
+    const [question, revisions] = await Promise.all([
+      createQuestionRepository(env).getQuestion(noteId),
+      createRevisionRepository(env).getRevisions(noteId),
+    ]);
+
+    return {
+      success: true,
+      question,
+      revisions,
+    };
+  } catch (error) {
+    logger.error("Failed to fetch question revisions", error as Error, {
+      noteId,
+    });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * 問題ノートを過去の改訂に巻き戻す
+ */
+export async function rollbackQuestionRevision(
+  noteId: string,
+  revisionId: string
+): Promise<{
+  success: boolean;
+  note?: ExamQuestionNote;
+  error?: string;
+}> {
+  logger.info("rollbackQuestionRevision called", { noteId, revisionId });
+
+  try {
+    const env = getEnvVars();
+    const useCase = new RollbackQuestionRevisionUseCase(
+      createQuestionRepository(env),
+      createRevisionRepository(env)
+    );
+    const note = await useCase.execute(noteId, revisionId);
+
+    return {
+      success: true,
+      note,
+    };
+  } catch (error) {
+    logger.error("Failed to roll back question revision", error as Error, {
+      noteId,
+      revisionId,
+    });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * 問題ノートにない言語の解説を翻訳で追加
+ *
+ * @param noteId - ノートID
+ * @param language - 追加する言語（ja / en）
+ */
+export async function translateQuestionNote(
+  noteId: string,
+  language: ExplanationLanguage
+): Promise<{
+  success: boolean;
+  note?: ExamQuestionNote;
+  error?: string;
+}> {
+  logger.info("translateQuestionNote called", { noteId, language });
+
+  try {
+    const env = getEnvVars();
+    const useCase = new TranslateQuestionNoteUseCase(
+      createQuestionAnalyzer(env),
+      createQuestionRepository(env),
+      createRevisionRepository(env)
+    );
+    const note = await useCase.execute(
+      noteId,
+      z.enum(EXPLANATION_LANGUAGES).parse(language)
+    );
+
+    return {
+      success: true,
+      note,
+    };
+  } catch (error) {
+    logger.error("Failed to translate question note", error as Error, {
+      noteId,
+      language,
+    });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * メンターの回答を学習ポイントに追加
+ *
+ * @param noteId - ノートID
+ * @param messageId - メンターの回答のメッセージID
+ * @param learningPoint - 追加する文（回答を編集したもの。省略時は回答の全文）
+ */
+export async function promoteMentorAnswer(
+  noteId: string,
+  messageId: string,
+  learningPoint?: string
+): Promise<{
+  success: boolean;
+  note?: ExamQuestionNote;
+  error?: string;
+}> {
+  logger.info("promoteMentorAnswer called", { noteId, messageId });
+
+  try {
+    const env = getEnvVars();
+    const useCase = new PromoteMentorAnswerUseCase(
+      createQuestionRepository(env),
+      createRevisionRepository(env)
+    );
+    const note = await useCase.execute(
+      noteId,
+      messageId,
+      z.string().trim().min(1).max(4000).optional().parse(learningPoint)
+    );
+
+    return {
+      success: true,
+      note,
+    };
+  } catch (error) {
+    logger.error("Failed to promote mentor answer", error as Error, {
+      noteId,
+      messageId,
+    });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * インポート入力のスキーマ
+ */
+const ImportQuestionsSchema = z.object({
+  content: z.string().min(1).max(10 * 1024 * 1024),
+  format: z.enum(["csv", "json"]),
+  options: z
+    .object({
+      dryRun: z.boolean().optional(),
+      analyzeMissing: z.boolean().optional(),
+    })
+    .default({}),
+});
+
+/**
+ * CSV / JSON の問題バンクをインポート
+ *
+ * @param content - ファイルの内容
+ * @param format - ファイル形式
+ * @param options - dryRun: true で検証のみ、analyzeMissing: true で正解のない行を Gemini で分析
+ */
+export async function importQuestions(
+  content: string,
+  format: ImportFormat,
+  options: ImportOptions = {}
+): Promise<{
+  success: boolean;
+  result?: ImportResult;
+  error?: string;
+}> {
+  logger.info("importQuestions called", {
+    format,
+    contentLength: content.length,
+    ...options,
+  });
+
+  try {
+    const validated = ImportQuestionsSchema.parse({ content, format, options });
+    const env = getEnvVars();
+    const questionRepository = createQuestionRepository(env);
+    const createNoteUseCase = validated.options.analyzeMissing
+      ? new CreateSaaNoteUseCase(
+          createQuestionAnalyzer(env),
+          questionRepository,
+          createRevisionRepository(env),
+          createAnalysisCache(env)
+        )
+      : undefined;
+
+    const useCase = new ImportQuestionsUseCase(
+      questionRepository,
+      createNoteUseCase
+    );
+    const result = await useCase.execute(
+      validated.content,
+      validated.format,
+      validated.options
+    );
+
+    return {
+      success: true,
+      result,
+    };
+  } catch (error) {
+    logger.error("Failed to import questions", error as Error);
+    return {
+      success: false,
+      error:
+        error instanceof z.ZodError
+          ? `Invalid import request: ${error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")}`
+          : error instanceof Error
+            ? error.message
+            : "Unknown error",
+    };
+  }
+}
+
+/**
+ * インポート時に追加した分析ジョブの進捗を取得
+ */
+export async function getImportAnalysisJob(jobId: string): Promise<{
+  success: boolean;
+  job?: AnalysisJob;
+  error?: string;
+}> {
+  const job = getAnalysisJob(jobId);
+  if (!job) {
+    return { success: false, error: "Analysis job not found" };
+  }
+  return { success: true, job };
+}
+
+/**
+ * トークン使用量と推定コストの集計を取得
+ */
+export async function getUsageSummary(): Promise<{
+  success: boolean;
+  summary?: UsageSummary;
+  error?: string;
+}> {
+  logger.info("getUsageSummary called");
+
+  try {
+    const env = getEnvVars();
+    const useCase = new GetUsageSummaryUseCase(
+      createUsageLedger(env),
+      env.usageBudget,
+      env.modelPrices
+    );
+    const summary = await useCase.execute();
+
+    return { success: true, summary };
+  } catch (error) {
+    logger.error("Failed to fetch usage summary", error as Error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
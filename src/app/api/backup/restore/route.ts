@@ -0,0 +1,74 @@
+/**
+ * Restore API Route
+ * バックアップアーカイブを問題リポジトリに復元するエンドポイント
+ */
+
+import { NextResponse } from "next/server";
+import { RestoreBackupUseCase } from "@/features/question-backup/usecases/restore-backup";
+import { parseBackupArchive } from "@/features/question-backup/infrastructure/backup-archive";
+import type { RestoreConflictStrategy } from "@/features/question-backup/entities/types";
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import { getEnvVars, createQuestionRepository } from "@/app/env";
+
+const STRATEGIES: RestoreConflictStrategy[] = [
+  "skip",
+  "overwrite",
+  "keep-newer",
+];
+
+/**
+ * POST /api/backup/restore
+ * リクエストボディ:
+ * - archive: GET /api/backup で取得したアーカイブ
+ * - strategy: 既存の問題と内容が異なる場合の扱い（"skip" | "overwrite" | "keep-newer"、デフォルト "skip"）
+ * - dryRun: false を指定した場合のみ書き込む（デフォルトは差分の確認のみ）
+ */
+export async function POST(request: Request) {
+  logger.info("POST /api/backup/restore called");
+
+  let archive;
+  let strategy: RestoreConflictStrategy;
+  let dryRun: boolean;
+  try {
+    const body = await request.json();
+    archive = parseBackupArchive(body?.archive);
+    strategy = body?.strategy ?? "skip";
+    dryRun = body?.dryRun !== false;
+    if (!STRATEGIES.includes(strategy)) {
+      throw new Error(`strategy must be one of ${STRATEGIES.join(", ")}`);
+    }
+  } catch (error) {
+    logger.warn("Invalid restore request", {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Invalid request",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const useCase = new RestoreBackupUseCase(
+      createQuestionRepository(getEnvVars())
+    );
+    const result = await useCase.execute(archive, { strategy, dryRun });
+
+    return NextResponse.json({
+      success: result.summary.failed === 0,
+      ...result,
+    });
+  } catch (error) {
+    logger.error("Restore failed", error as Error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Backup API Route
+ * 問題バンク全体をバージョン付きの JSON アーカイブとしてダウンロードするエンドポイント
+ */
+
+import { NextResponse } from "next/server";
+import { CreateBackupUseCase } from "@/features/question-backup/usecases/create-backup";
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import { getEnvVars, createQuestionRepository } from "@/app/env";
+
+/**
+ * GET /api/backup
+ * すべての問題（ノートID・作成/更新日時を含む）をアーカイブとして返す
+ */
+export async function GET() {
+  logger.info("GET /api/backup called");
+
+  try {
+    const env = getEnvVars();
+    const useCase = new CreateBackupUseCase(createQuestionRepository(env));
+    const archive = await useCase.execute({
+      repositoryType: env.repositoryType,
+      databaseId:
+        env.repositoryType === "notion" ? env.notionDatabaseId : undefined,
+    });
+
+    const timestamp = archive.createdAt.replace(/[-:]/g, "").slice(0, 15);
+    return new Response(JSON.stringify(archive, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="aws-saa-backup-${timestamp}.json"`,
+      },
+    });
+  } catch (error) {
+    logger.error("Backup failed", error as Error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
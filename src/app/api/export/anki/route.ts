@@ -0,0 +1,69 @@
+/**
+ * Anki Export API Route
+ * 問題バンクを Anki でインポート可能なテキストとしてダウンロードするエンドポイント
+ */
+
+import { NextResponse } from "next/server";
+import { ExportAnkiDeckUseCase } from "@/features/question-export/usecases/export-anki-deck";
+import { AnkiDeckFormatter } from "@/features/question-export/infrastructure/anki-deck-formatter";
+import type { AnkiDiagramMode } from "@/features/question-export/entities/types";
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import { getEnvVars, createQuestionRepository } from "@/app/env";
+
+/**
+ * diagrams クエリパラメータに指定できる図の出力方法
+ */
+const DIAGRAM_MODES: AnkiDiagramMode[] = ["source", "image", "none"];
+
+/**
+ * GET /api/export/anki
+ * クエリパラメータ:
+ * - deck: デッキ名（省略時は "AWS SAA"、改行・タブは空白に置き換える）
+ * - diagrams: アーキテクチャ図の出力方法
+ *   - source（デフォルト）: Mermaid のソースをテキストとして含める
+ *   - image: mermaid.ink でレンダリングした画像を参照する（図のソースを mermaid.ink に送信する）
+ *   - none: 含めない
+ */
+export async function GET(request: Request) {
+  logger.info("GET /api/export/anki called");
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const diagrams = searchParams.get("diagrams") ?? "source";
+    const diagramMode = DIAGRAM_MODES.find((mode) => mode === diagrams);
+    if (!diagramMode) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid diagrams parameter: ${diagrams} (source / image / none)`,
+        },
+        { status: 400 }
+      );
+    }
+    const formatter = new AnkiDeckFormatter({
+      deckName: searchParams.get("deck") || undefined,
+      diagramMode,
+    });
+
+    const questionRepository = createQuestionRepository(getEnvVars());
+    const useCase = new ExportAnkiDeckUseCase(questionRepository, formatter);
+    const file = await useCase.execute();
+
+    return new Response(file.content, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.fileName}"`,
+      },
+    });
+  } catch (error) {
+    logger.error("Anki export failed", error as Error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
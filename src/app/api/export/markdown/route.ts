@@ -0,0 +1,67 @@
+/**
+ * Markdown Export API Route
+ * 問題バンクを Obsidian Vault 形式の Markdown（zip）としてダウンロードするエンドポイント
+ */
+
+import { NextResponse } from "next/server";
+import { ExportMarkdownVaultUseCase } from "@/features/question-export/usecases/export-markdown-vault";
+import { MarkdownVaultFormatter } from "@/features/question-export/infrastructure/markdown-vault-formatter";
+import { createZipArchive } from "@/features/question-export/infrastructure/zip-archive";
+import { WELL_ARCHITECTED_PILLAR_NAMES } from "@/features/aws-note/entities/well-architected";
+import type { WellArchitectedPillar } from "@/features/aws-note/entities/types";
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import { getEnvVars, createQuestionRepository } from "@/app/env";
+
+/**
+ * GET /api/export/markdown
+ * クエリパラメータ（すべて省略可、省略時は全件）:
+ * - service: 関連サービス（複数指定可、いずれかを含む問題）
+ * - pillar: Well-Architected の柱（複数指定可、いずれかを含む問題）
+ * - search: 問題文・解説・選択肢のキーワード
+ */
+export async function GET(request: Request) {
+  logger.info("GET /api/export/markdown called");
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const pillars = searchParams.getAll("pillar");
+    const invalidPillar = pillars.find(
+      (pillar) => !(pillar in WELL_ARCHITECTED_PILLAR_NAMES)
+    );
+    if (invalidPillar) {
+      return NextResponse.json(
+        { success: false, error: `Unknown pillar: ${invalidPillar}` },
+        { status: 400 }
+      );
+    }
+
+    const env = getEnvVars();
+    const useCase = new ExportMarkdownVaultUseCase(
+      createQuestionRepository(env),
+      new MarkdownVaultFormatter({ repositoryType: env.repositoryType }),
+      createZipArchive
+    );
+    const file = await useCase.execute({
+      services: searchParams.getAll("service"),
+      pillars: pillars as WellArchitectedPillar[],
+      search: searchParams.get("search") || undefined,
+    });
+
+    return new Response(file.content, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.fileName}"`,
+      },
+    });
+  } catch (error) {
+    logger.error("Markdown export failed", error as Error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
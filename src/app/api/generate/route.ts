@@ -0,0 +1,97 @@
+/**
+ * Note Generation Streaming API Route
+ * 解説ノートを生成し、進捗（段階・生成途中の解説）と結果を NDJSON で逐次送信するエンドポイント
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { CreateSaaNoteUseCase } from "@/features/aws-note/usecases/create-saa-note";
+import type { GenerationStreamEvent } from "@/features/aws-note/entities/generation-progress";
+import { PROMPT_TEMPLATE_IDS } from "@/features/aws-note/entities/prompt-template";
+import { OUTPUT_LANGUAGES } from "@/features/aws-note/entities/explanation-language";
+import { GenerationSettingsOverridesSchema } from "@/features/aws-note/infrastructure/generation-settings";
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import { createNdjsonResponse } from "@/app/ndjson";
+import {
+  getEnvVars,
+  createAnalysisCache,
+  createQuestionAnalyzer,
+  createQuestionRepository,
+  createRevisionRepository,
+} from "@/app/env";
+
+const GenerateRequestSchema = z.object({
+  questionText: z.string().trim().min(1),
+  choices: z.array(z.string().trim().min(1)).min(2).max(8),
+  bypassCache: z.boolean().optional(),
+  promptTemplateId: z.enum(PROMPT_TEMPLATE_IDS).optional(),
+  outputLanguage: z.enum(OUTPUT_LANGUAGES).optional(),
+  generation: GenerationSettingsOverridesSchema.optional(),
+});
+
+/**
+ * POST /api/generate
+ * リクエストボディ:
+ * - questionText: 問題文
+ * - choices: 選択肢（2〜8個）
+ * - bypassCache: true の場合はキャッシュ済みの分析結果を使わない
+ * - promptTemplateId: 解説のペルソナ（省略時は beginner）
+ * - outputLanguage: 解説の出力言語（ja / en / bilingual、省略時は ja）
+ * - generation: 生成設定の上書き（model / temperature / topP / topK / maxOutputTokens、省略時は環境変数の設定）
+ *
+ * レスポンス: 1行に1つの GenerationStreamEvent（application/x-ndjson）
+ */
+export async function POST(request: Request) {
+  logger.info("POST /api/generate called");
+
+  let input: z.infer<typeof GenerateRequestSchema>;
+  try {
+    input = GenerateRequestSchema.parse(await request.json());
+  } catch (error) {
+    logger.warn("Invalid generate request", {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Invalid request",
+      },
+      { status: 400 }
+    );
+  }
+
+  return createNdjsonResponse<GenerationStreamEvent>(
+    async (send) => {
+      const env = getEnvVars();
+      const useCase = new CreateSaaNoteUseCase(
+        createQuestionAnalyzer(env, input.generation),
+        createQuestionRepository(env),
+        createRevisionRepository(env),
+        createAnalysisCache(env)
+      );
+      const result = await useCase.execute(
+        { questionText: input.questionText, choices: input.choices },
+        {
+          bypassCache: input.bypassCache === true,
+          promptTemplateId: input.promptTemplateId,
+          outputLanguage: input.outputLanguage,
+          onProgress: send,
+        }
+      );
+
+      send({
+        type: "result",
+        note: result.note,
+        noteId: result.noteId,
+        repositoryType: env.repositoryType,
+      });
+    },
+    (error) => {
+      logger.error("Streaming note generation failed", error as Error);
+      return {
+        type: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Mentor Chat Streaming API Route
+ * 保存した問題についての質問に回答し、生成途中の回答と保存後のノートを NDJSON で逐次送信するエンドポイント
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { AskMentorUseCase } from "@/features/aws-note/usecases/ask-mentor";
+import {
+  MAX_MENTOR_QUESTION_LENGTH,
+  type MentorStreamEvent,
+} from "@/features/aws-note/entities/mentor-chat";
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import { createNdjsonResponse } from "@/app/ndjson";
+import {
+  getEnvVars,
+  createQuestionAnalyzer,
+  createQuestionRepository,
+} from "@/app/env";
+
+const MentorRequestSchema = z.object({
+  noteId: z.string().min(1),
+  question: z.string().trim().min(1).max(MAX_MENTOR_QUESTION_LENGTH),
+});
+
+/**
+ * POST /api/mentor
+ * リクエストボディ:
+ * - noteId: 質問する問題のノートID
+ * - question: 学習者の質問
+ *
+ * レスポンス: 1行に1つの MentorStreamEvent（application/x-ndjson）
+ */
+export async function POST(request: Request) {
+  logger.info("POST /api/mentor called");
+
+  let input: z.infer<typeof MentorRequestSchema>;
+  try {
+    input = MentorRequestSchema.parse(await request.json());
+  } catch (error) {
+    logger.warn("Invalid mentor request", {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Invalid request",
+      },
+      { status: 400 }
+    );
+  }
+
+  return createNdjsonResponse<MentorStreamEvent>(
+    async (send) => {
+      const env = getEnvVars();
+      const useCase = new AskMentorUseCase(
+        createQuestionAnalyzer(env),
+        createQuestionRepository(env)
+      );
+      const note = await useCase.execute(input.noteId, input.question, {
+        onPartialAnswer: (answer) => send({ type: "partial-answer", answer }),
+      });
+
+      send({ type: "result", note });
+    },
+    (error) => {
+      logger.error("Streaming mentor answer failed", error as Error, {
+        noteId: input.noteId,
+      });
+      return {
+        type: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  );
+}
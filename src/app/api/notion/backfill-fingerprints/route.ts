@@ -0,0 +1,47 @@
+/**
+ * Fingerprint Backfill API Route
+ * 既存のNotionページに "Question Fingerprint" を書き込む一度きりの移行エンドポイント
+ */
+
+import { NextResponse } from "next/server";
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import { getEnvVars, createNotionClient } from "@/app/env";
+
+/**
+ * POST /api/notion/backfill-fingerprints
+ * フィンガープリント未設定のページを走査して書き込み、重複ページを報告
+ */
+export async function POST() {
+  logger.info("POST /api/notion/backfill-fingerprints called");
+
+  try {
+    const env = getEnvVars();
+    if (env.repositoryType !== "notion") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "QUESTION_REPOSITORY が notion の場合のみ実行できます",
+        },
+        { status: 400 }
+      );
+    }
+
+    const notionClient = createNotionClient(env);
+    const result = await notionClient.backfillFingerprints();
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    logger.error("Fingerprint backfill failed", error as Error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
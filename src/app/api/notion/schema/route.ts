@@ -0,0 +1,93 @@
+/**
+ * Notion Schema API Route
+ * データベースのスキーマ検査と自動作成・修正を行うエンドポイント
+ */
+
+import { NextResponse } from "next/server";
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import { getEnvVars, createNotionClient } from "@/app/env";
+
+/**
+ * QUESTION_REPOSITORY が notion 以外の場合のエラーレスポンス
+ */
+function notNotionResponse() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: "QUESTION_REPOSITORY が notion の場合のみ実行できます",
+    },
+    { status: 400 }
+  );
+}
+
+/**
+ * GET /api/notion/schema
+ * 不足しているプロパティ・型が異なるプロパティを報告
+ */
+export async function GET() {
+  logger.info("GET /api/notion/schema called");
+
+  try {
+    const env = getEnvVars();
+    if (env.repositoryType !== "notion") {
+      return notNotionResponse();
+    }
+
+    const report = await createNotionClient(env).inspectSchema();
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    logger.error("Notion schema inspection failed", error as Error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/notion/schema
+ * 不足しているプロパティを作成（body: { fixTypes?: boolean } で型も修正）
+ */
+export async function POST(request: Request) {
+  logger.info("POST /api/notion/schema called");
+
+  try {
+    const env = getEnvVars();
+    if (env.repositoryType !== "notion") {
+      return notNotionResponse();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const fixTypes = body?.fixTypes === true;
+
+    const result = await createNotionClient(env).migrateSchema({ fixTypes });
+
+    logger.info("Notion schema migration completed", {
+      applied: result.applied,
+      remainingIssues: result.issues.length,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    logger.error("Notion schema migration failed", error as Error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
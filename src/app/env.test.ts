@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getEnvVars } from "./env";
+
+describe("getEnvVars", () => {
+  beforeEach(() => {
+    vi.stubEnv("ANALYZER_PROVIDER", "fake");
+    vi.stubEnv("QUESTION_REPOSITORY", "local");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("ANALYSIS_VOTING_TEMPERATURES", () => {
+    it("カンマ区切りの数値を読み取る", () => {
+      vi.stubEnv("ANALYSIS_VOTING_TEMPERATURES", "0.1, 1.5");
+
+      expect(getEnvVars().analysisVotingTemperatures).toEqual([0.1, 1.5]);
+    });
+
+    it("空の要素を 0 として扱わずに無視する", () => {
+      vi.stubEnv("ANALYSIS_VOTING_TEMPERATURES", "0.2,,0.8,");
+
+      expect(getEnvVars().analysisVotingTemperatures).toEqual([0.2, 0.8]);
+    });
+
+    it.each(["", "  "])("空文字列 %j の場合はデフォルト値を使う", (value) => {
+      vi.stubEnv("ANALYSIS_VOTING_TEMPERATURES", value);
+
+      expect(getEnvVars().analysisVotingTemperatures).toEqual([0.2, 0.5, 0.8]);
+    });
+
+    it.each(["0.2,abc", "3", ",,"])("不正な値 %j はエラーにする", (value) => {
+      vi.stubEnv("ANALYSIS_VOTING_TEMPERATURES", value);
+
+      expect(() => getEnvVars()).toThrow(/ANALYSIS_VOTING_TEMPERATURES/);
+    });
+  });
+
+  describe("ANALYSIS_CACHE_TTL_HOURS", () => {
+    it("数値を読み取る（0 はキャッシュしない）", () => {
+      vi.stubEnv("ANALYSIS_CACHE_TTL_HOURS", "0");
+
+      expect(getEnvVars().analysisCacheTtlHours).toBe(0);
+    });
+
+    it("空文字列の場合はデフォルト値を使う", () => {
+      vi.stubEnv("ANALYSIS_CACHE_TTL_HOURS", "");
+
+      expect(getEnvVars().analysisCacheTtlHours).toBe(24 * 30);
+    });
+
+    it.each(["-1", "abc", "Infinity"])(
+      "不正な値 %j はエラーにする",
+      (value) => {
+        vi.stubEnv("ANALYSIS_CACHE_TTL_HOURS", value);
+
+        expect(() => getEnvVars()).toThrow(/ANALYSIS_CACHE_TTL_HOURS/);
+      }
+    );
+  });
+});
@@ -0,0 +1,479 @@
+/**
+ * サーバー側の環境変数とインフラ層の初期化
+ * Server Actions と API Route で共有する
+ */
+
+import { z } from "zod";
+import { NotionClient } from "@/features/aws-note/infrastructure/notion-client";
+import { LocalQuestionRepository } from "@/features/aws-note/infrastructure/local-question-repository";
+import { LocalRevisionRepository } from "@/features/aws-note/infrastructure/local-revision-repository";
+import { LocalAnalysisCache } from "@/features/aws-note/infrastructure/local-analysis-cache";
+import { GeminiClient } from "@/features/aws-note/infrastructure/gemini-client";
+import { OpenAICompatibleClient } from "@/features/aws-note/infrastructure/openai-compatible-client";
+import { FakeQuestionAnalyzer } from "@/features/aws-note/infrastructure/fake-question-analyzer";
+import { VotingQuestionAnalyzer } from "@/features/aws-note/infrastructure/voting-question-analyzer";
+import { BudgetedQuestionAnalyzer } from "@/features/aws-note/infrastructure/budgeted-question-analyzer";
+import { LocalUsageLedger } from "@/features/aws-note/infrastructure/local-usage-ledger";
+import { parseModelPriceTable } from "@/features/aws-note/infrastructure/model-prices";
+import {
+  DEFAULT_GENERATION_PARAMETERS,
+  resolveGenerationSettings,
+} from "@/features/aws-note/infrastructure/generation-settings";
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import { DEFAULT_GEMINI_API_MODEL } from "@/constants/gemini-model";
+import type {
+  QuestionRepository,
+  QuestionRepositoryType,
+} from "@/features/aws-note/entities/question-repository";
+import type { QuestionRevisionRepository } from "@/features/aws-note/entities/question-revision";
+import type { AnalysisCache } from "@/features/aws-note/entities/analysis-cache";
+import type {
+  AnalyzerProviderType,
+  QuestionAnalyzer,
+} from "@/features/aws-note/entities/question-analyzer";
+import type {
+  GenerationSettings,
+  GenerationSettingsOverrides,
+} from "@/features/aws-note/entities/generation-settings";
+import type {
+  ModelPriceTable,
+  UsageBudget,
+  UsageBudgetMode,
+  UsageLedger,
+} from "@/features/aws-note/entities/token-usage";
+
+/**
+ * ローカルリポジトリのデフォルト保存先
+ */
+const DEFAULT_LOCAL_QUESTION_STORE_PATH = "data/questions.json";
+
+/**
+ * 改訂履歴のデフォルト保存先
+ */
+const DEFAULT_REVISION_STORE_PATH = "data/revisions.json";
+
+/**
+ * 分析結果キャッシュのデフォルト保存先
+ */
+const DEFAULT_ANALYSIS_CACHE_PATH = "data/analysis-cache.json";
+
+/**
+ * 分析結果キャッシュのデフォルトの有効期限（時間）
+ */
+const DEFAULT_ANALYSIS_CACHE_TTL_HOURS = 24 * 30;
+
+/**
+ * トークン使用量の台帳のデフォルト保存先
+ */
+const DEFAULT_USAGE_LEDGER_PATH = "data/usage.json";
+
+/**
+ * 多数決モードで各分析に順に割り当てるデフォルトの temperature
+ */
+const DEFAULT_ANALYSIS_VOTING_TEMPERATURES = [0.2, 0.5, 0.8];
+
+/**
+ * 多数決モードの最大実行回数
+ */
+const MAX_ANALYSIS_VOTING_RUNS = 7;
+
+/**
+ * OpenAI 互換プロバイダーのデフォルトのベースURL（ローカルの Ollama）
+ */
+const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * ANALYSIS_VOTING_TEMPERATURES の形式（カンマ区切りの 0〜2 の数値）
+ * 空の要素（"0.2,,0.8" や末尾のカンマ）は 0 として扱わずに無視する
+ */
+const AnalysisVotingTemperaturesSchema = z
+  .string()
+  .transform((value) =>
+    value
+      .split(",")
+      .map((temperature) => temperature.trim())
+      .filter((temperature) => temperature.length > 0)
+  )
+  .pipe(z.array(z.coerce.number().min(0).max(2)).min(1));
+
+/**
+ * ANALYSIS_CACHE_TTL_HOURS の形式（0 以上の数値）
+ */
+const AnalysisCacheTtlHoursSchema = z.coerce.number().finite().min(0);
+
+/**
+ * 検証済みの環境変数
+ */
+export interface EnvVars {
+  analyzerProvider: AnalyzerProviderType;
+  geminiApiKey: string;
+  openaiBaseUrl: string;
+  openaiApiKey: string;
+  /** 生成設定のデフォルト（リクエストごとに上書きできる） */
+  generation: GenerationSettings;
+  /** 多数決モードの実行回数（1 の場合は多数決を行わない） */
+  analysisVotingRuns: number;
+  /** 多数決モードで各分析に順に割り当てる temperature */
+  analysisVotingTemperatures: number[];
+  /** 多数決モードで各分析に順に割り当てるモデル（空の場合はプロバイダーのモデル） */
+  analysisVotingModels: string[];
+  repositoryType: QuestionRepositoryType;
+  notionApiKey: string;
+  notionDatabaseId: string;
+  /** 初回保存前に不足しているNotionプロパティを自動作成するかどうか */
+  notionSchemaAutoMigrate: boolean;
+  localStorePath: string;
+  revisionStorePath: string;
+  analysisCachePath: string;
+  /** 分析結果キャッシュの有効期限（時間、0 の場合はキャッシュしない） */
+  analysisCacheTtlHours: number;
+  usageLedgerPath: string;
+  /** 推定コストの計算に使う料金表 */
+  modelPrices: ModelPriceTable;
+  /** 推定コストの上限 */
+  usageBudget: UsageBudget;
+}
+
+/**
+ * 数値の環境変数を読み取る（未設定の場合は undefined）
+ */
+function optionalNumber(value: string | undefined): number | undefined {
+  return value === undefined || value === "" ? undefined : Number(value);
+}
+
+/**
+ * 環境変数を zod で検証する（未設定・空文字列の場合はデフォルト値）
+ *
+ * @param name - 環境変数名
+ * @param schema - 値の形式
+ * @param defaultValue - 未設定の場合の値
+ * @param expected - エラーメッセージに含める期待する形式
+ * @throws {Error} 値が形式に合わない場合
+ */
+function parseEnvValue<T>(
+  name: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  defaultValue: T,
+  expected: string
+): T {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    return defaultValue;
+  }
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const error = new Error(`${name} must be ${expected} (got "${value}")`);
+    logger.error("Environment variable validation failed", error);
+    throw error;
+  }
+  return result.data;
+}
+
+/**
+ * 環境変数の検証
+ */
+export function getEnvVars(): EnvVars {
+  logger.debug("Validating environment variables");
+  const analyzerProvider = (
+    process.env.ANALYZER_PROVIDER || "gemini"
+  ).toLowerCase();
+  const geminiApiKey = process.env.GEMINI_API_KEY;
+  const openaiBaseUrl = process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL;
+  const openaiApiKey = process.env.OPENAI_API_KEY;
+  const openaiModel = process.env.OPENAI_MODEL;
+  const geminiModel = process.env.GEMINI_MODEL || DEFAULT_GEMINI_API_MODEL;
+  const analysisVotingRuns = Number(process.env.ANALYSIS_VOTING_RUNS || 1);
+  const analysisVotingModels = (process.env.ANALYSIS_VOTING_MODELS || "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter((model) => model.length > 0);
+  const repositoryType = (
+    process.env.QUESTION_REPOSITORY || "notion"
+  ).toLowerCase();
+  const notionApiKey = process.env.NOTION_API_KEY;
+  const notionDatabaseId = process.env.NOTION_DATABASE_ID;
+  const notionSchemaAutoMigrate =
+    (process.env.NOTION_SCHEMA_AUTO_MIGRATE || "false").toLowerCase() ===
+    "true";
+  const localStorePath =
+    process.env.LOCAL_QUESTION_STORE_PATH || DEFAULT_LOCAL_QUESTION_STORE_PATH;
+  const revisionStorePath =
+    process.env.REVISION_STORE_PATH || DEFAULT_REVISION_STORE_PATH;
+  const analysisCachePath =
+    process.env.ANALYSIS_CACHE_PATH || DEFAULT_ANALYSIS_CACHE_PATH;
+  const usageLedgerPath =
+    process.env.USAGE_LEDGER_PATH || DEFAULT_USAGE_LEDGER_PATH;
+  const usageBudget: UsageBudget = {
+    dailyLimitUsd: optionalNumber(process.env.USAGE_DAILY_BUDGET_USD),
+    monthlyLimitUsd: optionalNumber(process.env.USAGE_MONTHLY_BUDGET_USD),
+    mode: (
+      process.env.USAGE_BUDGET_MODE || "block"
+    ).toLowerCase() as UsageBudgetMode,
+  };
+
+  if (
+    analyzerProvider !== "gemini" &&
+    analyzerProvider !== "openai" &&
+    analyzerProvider !== "fake"
+  ) {
+    const error = new Error(
+      `ANALYZER_PROVIDER must be "gemini", "openai" or "fake" (got "${analyzerProvider}")`
+    );
+    logger.error("Environment variable validation failed", error);
+    throw error;
+  }
+  if (analyzerProvider === "gemini" && !geminiApiKey) {
+    const error = new Error("GEMINI_API_KEY is not set");
+    logger.error("Environment variable validation failed", error);
+    throw error;
+  }
+  if (analyzerProvider === "openai" && !openaiModel) {
+    const error = new Error("OPENAI_MODEL is not set");
+    logger.error("Environment variable validation failed", error);
+    throw error;
+  }
+  let generation: GenerationSettings;
+  try {
+    generation = resolveGenerationSettings(
+      {
+        model: analyzerProvider === "openai" ? openaiModel! : geminiModel,
+        ...DEFAULT_GENERATION_PARAMETERS,
+      },
+      {
+        temperature: optionalNumber(process.env.GENERATION_TEMPERATURE),
+        topP: optionalNumber(process.env.GENERATION_TOP_P),
+        topK: optionalNumber(process.env.GENERATION_TOP_K),
+        maxOutputTokens: optionalNumber(
+          process.env.GENERATION_MAX_OUTPUT_TOKENS
+        ),
+      }
+    );
+  } catch (validationError) {
+    const error = new Error(
+      `GEMINI_MODEL / GENERATION_* settings are invalid: ${validationError instanceof Error ? validationError.message : String(validationError)}`
+    );
+    logger.error("Environment variable validation failed", error);
+    throw error;
+  }
+  const analysisCacheTtlHours = parseEnvValue(
+    "ANALYSIS_CACHE_TTL_HOURS",
+    AnalysisCacheTtlHoursSchema,
+    DEFAULT_ANALYSIS_CACHE_TTL_HOURS,
+    "a non-negative number"
+  );
+  if (
+    !Number.isInteger(analysisVotingRuns) ||
+    analysisVotingRuns < 1 ||
+    analysisVotingRuns > MAX_ANALYSIS_VOTING_RUNS
+  ) {
+    const error = new Error(
+      `ANALYSIS_VOTING_RUNS must be an integer between 1 and ${MAX_ANALYSIS_VOTING_RUNS} (got "${process.env.ANALYSIS_VOTING_RUNS}")`
+    );
+    logger.error("Environment variable validation failed", error);
+    throw error;
+  }
+  const analysisVotingTemperatures = parseEnvValue(
+    "ANALYSIS_VOTING_TEMPERATURES",
+    AnalysisVotingTemperaturesSchema,
+    DEFAULT_ANALYSIS_VOTING_TEMPERATURES,
+    "comma-separated numbers between 0 and 2"
+  );
+  let modelPrices: ModelPriceTable;
+  try {
+    modelPrices = parseModelPriceTable(process.env.MODEL_PRICES);
+  } catch (validationError) {
+    const error = new Error(
+      `MODEL_PRICES must be a JSON object of {"model": {"inputPerMillion": number, "outputPerMillion": number}}: ${validationError instanceof Error ? validationError.message : String(validationError)}`
+    );
+    logger.error("Environment variable validation failed", error);
+    throw error;
+  }
+  for (const [name, limit] of [
+    ["USAGE_DAILY_BUDGET_USD", usageBudget.dailyLimitUsd],
+    ["USAGE_MONTHLY_BUDGET_USD", usageBudget.monthlyLimitUsd],
+  ] as const) {
+    if (limit !== undefined && (!Number.isFinite(limit) || limit < 0)) {
+      const error = new Error(
+        `${name} must be a non-negative number (got "${process.env[name]}")`
+      );
+      logger.error("Environment variable validation failed", error);
+      throw error;
+    }
+  }
+  if (usageBudget.mode !== "block" && usageBudget.mode !== "warn") {
+    const error = new Error(
+      `USAGE_BUDGET_MODE must be "block" or "warn" (got "${usageBudget.mode}")`
+    );
+    logger.error("Environment variable validation failed", error);
+    throw error;
+  }
+  if (repositoryType !== "notion" && repositoryType !== "local") {
+    const error = new Error(
+      `QUESTION_REPOSITORY must be "notion" or "local" (got "${repositoryType}")`
+    );
+    logger.error("Environment variable validation failed", error);
+    throw error;
+  }
+  if (repositoryType === "notion" && !notionApiKey) {
+    const error = new Error("NOTION_API_KEY is not set");
+    logger.error("Environment variable validation failed", error);
+    throw error;
+  }
+  if (repositoryType === "notion" && !notionDatabaseId) {
+    const error = new Error("NOTION_DATABASE_ID is not set");
+    logger.error("Environment variable validation failed", error);
+    throw error;
+  }
+
+  logger.debug("Environment variables validated successfully", {
+    analyzerProvider,
+    model: generation.model,
+    analysisVotingRuns,
+    repositoryType,
+  });
+  return {
+    analyzerProvider,
+    geminiApiKey: geminiApiKey ?? "",
+    openaiBaseUrl,
+    openaiApiKey: openaiApiKey ?? "",
+    generation,
+    analysisVotingRuns,
+    analysisVotingTemperatures,
+    analysisVotingModels,
+    repositoryType,
+    notionApiKey: notionApiKey ?? "",
+    notionDatabaseId: notionDatabaseId ?? "",
+    notionSchemaAutoMigrate,
+    localStorePath,
+    revisionStorePath,
+    analysisCachePath,
+    analysisCacheTtlHours,
+    usageLedgerPath,
+    modelPrices,
+    usageBudget,
+  };
+}
+
+/**
+ * 環境変数に応じた問題リポジトリを生成
+ */
+export function createQuestionRepository(env: EnvVars): QuestionRepository {
+  logger.debug("Initializing question repository", {
+    repositoryType: env.repositoryType,
+  });
+  if (env.repositoryType === "local") {
+    return new LocalQuestionRepository(env.localStorePath);
+  }
+  return createNotionClient(env);
+}
+
+/**
+ * 環境変数に応じた問題分析器（LLM プロバイダー）を生成
+ * ANALYSIS_VOTING_RUNS が 2 以上の場合は、temperature・モデルを変えた分析器で多数決を行う
+ * トークン使用量は台帳に記録し、予算の上限が設定されている場合は分析の前に確認する
+ *
+ * @param overrides - リクエストごとに上書きする生成設定
+ *   （多数決モードでは各分析の temperature・モデルは ANALYSIS_VOTING_* が優先）
+ * @throws {z.ZodError} 上書きした生成設定が不正な場合
+ */
+export function createQuestionAnalyzer(
+  env: EnvVars,
+  overrides: GenerationSettingsOverrides = {}
+): QuestionAnalyzer {
+  const settings = resolveGenerationSettings(env.generation, overrides);
+  logger.debug("Initializing question analyzer", {
+    analyzerProvider: env.analyzerProvider,
+    analysisVotingRuns: env.analysisVotingRuns,
+    model: settings.model,
+  });
+  const ledger = createUsageLedger(env);
+  const temperatures = env.analysisVotingTemperatures;
+  const models = env.analysisVotingModels;
+  const analyzer =
+    env.analysisVotingRuns <= 1
+      ? createProviderAnalyzer(env, settings, ledger)
+      : new VotingQuestionAnalyzer(
+          Array.from({ length: env.analysisVotingRuns }, (_, run) =>
+            createProviderAnalyzer(
+              env,
+              resolveGenerationSettings(settings, {
+                temperature: temperatures[run % temperatures.length],
+                model:
+                  models.length > 0 ? models[run % models.length] : undefined,
+              }),
+              ledger
+            )
+          )
+        );
+
+  const { dailyLimitUsd, monthlyLimitUsd } = env.usageBudget;
+  if (dailyLimitUsd === undefined && monthlyLimitUsd === undefined) {
+    return analyzer;
+  }
+  return new BudgetedQuestionAnalyzer(analyzer, ledger, env.usageBudget);
+}
+
+/**
+ * プロバイダーの分析器を生成
+ *
+ * @param settings - 検証済みの生成設定
+ * @param ledger - トークン使用量の記録先
+ */
+function createProviderAnalyzer(
+  env: EnvVars,
+  settings: GenerationSettings,
+  ledger: UsageLedger
+): QuestionAnalyzer {
+  switch (env.analyzerProvider) {
+    case "openai":
+      return new OpenAICompatibleClient({
+        baseUrl: env.openaiBaseUrl,
+        apiKey: env.openaiApiKey || undefined,
+        settings,
+        usageRecorder: ledger,
+      });
+    case "fake":
+      return new FakeQuestionAnalyzer(settings);
+    default:
+      return new GeminiClient(env.geminiApiKey, settings, ledger);
+  }
+}
+
+/**
+ * 改訂履歴リポジトリを生成
+ * 問題の保存先に関わらずローカルファイルに保存する（Notion には改訂履歴を保存しない）
+ */
+export function createRevisionRepository(
+  env: EnvVars
+): QuestionRevisionRepository {
+  return new LocalRevisionRepository(env.revisionStorePath);
+}
+
+/**
+ * 分析結果キャッシュを生成（有効期限が 0 の場合は undefined）
+ */
+export function createAnalysisCache(env: EnvVars): AnalysisCache | undefined {
+  if (env.analysisCacheTtlHours === 0) {
+    return undefined;
+  }
+  return new LocalAnalysisCache(
+    env.analysisCachePath,
+    env.analysisCacheTtlHours * 60 * 60 * 1000
+  );
+}
+
+/**
+ * トークン使用量の台帳を生成
+ */
+export function createUsageLedger(env: EnvVars): UsageLedger {
+  return new LocalUsageLedger(env.usageLedgerPath, env.modelPrices);
+}
+
+/**
+ * Notionクライアントを生成（Notion固有の操作用）
+ */
+export function createNotionClient(env: EnvVars): NotionClient {
+  return new NotionClient(env.notionApiKey, env.notionDatabaseId, {
+    autoMigrateSchema: env.notionSchemaAutoMigrate,
+  });
+}
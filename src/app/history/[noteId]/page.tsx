@@ -0,0 +1,311 @@
+/**
+ * Question History Page - 問題ノートの改訂履歴を比較・ロールバックするページ
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { getQuestionRevisions, rollbackQuestionRevision } from "../../actions";
+import type { ExamQuestionNote } from "@/features/aws-note/entities/types";
+import type {
+  QuestionRevision,
+  QuestionRevisionSource,
+} from "@/features/aws-note/entities/question-revision";
+import {
+  diffLinesSideBySide,
+  type SideBySideDiffRow,
+} from "@/features/aws-note/infrastructure/line-diff";
+
+/**
+ * 比較対象として「現在の内容」を選ぶ場合の値
+ */
+const CURRENT = "current";
+
+/**
+ * 比較するセクション
+ */
+const DIFF_SECTIONS: {
+  label: string;
+  toText: (note: ExamQuestionNote) => string;
+}[] = [
+  { label: "問題文", toText: (note) => note.questionText },
+  {
+    label: "選択肢",
+    toText: (note) =>
+      note.choices.map((choice, i) => `${i + 1}. ${choice}`).join("\n"),
+  },
+  {
+    label: "正解",
+    toText: (note) =>
+      `${[note.correctAnswer].flat().join(", ")}. ${note.correctChoiceText}`,
+  },
+  { label: "解説", toText: (note) => note.explanation },
+  {
+    label: "各選択肢の解説",
+    toText: (note) =>
+      note.choiceExplanations
+        .map(
+          (ce) =>
+            `${ce.choiceNumber}. ${ce.isCorrect ? "✓" : "✗"} ${ce.explanation}`
+        )
+        .join("\n"),
+  },
+  {
+    label: "学習ポイント",
+    toText: (note) => note.learningPoints.map((p) => `• ${p}`).join("\n"),
+  },
+  {
+    label: "アーキテクチャ図",
+    toText: (note) => note.architectureDiagram ?? "",
+  },
+  {
+    label: "類似問題へのヒント",
+    toText: (note) => note.similarQuestionsHint ?? "",
+  },
+  {
+    label: "解説（翻訳）",
+    toText: (note) => note.translation?.explanation ?? "",
+  },
+];
+
+/**
+ * 改訂の発生元の表示名
+ */
+const REVISION_SOURCE_LABELS: Record<QuestionRevisionSource, string> = {
+  generation: "生成",
+  rollback: "ロールバック",
+  translation: "翻訳",
+  mentor: "メンター回答",
+  "pre-regeneration": "再生成前",
+};
+
+const ROW_STYLES: Record<SideBySideDiffRow["type"], [string, string]> = {
+  same: ["", ""],
+  removed: ["bg-destructive/15", "bg-muted/40"],
+  added: ["bg-muted/40", "bg-green-500/15"],
+  changed: ["bg-destructive/15", "bg-green-500/15"],
+};
+
+/**
+ * 改訂の表示名
+ */
+function revisionLabel(revision: QuestionRevision): string {
+  const date = new Date(revision.createdAt).toLocaleString("ja-JP");
+  const source = REVISION_SOURCE_LABELS[revision.source];
+  // テンプレート導入前の改訂はバージョン番号のみを記録している
+  const prompt = /^\d+$/.test(revision.promptVersion)
+    ? `v${revision.promptVersion}`
+    : revision.promptVersion;
+  return `${date}（${source} / ${revision.model} / prompt ${prompt}）`;
+}
+
+export default function QuestionHistoryPage() {
+  const { noteId } = useParams<{ noteId: string }>();
+  const [question, setQuestion] = useState<ExamQuestionNote | null>(null);
+  const [revisions, setRevisions] = useState<QuestionRevision[]>([]);
+  const [leftId, setLeftId] = useState<string>("");
+  const [rightId, setRightId] = useState<string>(CURRENT);
+  const [loading, setLoading] = useState(true);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getQuestionRevisions(noteId);
+      if (result.success) {
+        const list = result.revisions ?? [];
+        setQuestion(result.question ?? null);
+        setRevisions(list);
+        // デフォルトは1つ前の改訂と現在の内容を比較
+        setLeftId(list[1]?.id ?? list[0]?.id ?? "");
+        setRightId(result.question ? CURRENT : (list[0]?.id ?? ""));
+      } else {
+        setError(result.error || "改訂履歴の取得に失敗しました");
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "改訂履歴の取得に失敗しました"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [noteId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const resolve = (id: string): ExamQuestionNote | null =>
+    id === CURRENT
+      ? question
+      : (revisions.find((revision) => revision.id === id)?.note ?? null);
+
+  const handleRollback = async (revision: QuestionRevision) => {
+    if (
+      !confirm(
+        `${revisionLabel(revision)} の内容に戻しますか？\n現在の内容も改訂履歴に残ります。`
+      )
+    ) {
+      return;
+    }
+    setRollingBack(revision.id);
+    setError(null);
+    try {
+      const result = await rollbackQuestionRevision(noteId, revision.id);
+      if (!result.success) {
+        setError(result.error || "ロールバックに失敗しました");
+        return;
+      }
+      await fetchRevisions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "ロールバックに失敗しました");
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  const left = resolve(leftId);
+  const right = resolve(rightId);
+
+  const renderSelect = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full px-3 py-2 bg-background border border-input rounded-lg text-sm text-foreground"
+    >
+      {question && <option value={CURRENT}>現在の内容</option>}
+      {revisions.map((revision) => (
+        <option key={revision.id} value={revision.id}>
+          {revisionLabel(revision)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="max-w-6xl mx-auto">
+        <header className="mb-8">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">
+                改訂履歴
+              </h1>
+              <p className="text-muted-foreground line-clamp-2">
+                {question?.questionText ?? noteId}
+              </p>
+            </div>
+            <Link
+              href="/practice"
+              className="px-4 py-2 text-primary hover:bg-accent rounded-lg transition"
+            >
+              ← 問題練習
+            </Link>
+          </div>
+        </header>
+
+        {error && (
+          <div className="mb-6 p-3 bg-destructive/10 border border-destructive/50 rounded-lg">
+            <p className="text-destructive text-sm">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-muted-foreground">読み込み中...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-muted-foreground">
+            この問題の改訂履歴はまだありません。解説を生成すると記録されます。
+          </p>
+        ) : (
+          <>
+            {/* 改訂一覧 */}
+            <div className="bg-card rounded-lg border border-border p-6 mb-6">
+              <h2 className="text-xl font-semibold text-foreground mb-4">
+                改訂（{revisions.length}件）
+              </h2>
+              <div className="space-y-2">
+                {revisions.map((revision) => (
+                  <div
+                    key={revision.id}
+                    className="flex items-center justify-between gap-3 p-3 bg-muted rounded-lg text-sm"
+                  >
+                    <span className="text-foreground">
+                      {revisionLabel(revision)}
+                    </span>
+                    <button
+                      onClick={() => handleRollback(revision)}
+                      disabled={rollingBack !== null}
+                      className="px-3 py-1 bg-secondary text-secondary-foreground rounded hover:bg-secondary/80 disabled:opacity-50 disabled:cursor-not-allowed transition whitespace-nowrap"
+                    >
+                      {rollingBack === revision.id
+                        ? "処理中..."
+                        : "この内容に戻す"}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* 左右比較 */}
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="grid grid-cols-2 gap-4 mb-6">
+                {renderSelect(leftId, setLeftId)}
+                {renderSelect(rightId, setRightId)}
+              </div>
+
+              {left && right ? (
+                <div className="space-y-6">
+                  {DIFF_SECTIONS.map((section) => {
+                    const rows = diffLinesSideBySide(
+                      section.toText(left),
+                      section.toText(right)
+                    );
+                    const unchanged = rows.every((row) => row.type === "same");
+                    return (
+                      <div key={section.label}>
+                        <h3 className="font-bold text-foreground mb-2">
+                          {section.label}
+                          {unchanged && (
+                            <span className="ml-2 text-xs font-normal text-muted-foreground">
+                              変更なし
+                            </span>
+                          )}
+                        </h3>
+                        {!unchanged && (
+                          <div className="grid grid-cols-2 border border-border rounded-lg overflow-hidden text-sm">
+                            {rows.map((row, i) => (
+                              <div key={i} className="contents">
+                                <div
+                                  className={`px-3 py-1 whitespace-pre-wrap text-foreground border-r border-border ${ROW_STYLES[row.type][0]}`}
+                                >
+                                  {row.left ?? ""}
+                                </div>
+                                <div
+                                  className={`px-3 py-1 whitespace-pre-wrap text-foreground ${ROW_STYLES[row.type][1]}`}
+                                >
+                                  {row.right ?? ""}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-muted-foreground">
+                  比較する改訂を選択してください
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
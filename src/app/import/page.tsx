@@ -0,0 +1,301 @@
+/**
+ * Question Import Page - CSV / JSON の問題バンクを一括インポートするページ
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { importQuestions, getImportAnalysisJob } from "../actions";
+import type {
+  AnalysisJob,
+  ImportFormat,
+  ImportResult,
+  ImportRowAction,
+} from "@/features/question-import/entities/types";
+
+/**
+ * 分析ジョブの進捗を確認する間隔
+ */
+const JOB_POLL_INTERVAL_MS = 3000;
+
+/**
+ * 行ごとの処理内容の表示ラベル
+ */
+const ACTION_LABELS: Record<ImportRowAction, string> = {
+  save: "保存",
+  analyze: "AI で分析",
+  "skip-duplicate": "重複のためスキップ",
+  "skip-unanswered": "正解なしのためスキップ",
+  invalid: "エラー",
+};
+
+const ACTION_STYLES: Record<ImportRowAction, string> = {
+  save: "bg-green-500/20 text-green-700 dark:text-green-300",
+  analyze: "bg-primary/20 text-primary",
+  "skip-duplicate": "bg-muted text-muted-foreground",
+  "skip-unanswered": "bg-muted text-muted-foreground",
+  invalid: "bg-destructive/20 text-destructive",
+};
+
+/**
+ * ファイル名から形式を判定
+ */
+function detectFormat(fileName: string): ImportFormat {
+  return fileName.toLowerCase().endsWith(".json") ? "json" : "csv";
+}
+
+export default function ImportPage() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [content, setContent] = useState("");
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [analyzeMissing, setAnalyzeMissing] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [job, setJob] = useState<AnalysisJob | null>(null);
+  // サーバーの再起動などでジョブの状態が失われた
+  const [jobLost, setJobLost] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * ファイルを読み込む
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setResult(null);
+    setJob(null);
+    setJobLost(false);
+    setError(null);
+    if (!file) {
+      setFileName(null);
+      setContent("");
+      return;
+    }
+    setFileName(file.name);
+    setFormat(detectFormat(file.name));
+    setContent(await file.text());
+  };
+
+  /**
+   * 検証（dryRun）またはインポートを実行
+   */
+  const runImport = async (dryRun: boolean) => {
+    setLoading(true);
+    setError(null);
+    setJob(null);
+    setJobLost(false);
+
+    try {
+      const response = await importQuestions(content, format, {
+        dryRun,
+        analyzeMissing,
+      });
+      if (response.success && response.result) {
+        setResult(response.result);
+      } else {
+        setError(response.error || "インポートに失敗しました");
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "インポート中にエラーが発生しました"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 分析ジョブの進捗を完了までポーリング
+  const analysisJobId = result?.analysisJobId;
+  useEffect(() => {
+    if (!analysisJobId) return;
+
+    let cancelled = false;
+    const poll = async () => {
+      const response = await getImportAnalysisJob(analysisJobId);
+      if (cancelled) return;
+      if (!response.success || !response.job) {
+        setJobLost(true);
+        return;
+      }
+      setJob(response.job);
+      if (response.job.status !== "completed") {
+        timer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+      }
+    };
+    let timer = setTimeout(poll, 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [analysisJobId]);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="max-w-4xl mx-auto">
+        <header className="mb-8">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">
+                問題の一括インポート
+              </h1>
+              <p className="text-muted-foreground">
+                CSV / JSON の問題バンクを検証して取り込みます
+              </p>
+            </div>
+            <Link
+              href="/"
+              className="px-4 py-2 text-primary hover:bg-accent rounded-lg transition"
+            >
+              ← ホーム
+            </Link>
+          </div>
+        </header>
+
+        {/* 入力エリア */}
+        <div className="bg-card rounded-lg border border-border p-6 mb-6">
+          <label
+            htmlFor="import-file"
+            className="block text-sm font-medium text-foreground mb-2"
+          >
+            ファイル（.csv / .json）
+          </label>
+          <input
+            id="import-file"
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFileChange}
+            disabled={loading}
+            className="block w-full text-sm text-foreground file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-secondary file:text-secondary-foreground hover:file:bg-secondary/80"
+          />
+          <p className="text-xs text-muted-foreground mt-2">
+            CSV の列: questionText, choice1〜choice8, correctAnswer,
+            explanation, relatedServices, wellArchitectedCategories,
+            choiceExplanation1〜8, learningPoints, architectureDiagram,
+            similarQuestionsHint（questionText と選択肢以外は省略可）
+          </p>
+
+          <label className="flex items-center gap-2 mt-4 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={analyzeMissing}
+              onChange={(e) => setAnalyzeMissing(e.target.checked)}
+              disabled={loading}
+            />
+            正解・解説のない問題を AI で分析して保存する
+          </label>
+          {analyzeMissing && (
+            <p className="text-xs text-muted-foreground mt-1 ml-6">
+              分析キューはサーバーのメモリ上にあるため、完了前にサーバーを再起動すると未分析の問題は保存されません（再度インポートすると、保存済みの問題は重複としてスキップされます）
+            </p>
+          )}
+
+          <div className="flex gap-4 mt-4">
+            <button
+              onClick={() => runImport(true)}
+              disabled={loading || !content}
+              className="px-6 py-2 bg-secondary text-secondary-foreground font-semibold rounded-lg hover:bg-secondary/80 disabled:opacity-50 disabled:cursor-not-allowed transition"
+            >
+              {loading ? "..." : "検証のみ"}
+            </button>
+            <button
+              onClick={() => runImport(false)}
+              disabled={loading || !content}
+              className="flex-1 px-6 py-2 bg-primary text-primary-foreground font-semibold rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition shadow-sm"
+            >
+              {loading
+                ? "処理中..."
+                : `インポート${fileName ? `（${fileName}）` : ""}`}
+            </button>
+          </div>
+
+          {error && (
+            <div className="mt-4 p-3 bg-destructive/10 border border-destructive/50 rounded-lg">
+              <p className="text-destructive text-sm">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* 結果エリア */}
+        {result && (
+          <div className="bg-card rounded-lg border border-border p-6">
+            <h2 className="text-xl font-semibold text-foreground mb-4">
+              {result.dryRun ? "検証結果" : "インポート結果"}
+            </h2>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+              {(Object.keys(ACTION_LABELS) as ImportRowAction[]).map(
+                (action) => (
+                  <span
+                    key={action}
+                    className={`px-3 py-1 rounded-full text-sm ${ACTION_STYLES[action]}`}
+                  >
+                    {ACTION_LABELS[action]}: {result.summary[action]}
+                  </span>
+                )
+              )}
+              {result.summary.failed > 0 && (
+                <span className="px-3 py-1 rounded-full text-sm bg-destructive/20 text-destructive">
+                  保存失敗: {result.summary.failed}
+                </span>
+              )}
+            </div>
+
+            {job && (
+              <div className="mb-4 p-3 bg-muted rounded-lg text-sm text-foreground">
+                AI 分析:{" "}
+                {job.status === "completed"
+                  ? "完了"
+                  : job.status === "running"
+                    ? "実行中"
+                    : "待機中"}{" "}
+                （{job.completed + job.failed} / {job.total}
+                {job.failed > 0 && `、失敗 ${job.failed}`}）
+                {job.errors.map((e) => (
+                  <p key={e.row} className="text-destructive mt-1">
+                    {e.row}行目: {e.message}
+                  </p>
+                ))}
+              </div>
+            )}
+            {jobLost && (
+              <div className="mb-4 p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-sm text-destructive">
+                AI 分析ジョブが見つかりません。サーバーが再起動された可能性があります。未保存の問題は同じファイルを再度インポートして分析してください
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {result.rows.map((row) => (
+                <div
+                  key={row.row}
+                  className="flex items-start gap-3 p-3 bg-muted rounded-lg text-sm"
+                >
+                  <span className="flex-shrink-0 w-12 text-muted-foreground">
+                    {row.row}行目
+                  </span>
+                  <span
+                    className={`flex-shrink-0 px-2 py-0.5 rounded text-xs ${ACTION_STYLES[row.action]}`}
+                  >
+                    {ACTION_LABELS[row.action]}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    {row.questionPreview && (
+                      <p className="text-foreground truncate">
+                        {row.questionPreview}
+                      </p>
+                    )}
+                    {row.errors?.map((message, i) => (
+                      <p key={i} className="text-destructive">
+                        {message}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
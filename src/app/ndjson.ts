@@ -0,0 +1,91 @@
+/**
+ * NDJSON（1行に1つの JSON）によるイベントのストリーミング
+ * 生成の進捗などを API Route から逐次送信し、クライアントで読み取る
+ */
+
+/**
+ * イベントを NDJSON で逐次送信するレスポンスを作成
+ * クライアントが切断した後の送信は無視し、produce の例外は toErrorEvent で変換したイベントとして送信する
+ *
+ * @param produce - イベントを送信する処理（完了するとストリームを閉じる）
+ * @param toErrorEvent - produce が失敗した場合に送信するイベント
+ */
+export function createNdjsonResponse<T>(
+  produce: (send: (event: T) => void) => Promise<void>,
+  toErrorEvent: (error: unknown) => T
+): Response {
+  const encoder = new TextEncoder();
+  // クライアントの切断後に enqueue / close すると例外になるため、閉じた後は何もしない
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: T) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        await produce(send);
+      } catch (error) {
+        send(toErrorEvent(error));
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // 既にキャンセルされている
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
+/**
+ * NDJSON のレスポンスを読み取り、イベントごとに通知
+ *
+ * @param body - レスポンスボディ
+ * @param onEvent - 1行ごとのイベントを受け取る
+ */
+export async function readNdjsonStream<T>(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: T) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) {
+        onEvent(JSON.parse(line) as T);
+      }
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    onEvent(JSON.parse(buffer) as T);
+  }
+}
@@ -5,8 +5,33 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
-import { createExamQuestionNote } from "./actions";
 import type { ExamQuestionNote } from "@/features/aws-note/entities/types";
+import type { QuestionRepositoryType } from "@/features/aws-note/entities/question-repository";
+import {
+  formatAnswerVotes,
+  isLowConfidence,
+} from "@/features/aws-note/infrastructure/answer-confidence-format";
+import {
+  GENERATION_STAGES,
+  type GenerationStage,
+  type GenerationStreamEvent,
+} from "@/features/aws-note/entities/generation-progress";
+import {
+  DEFAULT_PROMPT_TEMPLATE_ID,
+  PROMPT_TEMPLATE_IDS,
+  PROMPT_TEMPLATE_PERSONAS,
+  type PromptTemplateId,
+} from "@/features/aws-note/entities/prompt-template";
+import {
+  DEFAULT_OUTPUT_LANGUAGE,
+  OUTPUT_LANGUAGES,
+  OUTPUT_LANGUAGE_LABELS,
+  type OutputLanguage,
+} from "@/features/aws-note/entities/explanation-language";
+import type { GenerationSettingsOverrides } from "@/features/aws-note/entities/generation-settings";
+import { formatGenerationSettings } from "@/features/aws-note/infrastructure/generation-settings";
+import { GEMINI_API_MODELS } from "@/constants/gemini-model";
+import { readNdjsonStream } from "@/app/ndjson";
 import mermaid from "mermaid";
 import {
   validateAndFixMermaid,
@@ -14,6 +39,30 @@ import {
 } from "@/features/aws-note/infrastructure/mermaid-validator";
 import Link from "next/link";
 
+/**
+ * 詳細設定フォームの入力値（空欄の項目はサーバーの設定を使う）
+ */
+interface GenerationSettingsForm {
+  model: string;
+  temperature: string;
+  maxOutputTokens: string;
+}
+
+/**
+ * 詳細設定フォームの入力値を生成設定の上書きに変換
+ */
+function toGenerationOverrides(
+  form: GenerationSettingsForm
+): GenerationSettingsOverrides {
+  return {
+    model: form.model.trim() || undefined,
+    temperature:
+      form.temperature === "" ? undefined : Number(form.temperature),
+    maxOutputTokens:
+      form.maxOutputTokens === "" ? undefined : Number(form.maxOutputTokens),
+  };
+}
+
 /**
  * 選択肢が正解かどうかを判定するヘルパー関数
  */
@@ -27,13 +76,38 @@ function isCorrectAnswer(
   return choiceNumber === correctAnswer;
 }
 
+/**
+ * 生成の段階の表示名
+ */
+const GENERATION_STAGE_LABELS: Record<GenerationStage, string> = {
+  analyzing: "AI で問題を分析中",
+  "explanation-received": "解説を受信",
+  "diagram-validated": "アーキテクチャ図を検証",
+  saving: "問題バンクに保存中",
+};
+
 export default function HomePage() {
   const [questionText, setQuestionText] = useState("");
   const [choices, setChoices] = useState<string[]>(["", "", "", ""]);
   const [loading, setLoading] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [promptTemplateId, setPromptTemplateId] = useState<PromptTemplateId>(
+    DEFAULT_PROMPT_TEMPLATE_ID
+  );
+  const [outputLanguage, setOutputLanguage] = useState<OutputLanguage>(
+    DEFAULT_OUTPUT_LANGUAGE
+  );
+  const [generationForm, setGenerationForm] = useState<GenerationSettingsForm>(
+    { model: "", temperature: "", maxOutputTokens: "" }
+  );
+  const [progress, setProgress] = useState<{
+    stage: GenerationStage | null;
+    explanation: string;
+  }>({ stage: null, explanation: "" });
   const [result, setResult] = useState<{
     note?: ExamQuestionNote;
-    notionPageId?: string;
+    noteId?: string;
+    repositoryType?: QuestionRepositoryType;
     error?: string;
   } | null>(null);
   const mermaidRef = useRef<HTMLDivElement>(null);
@@ -185,7 +259,16 @@ export default function HomePage() {
     }
   };
 
-  const executeGeneration = async (q: string, c: string[]) => {
+  const executeGeneration = async (
+    q: string,
+    c: string[],
+    settings: {
+      bypassCache?: boolean;
+      promptTemplateId?: PromptTemplateId;
+      outputLanguage?: OutputLanguage;
+      generation?: GenerationSettingsOverrides;
+    } = {}
+  ) => {
     if (!q.trim()) return;
     if (c.filter((ch) => ch.trim()).length < 2) {
       alert("選択肢は最低2つ入力してください");
@@ -194,13 +277,55 @@ export default function HomePage() {
 
     setLoading(true);
     setResult(null);
+    setProgress({ stage: null, explanation: "" });
 
     try {
-      const response = await createExamQuestionNote({
-        questionText: q.trim(),
-        choices: c.filter((ch) => ch.trim()),
+      const response = await fetch("/api/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          questionText: q.trim(),
+          choices: c.filter((ch) => ch.trim()),
+          bypassCache: settings.bypassCache ?? false,
+          promptTemplateId: settings.promptTemplateId,
+          outputLanguage: settings.outputLanguage,
+          generation: settings.generation,
+        }),
+      });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error ?? `HTTP ${response.status}`);
+      }
+
+      let finished = false;
+      await readNdjsonStream(response.body, (event: GenerationStreamEvent) => {
+        switch (event.type) {
+          case "stage":
+            setProgress((prev) => ({ ...prev, stage: event.stage }));
+            break;
+          case "partial-explanation":
+            setProgress((prev) => ({
+              ...prev,
+              explanation: event.explanation,
+            }));
+            break;
+          case "result":
+            finished = true;
+            setResult({
+              note: event.note,
+              noteId: event.noteId,
+              repositoryType: event.repositoryType,
+            });
+            break;
+          case "error":
+            finished = true;
+            setResult({ error: event.error });
+            break;
+        }
       });
-      setResult(response);
+      if (!finished) {
+        throw new Error("生成が途中で終了しました");
+      }
     } catch (error) {
       setResult({
         error: error instanceof Error ? error.message : "Unknown error",
@@ -212,7 +337,12 @@ export default function HomePage() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    await executeGeneration(questionText, choices);
+    await executeGeneration(questionText, choices, {
+      bypassCache,
+      promptTemplateId,
+      outputLanguage,
+      generation: toGenerationOverrides(generationForm),
+    });
   };
 
   // 抽出されたデータがsessionStorageにある場合に自動入力・生成
@@ -271,6 +401,18 @@ export default function HomePage() {
             >
               📋 クイズ抽出ツール
             </Link>
+            <Link
+              href="/import"
+              className="inline-block px-6 py-3 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 font-medium transition"
+            >
+              📥 一括インポート
+            </Link>
+            <Link
+              href="/usage"
+              className="inline-block px-6 py-3 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 font-medium transition"
+            >
+              💰 使用量
+            </Link>
           </div>
         </header>
 
@@ -343,6 +485,152 @@ export default function HomePage() {
               </div>
             </div>
 
+            <div>
+              <label
+                htmlFor="persona"
+                className="block text-sm font-medium text-foreground mb-2"
+              >
+                解説のスタイル
+              </label>
+              <select
+                id="persona"
+                value={promptTemplateId}
+                onChange={(e) =>
+                  setPromptTemplateId(e.target.value as PromptTemplateId)
+                }
+                disabled={loading}
+                className="w-full px-4 py-2 bg-background border border-input rounded-lg focus:outline-none focus:ring-2 focus:ring-ring text-foreground"
+              >
+                {PROMPT_TEMPLATE_IDS.map((id) => (
+                  <option key={id} value={id}>
+                    {PROMPT_TEMPLATE_PERSONAS[id].name}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {PROMPT_TEMPLATE_PERSONAS[promptTemplateId].description}
+              </p>
+            </div>
+
+            <div>
+              <label
+                htmlFor="output-language"
+                className="block text-sm font-medium text-foreground mb-2"
+              >
+                解説の言語
+              </label>
+              <select
+                id="output-language"
+                value={outputLanguage}
+                onChange={(e) =>
+                  setOutputLanguage(e.target.value as OutputLanguage)
+                }
+                disabled={loading}
+                className="w-full px-4 py-2 bg-background border border-input rounded-lg focus:outline-none focus:ring-2 focus:ring-ring text-foreground"
+              >
+                {OUTPUT_LANGUAGES.map((language) => (
+                  <option key={language} value={language}>
+                    {OUTPUT_LANGUAGE_LABELS[language]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <details className="text-sm">
+              <summary className="cursor-pointer font-medium text-foreground">
+                詳細設定（モデル・生成パラメータ）
+              </summary>
+              <div className="mt-3 grid gap-3 sm:grid-cols-3">
+                <div>
+                  <label
+                    htmlFor="generation-model"
+                    className="block text-xs text-muted-foreground mb-1"
+                  >
+                    モデル
+                  </label>
+                  <input
+                    id="generation-model"
+                    list="generation-models"
+                    value={generationForm.model}
+                    onChange={(e) =>
+                      setGenerationForm({
+                        ...generationForm,
+                        model: e.target.value,
+                      })
+                    }
+                    placeholder="サーバーの設定"
+                    disabled={loading}
+                    className="w-full px-3 py-2 bg-background border border-input rounded-lg focus:outline-none focus:ring-2 focus:ring-ring text-foreground"
+                  />
+                  <datalist id="generation-models">
+                    {GEMINI_API_MODELS.map((model) => (
+                      <option key={model} value={model} />
+                    ))}
+                  </datalist>
+                </div>
+                <div>
+                  <label
+                    htmlFor="generation-temperature"
+                    className="block text-xs text-muted-foreground mb-1"
+                  >
+                    temperature（0〜2）
+                  </label>
+                  <input
+                    id="generation-temperature"
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={generationForm.temperature}
+                    onChange={(e) =>
+                      setGenerationForm({
+                        ...generationForm,
+                        temperature: e.target.value,
+                      })
+                    }
+                    placeholder="サーバーの設定"
+                    disabled={loading}
+                    className="w-full px-3 py-2 bg-background border border-input rounded-lg focus:outline-none focus:ring-2 focus:ring-ring text-foreground"
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="generation-max-output-tokens"
+                    className="block text-xs text-muted-foreground mb-1"
+                  >
+                    最大出力トークン数
+                  </label>
+                  <input
+                    id="generation-max-output-tokens"
+                    type="number"
+                    min={256}
+                    max={65536}
+                    step={256}
+                    value={generationForm.maxOutputTokens}
+                    onChange={(e) =>
+                      setGenerationForm({
+                        ...generationForm,
+                        maxOutputTokens: e.target.value,
+                      })
+                    }
+                    placeholder="サーバーの設定"
+                    disabled={loading}
+                    className="w-full px-3 py-2 bg-background border border-input rounded-lg focus:outline-none focus:ring-2 focus:ring-ring text-foreground"
+                  />
+                </div>
+              </div>
+            </details>
+
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={bypassCache}
+                onChange={(e) => setBypassCache(e.target.checked)}
+                disabled={loading}
+              />
+              キャッシュを使わずに再生成する
+            </label>
+
             <button
               type="submit"
               disabled={
@@ -358,6 +646,41 @@ export default function HomePage() {
           </div>
         </form>
 
+        {loading && (
+          <div className="mb-8 bg-card rounded-lg border border-border p-6">
+            <ol className="space-y-1 text-sm">
+              {GENERATION_STAGES.map((stage, index) => {
+                const current = progress.stage
+                  ? GENERATION_STAGES.indexOf(progress.stage)
+                  : -1;
+                return (
+                  <li
+                    key={stage}
+                    className={
+                      index <= current
+                        ? "text-foreground"
+                        : "text-muted-foreground"
+                    }
+                  >
+                    {index < current ? "✅" : index === current ? "⏳" : "⬜"}{" "}
+                    {GENERATION_STAGE_LABELS[stage]}
+                  </li>
+                );
+              })}
+            </ol>
+            {progress.explanation && (
+              <div className="mt-4 border-t border-border pt-4">
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                  解説（生成中）
+                </h3>
+                <p className="whitespace-pre-wrap text-foreground">
+                  {progress.explanation}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
         {result && (
           <div className="bg-card rounded-lg border border-border p-6">
             {result.error ? (
@@ -403,6 +726,42 @@ export default function HomePage() {
                     ))}
                   </div>
 
+                  {result.note.answerConfidence && (
+                    <div
+                      className={`mb-4 p-3 rounded-lg text-sm ${
+                        isLowConfidence(result.note.answerConfidence)
+                          ? "bg-destructive/10 border border-destructive/50 text-destructive"
+                          : "bg-muted text-muted-foreground"
+                      }`}
+                    >
+                      {isLowConfidence(result.note.answerConfidence) && (
+                        <p className="font-medium mb-1">
+                          ⚠️
+                          分析結果の正解が割れました。公式ドキュメントなどで正解を確認してください。
+                        </p>
+                      )}
+                      <p>
+                        正解の信頼度:{" "}
+                        {Math.round(result.note.answerConfidence.score * 100)}%
+                        （{formatAnswerVotes(result.note.answerConfidence)}）
+                      </p>
+                    </div>
+                  )}
+
+                  {result.note.analysisWarnings &&
+                    result.note.analysisWarnings.length > 0 && (
+                      <div className="mb-4 p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-sm text-destructive">
+                        <p className="font-medium mb-1">
+                          ⚠️ 分析結果の確認が必要な点
+                        </p>
+                        <ul className="list-disc list-inside space-y-1">
+                          {result.note.analysisWarnings.map((warning) => (
+                            <li key={warning}>{warning}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
                   <div className="flex gap-2 flex-wrap mb-2">
                     {result.note.wellArchitectedCategories.map((category) => (
                       <span
@@ -425,9 +784,29 @@ export default function HomePage() {
                       ))}
                     </div>
                   )}
-                  {result.notionPageId && (
+                  {result.note.generationSettings &&
+                    result.note.generationSettings.length > 0 && (
+                      <ul className="text-xs text-muted-foreground mb-2">
+                        {result.note.generationSettings.map(
+                          (settings, index) => (
+                            <li key={index}>
+                              {formatGenerationSettings(settings)}
+                            </li>
+                          )
+                        )}
+                      </ul>
+                    )}
+                  {result.noteId && (
                     <p className="text-sm text-green-400 mt-2">
-                      ✓ Notionに保存されました
+                      {result.repositoryType === "local"
+                        ? "✓ ローカルの問題バンクに保存されました"
+                        : "✓ Notionに保存されました"}
+                      <Link
+                        href={`/history/${result.noteId}`}
+                        className="ml-3 text-primary hover:underline"
+                      >
+                        改訂履歴を見る
+                      </Link>
                     </p>
                   )}
                 </div>
@@ -435,6 +814,15 @@ export default function HomePage() {
                 <section>
                   <h3 className="font-bold text-lg mb-2 text-foreground">
                     解説
+                    {result.note.promptTemplate && (
+                      <span className="ml-2 px-2 py-0.5 bg-secondary text-secondary-foreground rounded-full text-xs font-normal">
+                        {
+                          PROMPT_TEMPLATE_PERSONAS[result.note.promptTemplate.id]
+                            .name
+                        }{" "}
+                        v{result.note.promptTemplate.version}
+                      </span>
+                    )}
                   </h3>
                   <div className="bg-muted p-4 rounded-lg space-y-4">
                     {(() => {
@@ -546,6 +934,35 @@ export default function HomePage() {
                     </div>
                   </section>
                 )}
+
+                {result.note.translation && (
+                  <section>
+                    <h3 className="font-bold text-lg mb-2 text-foreground">
+                      解説（
+                      {OUTPUT_LANGUAGE_LABELS[result.note.translation.language]}
+                      ）
+                    </h3>
+                    <div className="bg-muted p-4 rounded-lg space-y-4">
+                      <p className="whitespace-pre-wrap text-foreground">
+                        {result.note.translation.explanation}
+                      </p>
+                      {result.note.translation.learningPoints.length > 0 && (
+                        <ul className="list-disc list-inside space-y-1">
+                          {result.note.translation.learningPoints.map(
+                            (point, index) => (
+                              <li key={index} className="text-foreground">
+                                {point}
+                              </li>
+                            )
+                          )}
+                        </ul>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-2">
+                      ※ 各選択肢の解説を含む全文は、問題練習ページで言語を切り替えて表示できます
+                    </p>
+                  </section>
+                )}
               </div>
             ) : null}
           </div>
@@ -4,12 +4,37 @@
 
 "use client";
 
-import { useState, useEffect, useRef } from "react";
-import { getAllQuestions } from "../actions";
+import { useState, useEffect, useRef, useCallback } from "react";
+import {
+  queryQuestions,
+  getQuestionFacets,
+  translateQuestionNote,
+  promoteMentorAnswer,
+} from "../actions";
+import { readNdjsonStream } from "../ndjson";
 import type {
   ExamQuestionNote,
   WellArchitectedPillar,
 } from "@/features/aws-note/entities/types";
+import type { QuestionFacets } from "@/features/aws-note/entities/question-repository";
+import {
+  MAX_MENTOR_QUESTION_LENGTH,
+  type MentorStreamEvent,
+} from "@/features/aws-note/entities/mentor-chat";
+import {
+  formatAnswerVotes,
+  isLowConfidence,
+} from "@/features/aws-note/infrastructure/answer-confidence-format";
+import {
+  EXPLANATION_LANGUAGES,
+  OUTPUT_LANGUAGE_LABELS,
+  type ExplanationLanguage,
+} from "@/features/aws-note/entities/explanation-language";
+import { localizeNote } from "@/features/aws-note/infrastructure/note-localization";
+import {
+  WELL_ARCHITECTED_PILLAR_NAMES,
+  WELL_ARCHITECTED_PILLAR_NAMES_EN,
+} from "@/features/aws-note/entities/well-architected";
 import mermaid from "mermaid";
 import {
   validateAndFixMermaid,
@@ -30,23 +55,101 @@ function isCorrectAnswer(
   return choiceNumber === correctAnswer;
 }
 
+/**
+ * 解説エリアの見出しなどの表示名（解説の言語に合わせる）
+ */
+const EXPLANATION_LABELS: Record<
+  ExplanationLanguage,
+  {
+    explanation: string;
+    diagram: string;
+    choiceExplanations: string;
+    choice: string;
+    correct: string;
+    incorrect: string;
+    learningPoints: string;
+    relatedServices: string;
+    pillarNames: Record<WellArchitectedPillar, string>;
+  }
+> = {
+  ja: {
+    explanation: "解説",
+    diagram: "図解",
+    choiceExplanations: "各選択肢の解説",
+    choice: "選択肢",
+    correct: "✓ 正解",
+    incorrect: "✗ 不正解",
+    learningPoints: "学習ポイント",
+    relatedServices: "関連サービス",
+    pillarNames: WELL_ARCHITECTED_PILLAR_NAMES,
+  },
+  en: {
+    explanation: "Explanation",
+    diagram: "Diagram",
+    choiceExplanations: "Why each choice is right or wrong",
+    choice: "Choice ",
+    correct: "✓ Correct",
+    incorrect: "✗ Incorrect",
+    learningPoints: "Key takeaways",
+    relatedServices: "Related services",
+    pillarNames: WELL_ARCHITECTED_PILLAR_NAMES_EN,
+  },
+};
+
+/**
+ * 1回のリクエストで取得する問題数
+ */
+const PAGE_SIZE = 20;
+
+/**
+ * 残りの読み込み済み問題がこの数を下回ったら次のページを先読みする
+ */
+const PREFETCH_THRESHOLD = 3;
+
+/**
+ * 検索入力のデバウンス時間（ミリ秒）
+ */
+const SEARCH_DEBOUNCE_MS = 400;
+
 export default function PracticePage() {
-  const [allQuestions, setAllQuestions] = useState<ExamQuestionNote[]>([]);
-  const [filteredQuestions, setFilteredQuestions] = useState<
-    ExamQuestionNote[]
-  >([]);
+  const [questions, setQuestions] = useState<ExamQuestionNote[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [facets, setFacets] = useState<QuestionFacets>({
+    services: [],
+    pillars: [],
+  });
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  const [language, setLanguage] = useState<ExplanationLanguage>("ja");
+  const [translating, setTranslating] = useState(false);
+  const [translateError, setTranslateError] = useState<string | null>(null);
   const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
   const [showExplanation, setShowExplanation] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedServices, setSelectedServices] = useState<string[]>([]);
   const [selectedCategories, setSelectedCategories] = useState<
     WellArchitectedPillar[]
   >([]);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchText, setSearchText] = useState("");
   const [showFilters, setShowFilters] = useState(false);
+  const [mentorQuestion, setMentorQuestion] = useState("");
+  const [mentorAsking, setMentorAsking] = useState(false);
+  const [mentorPartialAnswer, setMentorPartialAnswer] = useState("");
+  const [mentorError, setMentorError] = useState<string | null>(null);
+  // 学習ポイントに追加する回答（編集中の文）
+  const [promotionDraft, setPromotionDraft] = useState<{
+    messageId: string;
+    text: string;
+  } | null>(null);
+  const [promoting, setPromoting] = useState(false);
   const mermaidRef = useRef<HTMLDivElement>(null);
   const architectureDiagramRef = useRef<HTMLDivElement>(null);
+  // 古いリクエストの結果で上書きしないためのリクエスト番号
+  const requestIdRef = useRef(0);
 
   // Mermaidの初期化
   useEffect(() => {
@@ -57,96 +160,154 @@ export default function PracticePage() {
     });
   }, []);
 
-  // 問題データの取得
+  // フィルターの選択肢を取得
+  const fetchFacets = useCallback(async () => {
+    const result = await getQuestionFacets();
+    if (result.success && result.facets) {
+      setFacets(result.facets);
+    }
+  }, []);
+
   useEffect(() => {
-    const fetchQuestions = async () => {
-      setLoading(true);
+    fetchFacets();
+  }, [fetchFacets]);
+
+  // 検索入力をデバウンスして検索条件に反映
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setSearchText(searchInput.trim()),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // 条件に一致する最初のページを取得
+  const fetchFirstPage = useCallback(
+    async (forceRefresh = false) => {
+      const requestId = ++requestIdRef.current;
       setError(null);
       try {
-        const result = await getAllQuestions();
+        const result = await queryQuestions({
+          services: selectedServices,
+          pillars: selectedCategories,
+          search: searchText || undefined,
+          pageSize: PAGE_SIZE,
+          forceRefresh,
+        });
+        if (requestId !== requestIdRef.current) return;
+
         if (result.success && result.questions) {
-          setAllQuestions(result.questions);
-          setFilteredQuestions(result.questions);
-          if (result.questions.length > 0) {
-            setCurrentQuestionIndex(0);
-          }
+          setQuestions(result.questions);
+          setNextCursor(result.nextCursor ?? null);
+          setLoadMoreError(null);
+          setCurrentQuestionIndex(0);
+          setSelectedAnswer(null);
+          setShowExplanation(false);
         } else {
           setError(result.error || "問題の取得に失敗しました");
         }
       } catch (err) {
+        if (requestId !== requestIdRef.current) return;
         setError(err instanceof Error ? err.message : "Unknown error");
-      } finally {
-        setLoading(false);
       }
-    };
-
-    fetchQuestions();
-  }, []);
+    },
+    [selectedServices, selectedCategories, searchText]
+  );
 
-  // フィルター適用
+  // 問題データの取得（フィルター変更時は最初のページから取り直す）
   useEffect(() => {
-    if (allQuestions.length === 0) return;
+    fetchFirstPage().finally(() => setLoading(false));
+  }, [fetchFirstPage]);
 
-    let filtered = [...allQuestions];
+  // 次のページを取得して末尾に追加
+  // 失敗しても読み込み済みの問題は表示したまま、再試行できるようにする
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
 
-    // 関連サービスでフィルター
-    if (selectedServices.length > 0) {
-      filtered = filtered.filter((q) =>
-        selectedServices.some((service) => q.relatedServices.includes(service))
-      );
-    }
+    const requestId = requestIdRef.current;
+    setLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      const result = await queryQuestions({
+        services: selectedServices,
+        pillars: selectedCategories,
+        search: searchText || undefined,
+        pageSize: PAGE_SIZE,
+        cursor: nextCursor,
+      });
+      if (requestId !== requestIdRef.current) return;
 
-    // Well-Architected Frameworkでフィルター
-    if (selectedCategories.length > 0) {
-      filtered = filtered.filter((q) =>
-        selectedCategories.some((category) =>
-          q.wellArchitectedCategories.includes(category)
-        )
-      );
+      if (result.success && result.questions) {
+        setQuestions((prev) => [...prev, ...result.questions!]);
+        setNextCursor(result.nextCursor ?? null);
+      } else {
+        setLoadMoreError(result.error || "問題の取得に失敗しました");
+      }
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setLoadMoreError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoadingMore(false);
     }
+  }, [
+    nextCursor,
+    loadingMore,
+    selectedServices,
+    selectedCategories,
+    searchText,
+  ]);
 
-    setFilteredQuestions(filtered);
-  }, [selectedServices, selectedCategories, allQuestions]);
-
-  // フィルター変更時に現在の問題インデックスを調整
+  // 読み込み済みの問題が残り少なくなったら先読み（失敗した後は再試行の操作を待つ）
   useEffect(() => {
-    if (filteredQuestions.length === 0) {
-      setCurrentQuestionIndex(0);
-      setSelectedAnswer(null);
-      setShowExplanation(false);
-      return;
+    if (
+      !loadMoreError &&
+      questions.length - currentQuestionIndex <= PREFETCH_THRESHOLD
+    ) {
+      loadMore();
     }
+  }, [currentQuestionIndex, questions.length, loadMore, loadMoreError]);
 
-    // 現在表示中の問題がフィルター結果に含まれているか確認
-    const currentQuestion = filteredQuestions[currentQuestionIndex];
-    if (!currentQuestion && filteredQuestions.length > 0) {
-      // 現在の問題がフィルター結果にない場合、最初の問題にリセット
-      setCurrentQuestionIndex(0);
-      setSelectedAnswer(null);
-      setShowExplanation(false);
-    } else if (currentQuestionIndex >= filteredQuestions.length) {
-      // インデックスが範囲外の場合、最後の問題に調整
-      setCurrentQuestionIndex(filteredQuestions.length - 1);
-      setSelectedAnswer(null);
-      setShowExplanation(false);
+  // サーバー側キャッシュを使わずに最新の問題を再取得
+  const handleForceRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await Promise.all([fetchFirstPage(true), fetchFacets()]);
+    } finally {
+      setRefreshing(false);
     }
-  }, [filteredQuestions, currentQuestionIndex]);
+  };
 
-  // ユニークなサービスとカテゴリを抽出
-  const allServices = Array.from(
-    new Set(allQuestions.flatMap((q) => q.relatedServices))
-  ).sort();
+  const hasActiveFilters =
+    selectedServices.length > 0 ||
+    selectedCategories.length > 0 ||
+    searchText.length > 0;
 
-  const allCategories = Array.from(
-    new Set(allQuestions.flatMap((q) => q.wellArchitectedCategories))
-  ).sort();
+  // 現在のフィルター条件に一致する問題を Markdown としてエクスポート
+  const markdownExportParams = new URLSearchParams([
+    ...selectedServices.map((service) => ["service", service]),
+    ...selectedCategories.map((pillar) => ["pillar", pillar]),
+    ...(searchText ? [["search", searchText]] : []),
+  ]);
+  const markdownExportHref = `/api/export/markdown${
+    hasActiveFilters ? `?${markdownExportParams}` : ""
+  }`;
 
   const currentQuestion =
-    filteredQuestions.length > 0 &&
-    currentQuestionIndex < filteredQuestions.length
-      ? filteredQuestions[currentQuestionIndex]
+    currentQuestionIndex < questions.length
+      ? questions[currentQuestionIndex]
       : null;
-  const questions = filteredQuestions;
+  // 選択中の言語の解説に差し替えた問題（その言語の解説がない場合は null）
+  const localizedQuestion = currentQuestion
+    ? localizeNote(currentQuestion, language)
+    : null;
+
+  // 問題を切り替えたらメンターへの質問の入力をリセット
+  useEffect(() => {
+    setMentorQuestion("");
+    setMentorPartialAnswer("");
+    setMentorError(null);
+    setPromotionDraft(null);
+  }, [currentQuestion?.id]);
 
   // ExplanationからMermaidコードを抽出
   const extractMermaidFromExplanation = (explanation: string) => {
@@ -165,9 +326,13 @@ export default function PracticePage() {
 
   // Mermaid図をレンダリング（Explanation内）
   useEffect(() => {
-    if (currentQuestion?.explanation && mermaidRef.current && showExplanation) {
+    if (
+      localizedQuestion?.explanation &&
+      mermaidRef.current &&
+      showExplanation
+    ) {
       const mermaidData = extractMermaidFromExplanation(
-        currentQuestion.explanation
+        localizedQuestion.explanation
       );
       if (mermaidData && mermaidData.mermaidCode) {
         mermaidRef.current.innerHTML = "";
@@ -203,7 +368,7 @@ export default function PracticePage() {
         mermaidRef.current.innerHTML = "";
       }
     }
-  }, [currentQuestion?.explanation, showExplanation]);
+  }, [localizedQuestion?.explanation, showExplanation]);
 
   // Architecture Diagramをレンダリング
   useEffect(() => {
@@ -257,6 +422,99 @@ export default function PracticePage() {
     setShowExplanation(true);
   };
 
+  // 読み込み済みの問題を保存後のノートで置き換える
+  const replaceQuestion = (note: ExamQuestionNote) => {
+    setQuestions((prev) => prev.map((q) => (q.id === note.id ? note : q)));
+  };
+
+  // 選択中の言語の解説を翻訳で追加し、読み込み済みの問題を置き換える
+  const handleTranslate = async () => {
+    if (!currentQuestion?.id) return;
+    setTranslating(true);
+    setTranslateError(null);
+    try {
+      const result = await translateQuestionNote(currentQuestion.id, language);
+      if (result.success && result.note) {
+        replaceQuestion(result.note);
+      } else {
+        setTranslateError(result.error ?? "翻訳に失敗しました");
+      }
+    } finally {
+      setTranslating(false);
+    }
+  };
+
+  // メンターに質問し、回答をストリーミングで表示する
+  const handleAskMentor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentQuestion?.id || !mentorQuestion.trim()) return;
+    setMentorAsking(true);
+    setMentorPartialAnswer("");
+    setMentorError(null);
+    try {
+      const response = await fetch("/api/mentor", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          noteId: currentQuestion.id,
+          question: mentorQuestion.trim(),
+        }),
+      });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error ?? `HTTP ${response.status}`);
+      }
+
+      let finished = false;
+      await readNdjsonStream(response.body, (event: MentorStreamEvent) => {
+        switch (event.type) {
+          case "partial-answer":
+            setMentorPartialAnswer(event.answer);
+            break;
+          case "result":
+            finished = true;
+            replaceQuestion(event.note);
+            setMentorQuestion("");
+            break;
+          case "error":
+            finished = true;
+            setMentorError(event.error);
+            break;
+        }
+      });
+      if (!finished) {
+        throw new Error("回答が途中で終了しました");
+      }
+    } catch (error) {
+      setMentorError(error instanceof Error ? error.message : "Unknown error");
+    } finally {
+      setMentorAsking(false);
+      setMentorPartialAnswer("");
+    }
+  };
+
+  // 編集した回答を学習ポイントに追加する
+  const handlePromoteMentorAnswer = async () => {
+    if (!currentQuestion?.id || !promotionDraft?.text.trim()) return;
+    setPromoting(true);
+    setMentorError(null);
+    try {
+      const result = await promoteMentorAnswer(
+        currentQuestion.id,
+        promotionDraft.messageId,
+        promotionDraft.text
+      );
+      if (result.success && result.note) {
+        replaceQuestion(result.note);
+        setPromotionDraft(null);
+      } else {
+        setMentorError(result.error ?? "学習ポイントへの追加に失敗しました");
+      }
+    } finally {
+      setPromoting(false);
+    }
+  };
+
   const handleNextQuestion = () => {
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex(currentQuestionIndex + 1);
@@ -273,9 +531,10 @@ export default function PracticePage() {
     }
   };
 
+  // 読み込み済みの問題からランダムに選択
   const handleRandomQuestion = () => {
-    if (filteredQuestions.length > 0) {
-      const randomIndex = Math.floor(Math.random() * filteredQuestions.length);
+    if (questions.length > 0) {
+      const randomIndex = Math.floor(Math.random() * questions.length);
       setCurrentQuestionIndex(randomIndex);
       setSelectedAnswer(null);
       setShowExplanation(false);
@@ -301,6 +560,8 @@ export default function PracticePage() {
   const handleClearFilters = () => {
     setSelectedServices([]);
     setSelectedCategories([]);
+    setSearchInput("");
+    setSearchText("");
   };
 
   if (loading) {
@@ -333,7 +594,7 @@ export default function PracticePage() {
     );
   }
 
-  if (allQuestions.length === 0) {
+  if (questions.length === 0 && !hasActiveFilters) {
     return (
       <div className="min-h-screen bg-background p-8">
         <div className="max-w-4xl mx-auto">
@@ -350,7 +611,7 @@ export default function PracticePage() {
     );
   }
 
-  if (filteredQuestions.length === 0) {
+  if (questions.length === 0) {
     return (
       <div className="min-h-screen bg-background p-8">
         <div className="max-w-4xl mx-auto">
@@ -376,13 +637,27 @@ export default function PracticePage() {
     );
   }
 
+  // 次のページの取得に失敗した場合の表示
+  const loadMoreErrorNotice = loadMoreError && (
+    <span className="text-destructive ml-2">
+      続きの問題を取得できませんでした: {loadMoreError}
+      <button
+        onClick={loadMore}
+        disabled={loadingMore}
+        className="ml-2 text-primary hover:underline disabled:opacity-50"
+      >
+        再試行
+      </button>
+    </span>
+  );
+
   if (!currentQuestion) {
     return (
       <div className="min-h-screen bg-background p-8">
         <div className="max-w-4xl mx-auto">
           <div className="bg-card rounded-lg border border-border p-8 text-center">
             <div className="text-muted-foreground mb-4">
-              問題を読み込み中...
+              {loadMoreErrorNotice || "問題を読み込み中..."}
             </div>
           </div>
         </div>
@@ -393,9 +668,10 @@ export default function PracticePage() {
   const isCorrect =
     selectedAnswer !== null &&
     isCorrectAnswer(selectedAnswer, currentQuestion.correctAnswer);
-  const mermaidData = currentQuestion.explanation
-    ? extractMermaidFromExplanation(currentQuestion.explanation)
+  const mermaidData = localizedQuestion?.explanation
+    ? extractMermaidFromExplanation(localizedQuestion.explanation)
     : null;
+  const labels = EXPLANATION_LABELS[language];
 
   return (
     <div className="min-h-screen bg-background p-8">
@@ -407,20 +683,48 @@ export default function PracticePage() {
                 AWS SAA 問題練習
               </h1>
               <p className="text-muted-foreground">
-                問題 {currentQuestionIndex + 1} / {filteredQuestions.length}
-                {filteredQuestions.length !== allQuestions.length && (
+                問題 {currentQuestionIndex + 1} / {questions.length}
+                {nextCursor && "+"}
+                {loadingMore && (
                   <span className="text-muted-foreground/60 ml-2">
-                    (全 {allQuestions.length} 問中)
+                    (読み込み中...)
                   </span>
                 )}
+                {loadMoreErrorNotice}
               </p>
             </div>
-            <Link
-              href="/"
-              className="px-4 py-2 text-primary hover:bg-accent rounded-lg transition"
-            >
-              ← ホーム
-            </Link>
+            <div className="flex gap-2">
+              <button
+                onClick={handleForceRefresh}
+                disabled={refreshing}
+                className="px-4 py-2 text-primary hover:bg-accent rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {refreshing ? "更新中..." : "🔄 最新に更新"}
+              </button>
+              <a
+                href="/api/export/anki"
+                className="px-4 py-2 text-primary hover:bg-accent rounded-lg transition"
+              >
+                📥 Anki
+              </a>
+              <a
+                href={markdownExportHref}
+                title={
+                  hasActiveFilters
+                    ? "フィルターに一致する問題をエクスポート"
+                    : "すべての問題をエクスポート"
+                }
+                className="px-4 py-2 text-primary hover:bg-accent rounded-lg transition"
+              >
+                📥 Markdown
+              </a>
+              <Link
+                href="/"
+                className="px-4 py-2 text-primary hover:bg-accent rounded-lg transition"
+              >
+                ← ホーム
+              </Link>
+            </div>
           </div>
 
           {/* フィルターセクション */}
@@ -431,15 +735,15 @@ export default function PracticePage() {
                 className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground hover:bg-primary/90 rounded-lg transition"
               >
                 <span>🔍 フィルター</span>
-                {(selectedServices.length > 0 ||
-                  selectedCategories.length > 0) && (
+                {hasActiveFilters && (
                   <span className="px-2 py-0.5 bg-primary text-primary-foreground text-xs rounded-full">
-                    {selectedServices.length + selectedCategories.length}
+                    {selectedServices.length +
+                      selectedCategories.length +
+                      (searchText ? 1 : 0)}
                   </span>
                 )}
               </button>
-              {(selectedServices.length > 0 ||
-                selectedCategories.length > 0) && (
+              {hasActiveFilters && (
                 <button
                   onClick={handleClearFilters}
                   className="px-3 py-1 text-sm text-destructive hover:bg-destructive/10 rounded transition"
@@ -451,13 +755,27 @@ export default function PracticePage() {
 
             {showFilters && (
               <div className="space-y-4 pt-4 border-t border-border">
+                {/* テキスト検索 */}
+                <div>
+                  <h3 className="text-sm font-semibold text-foreground mb-2">
+                    キーワード検索
+                  </h3>
+                  <input
+                    type="text"
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    placeholder="問題文・選択肢・解説から検索"
+                    className="w-full px-4 py-2 bg-background border border-input rounded-lg focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent text-foreground placeholder:text-muted-foreground"
+                  />
+                </div>
+
                 {/* 関連サービスフィルター */}
                 <div>
                   <h3 className="text-sm font-semibold text-foreground mb-2">
-                    関連サービス
+                    {labels.relatedServices}
                   </h3>
                   <div className="flex flex-wrap gap-2">
-                    {allServices.map((service) => (
+                    {facets.services.map((service) => (
                       <button
                         key={service}
                         onClick={() => handleServiceToggle(service)}
@@ -479,7 +797,7 @@ export default function PracticePage() {
                     Well-Architected Framework
                   </h3>
                   <div className="flex flex-wrap gap-2">
-                    {allCategories.map((category) => (
+                    {facets.pillars.map((category) => (
                       <button
                         key={category}
                         onClick={() => handleCategoryToggle(category)}
@@ -501,9 +819,27 @@ export default function PracticePage() {
 
         <div className="bg-card rounded-lg border border-border p-6 mb-6">
           <div className="mb-6">
-            <h2 className="text-xl font-bold text-foreground mb-4">
-              {currentQuestion.questionText}
-            </h2>
+            <div className="flex justify-between items-start gap-4 mb-4">
+              <h2 className="text-xl font-bold text-foreground">
+                {currentQuestion.questionText}
+              </h2>
+              {currentQuestion.id && (
+                <Link
+                  href={`/history/${currentQuestion.id}`}
+                  className="flex-shrink-0 px-3 py-1 text-sm text-primary hover:bg-accent rounded-lg transition"
+                >
+                  🕘 改訂履歴
+                </Link>
+              )}
+            </div>
+
+            {isLowConfidence(currentQuestion.answerConfidence) && (
+              <div className="mb-4 p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-sm text-destructive">
+                ⚠️ この問題は AI の分析結果で正解が割れています（信頼度{" "}
+                {Math.round(currentQuestion.answerConfidence!.score * 100)}
+                %）。正解を鵜呑みにせず確認してください。
+              </div>
+            )}
 
             <div className="space-y-3">
               {currentQuestion.choices.map((choice, index) => {
@@ -572,87 +908,152 @@ export default function PracticePage() {
 
           {showExplanation && (
             <div className="mt-6 space-y-6 border-t border-border pt-6">
-              <div>
-                <h3 className="font-bold text-lg mb-3 text-foreground">解説</h3>
-                <div className="bg-muted p-4 rounded-lg space-y-4">
-                  {mermaidData && mermaidData.mermaidCode ? (
-                    <>
-                      {mermaidData.textBefore && (
-                        <p className="whitespace-pre-wrap text-foreground">
-                          {mermaidData.textBefore}
-                        </p>
-                      )}
-                      <div className="my-4">
-                        <h4 className="text-sm font-semibold text-muted-foreground mb-2">
-                          図解
-                        </h4>
-                        <div
-                          ref={mermaidRef}
-                          className="flex justify-center items-center bg-card p-4 rounded border border-border overflow-x-auto"
-                        />
-                      </div>
-                      {mermaidData.textAfter && (
+              {currentQuestion.answerConfidence && (
+                <p className="text-sm text-muted-foreground">
+                  正解の多数決:{" "}
+                  {formatAnswerVotes(currentQuestion.answerConfidence)}（
+                  {currentQuestion.answerConfidence.runs}回中）
+                </p>
+              )}
+              {currentQuestion.analysisWarnings &&
+                currentQuestion.analysisWarnings.length > 0 && (
+                  <ul className="p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-sm text-destructive list-disc list-inside space-y-1">
+                    {currentQuestion.analysisWarnings.map((warning) => (
+                      <li key={warning}>⚠️ {warning}</li>
+                    ))}
+                  </ul>
+                )}
+              <div className="flex gap-2">
+                {EXPLANATION_LANGUAGES.map((lang) => (
+                  <button
+                    key={lang}
+                    onClick={() => {
+                      setLanguage(lang);
+                      setTranslateError(null);
+                    }}
+                    className={`px-3 py-1 rounded-lg text-sm transition ${
+                      language === lang
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                    }`}
+                  >
+                    {OUTPUT_LANGUAGE_LABELS[lang]}
+                  </button>
+                ))}
+              </div>
+              {localizedQuestion ? (
+                <>
+                  <div>
+                    <h3 className="font-bold text-lg mb-3 text-foreground">
+                      {labels.explanation}
+                    </h3>
+                    <div className="bg-muted p-4 rounded-lg space-y-4">
+                      {mermaidData && mermaidData.mermaidCode ? (
+                        <>
+                          {mermaidData.textBefore && (
+                            <p className="whitespace-pre-wrap text-foreground">
+                              {mermaidData.textBefore}
+                            </p>
+                          )}
+                          <div className="my-4">
+                            <h4 className="text-sm font-semibold text-muted-foreground mb-2">
+                              {labels.diagram}
+                            </h4>
+                            <div
+                              ref={mermaidRef}
+                              className="flex justify-center items-center bg-card p-4 rounded border border-border overflow-x-auto"
+                            />
+                          </div>
+                          {mermaidData.textAfter && (
+                            <p className="whitespace-pre-wrap text-foreground">
+                              {mermaidData.textAfter}
+                            </p>
+                          )}
+                        </>
+                      ) : (
                         <p className="whitespace-pre-wrap text-foreground">
-                          {mermaidData.textAfter}
+                          {localizedQuestion.explanation}
                         </p>
                       )}
-                    </>
-                  ) : (
-                    <p className="whitespace-pre-wrap text-foreground">
-                      {currentQuestion.explanation}
-                    </p>
-                  )}
-                </div>
-              </div>
+                    </div>
+                  </div>
 
-              {currentQuestion.choiceExplanations.length > 0 && (
-                <div>
-                  <h3 className="font-bold text-lg mb-3 text-foreground">
-                    各選択肢の解説
-                  </h3>
-                  <div className="space-y-3">
-                    {currentQuestion.choiceExplanations.map((ce) => (
-                      <div
-                        key={ce.choiceNumber}
-                        className={`p-4 rounded-lg border-2 ${
-                          ce.isCorrect
-                            ? "border-green-500/50 bg-green-500/10"
-                            : "border-destructive/50 bg-destructive/10"
-                        }`}
-                      >
-                        <div className="font-semibold mb-2 text-foreground">
-                          選択肢{ce.choiceNumber}: {ce.choiceText}
-                          <span
-                            className={`ml-2 ${
+                  {localizedQuestion.choiceExplanations.length > 0 && (
+                    <div>
+                      <h3 className="font-bold text-lg mb-3 text-foreground">
+                        {labels.choiceExplanations}
+                      </h3>
+                      <div className="space-y-3">
+                        {localizedQuestion.choiceExplanations.map((ce) => (
+                          <div
+                            key={ce.choiceNumber}
+                            className={`p-4 rounded-lg border-2 ${
                               ce.isCorrect
-                                ? "text-green-400"
-                                : "text-destructive"
+                                ? "border-green-500/50 bg-green-500/10"
+                                : "border-destructive/50 bg-destructive/10"
                             }`}
                           >
-                            {ce.isCorrect ? "✓ 正解" : "✗ 不正解"}
-                          </span>
-                        </div>
-                        <p className="text-muted-foreground">
-                          {ce.explanation}
-                        </p>
+                            <div className="font-semibold mb-2 text-foreground">
+                              {labels.choice}
+                              {ce.choiceNumber}: {ce.choiceText}
+                              <span
+                                className={`ml-2 ${
+                                  ce.isCorrect
+                                    ? "text-green-400"
+                                    : "text-destructive"
+                                }`}
+                              >
+                                {ce.isCorrect
+                                  ? labels.correct
+                                  : labels.incorrect}
+                              </span>
+                            </div>
+                            <p className="text-muted-foreground">
+                              {ce.explanation}
+                            </p>
+                          </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
-                </div>
-              )}
+                    </div>
+                  )}
 
-              {currentQuestion.learningPoints.length > 0 && (
-                <div>
-                  <h3 className="font-bold text-lg mb-3 text-foreground">
-                    学習ポイント
-                  </h3>
-                  <ul className="list-disc list-inside space-y-1 bg-muted p-4 rounded-lg">
-                    {currentQuestion.learningPoints.map((point, index) => (
-                      <li key={index} className="text-foreground">
-                        {point}
-                      </li>
-                    ))}
-                  </ul>
+                  {localizedQuestion.learningPoints.length > 0 && (
+                    <div>
+                      <h3 className="font-bold text-lg mb-3 text-foreground">
+                        {labels.learningPoints}
+                      </h3>
+                      <ul className="list-disc list-inside space-y-1 bg-muted p-4 rounded-lg">
+                        {localizedQuestion.learningPoints.map(
+                          (point, index) => (
+                            <li key={index} className="text-foreground">
+                              {point}
+                            </li>
+                          )
+                        )}
+                      </ul>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className="p-4 bg-muted rounded-lg text-sm text-foreground space-y-3">
+                  <p>
+                    この問題には{OUTPUT_LANGUAGE_LABELS[language]}
+                    の解説がありません。
+                  </p>
+                  {currentQuestion.id && (
+                    <button
+                      onClick={handleTranslate}
+                      disabled={translating}
+                      className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {translating
+                        ? "翻訳中..."
+                        : `${OUTPUT_LANGUAGE_LABELS[language]} の解説を生成`}
+                    </button>
+                  )}
+                  {translateError && (
+                    <p className="text-destructive">{translateError}</p>
+                  )}
                 </div>
               )}
 
@@ -700,13 +1101,122 @@ export default function PracticePage() {
                           key={category}
                           className="px-3 py-1 bg-accent text-accent-foreground rounded-full text-sm"
                         >
-                          {category}
+                          {labels.pillarNames[category]}
                         </span>
                       )
                     )}
                   </div>
                 </div>
               )}
+
+              {currentQuestion.id && (
+                <div>
+                  <h3 className="font-bold text-lg mb-3 text-foreground">
+                    メンターに質問
+                  </h3>
+                  <div className="space-y-3">
+                    {(currentQuestion.mentorThread ?? []).map((message) => (
+                      <div
+                        key={message.id}
+                        className={`p-3 rounded-lg text-sm ${
+                          message.role === "user"
+                            ? "bg-primary/10 border border-primary/30 ml-8"
+                            : "bg-muted mr-8"
+                        }`}
+                      >
+                        <div className="text-xs text-muted-foreground mb-1">
+                          {message.role === "user" ? "あなた" : "メンター"}
+                          {message.model && `（${message.model}）`}
+                        </div>
+                        <p className="text-foreground whitespace-pre-wrap">
+                          {message.content}
+                        </p>
+                        {message.role === "mentor" &&
+                          (promotionDraft?.messageId === message.id ? (
+                            <div className="mt-3 space-y-2">
+                              <textarea
+                                value={promotionDraft.text}
+                                onChange={(e) =>
+                                  setPromotionDraft({
+                                    messageId: message.id,
+                                    text: e.target.value,
+                                  })
+                                }
+                                rows={3}
+                                className="w-full px-3 py-2 bg-background border border-input rounded-lg focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent resize-y text-foreground"
+                                disabled={promoting}
+                              />
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={handlePromoteMentorAnswer}
+                                  disabled={
+                                    promoting || !promotionDraft.text.trim()
+                                  }
+                                  className="px-3 py-1 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                  {promoting ? "追加中..." : "追加する"}
+                                </button>
+                                <button
+                                  onClick={() => setPromotionDraft(null)}
+                                  disabled={promoting}
+                                  className="px-3 py-1 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                  キャンセル
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() =>
+                                setPromotionDraft({
+                                  messageId: message.id,
+                                  text: message.content,
+                                })
+                              }
+                              disabled={message.promotedToLearningPoints}
+                              className="mt-2 text-xs text-primary hover:underline disabled:text-muted-foreground disabled:no-underline disabled:cursor-not-allowed"
+                            >
+                              {message.promotedToLearningPoints
+                                ? "✓ 学習ポイントに追加済み"
+                                : "学習ポイントに追加"}
+                            </button>
+                          ))}
+                      </div>
+                    ))}
+                    {mentorAsking && (
+                      <div className="p-3 rounded-lg text-sm bg-muted mr-8">
+                        <div className="text-xs text-muted-foreground mb-1">
+                          メンター
+                        </div>
+                        <p className="text-foreground whitespace-pre-wrap">
+                          {mentorPartialAnswer || "回答を生成中..."}
+                        </p>
+                      </div>
+                    )}
+                    <form onSubmit={handleAskMentor} className="space-y-2">
+                      <textarea
+                        value={mentorQuestion}
+                        onChange={(e) => setMentorQuestion(e.target.value)}
+                        placeholder="解説でわからなかった点を質問してください（例: なぜ SQS ではなく Kinesis なのですか？）"
+                        rows={3}
+                        maxLength={MAX_MENTOR_QUESTION_LENGTH}
+                        className="w-full px-4 py-3 bg-background border border-input rounded-lg focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent resize-y text-foreground placeholder:text-muted-foreground"
+                        disabled={mentorAsking}
+                      />
+                      <button
+                        type="submit"
+                        disabled={mentorAsking || !mentorQuestion.trim()}
+                        className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {mentorAsking ? "回答を生成中..." : "質問する"}
+                      </button>
+                    </form>
+                    {mentorError && (
+                      <p className="text-sm text-destructive">{mentorError}</p>
+                    )}
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,235 @@
+/**
+ * Usage Page - トークン使用量と推定コストを確認するページ
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { getUsageSummary } from "../actions";
+import type { UsageSummary } from "@/features/aws-note/usecases/get-usage-summary";
+
+/**
+ * 推定コストの表示（USD）
+ */
+function formatUsd(value: number): string {
+  return `$${value.toFixed(4)}`;
+}
+
+/**
+ * トークン数の表示
+ */
+function formatTokens(value: number): string {
+  return value.toLocaleString("ja-JP");
+}
+
+/**
+ * 予算に対する推定コストの表示
+ */
+function BudgetRow({
+  label,
+  cost,
+  limit,
+  exceeded,
+}: {
+  label: string;
+  cost: number;
+  limit?: number;
+  exceeded: boolean;
+}) {
+  return (
+    <div className="p-4 bg-muted rounded-lg">
+      <p className="text-sm text-muted-foreground mb-1">{label}</p>
+      <p
+        className={`text-2xl font-semibold ${exceeded ? "text-destructive" : "text-foreground"}`}
+      >
+        {formatUsd(cost)}
+        <span className="ml-2 text-sm font-normal text-muted-foreground">
+          / {limit === undefined ? "上限なし" : formatUsd(limit)}
+        </span>
+      </p>
+    </div>
+  );
+}
+
+export default function UsagePage() {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await getUsageSummary();
+        if (response.success && response.summary) {
+          setSummary(response.summary);
+        } else {
+          setError(response.error || "使用量の取得に失敗しました");
+        }
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "使用量の取得に失敗しました"
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="max-w-4xl mx-auto">
+        <header className="mb-8">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">
+                使用量とコスト
+              </h1>
+              <p className="text-muted-foreground">
+                LLM の呼び出しで使用したトークン数と推定コスト（日付は UTC）
+              </p>
+            </div>
+            <Link
+              href="/"
+              className="px-4 py-2 text-primary hover:bg-accent rounded-lg transition"
+            >
+              ← ホーム
+            </Link>
+          </div>
+        </header>
+
+        {loading && <p className="text-muted-foreground">読み込み中...</p>}
+
+        {error && (
+          <div className="p-3 bg-destructive/10 border border-destructive/50 rounded-lg">
+            <p className="text-destructive text-sm">{error}</p>
+          </div>
+        )}
+
+        {summary && (
+          <div className="space-y-6">
+            <div className="bg-card rounded-lg border border-border p-6">
+              <h2 className="text-xl font-semibold text-foreground mb-4">
+                予算
+              </h2>
+              {summary.budgetStatus.exceeded.length > 0 && (
+                <div className="mb-4 p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-sm text-destructive">
+                  ⚠️ 予算の上限に達しています。
+                  {summary.budget.mode === "block"
+                    ? "解説の生成・翻訳は停止されます。"
+                    : "解説の生成・翻訳は警告を記録して続行されます。"}
+                </div>
+              )}
+              <div className="grid gap-4 sm:grid-cols-2">
+                <BudgetRow
+                  label="今日"
+                  cost={summary.budgetStatus.dailyCostUsd}
+                  limit={summary.budget.dailyLimitUsd}
+                  exceeded={summary.budgetStatus.exceeded.includes("daily")}
+                />
+                <BudgetRow
+                  label="今月"
+                  cost={summary.budgetStatus.monthlyCostUsd}
+                  limit={summary.budget.monthlyLimitUsd}
+                  exceeded={summary.budgetStatus.exceeded.includes("monthly")}
+                />
+              </div>
+            </div>
+
+            <div className="bg-card rounded-lg border border-border p-6">
+              <h2 className="text-xl font-semibold text-foreground mb-4">
+                モデル別の合計
+              </h2>
+              {summary.byModel.length === 0 ? (
+                <p className="text-muted-foreground text-sm">
+                  まだ使用量が記録されていません
+                </p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b border-border">
+                      <th className="py-2">モデル</th>
+                      <th className="py-2 text-right">呼び出し</th>
+                      <th className="py-2 text-right">入力トークン</th>
+                      <th className="py-2 text-right">出力トークン</th>
+                      <th className="py-2 text-right">推定コスト</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[
+                      ...summary.byModel,
+                      { model: "合計", ...summary.total },
+                    ].map((entry) => (
+                      <tr
+                        key={entry.model}
+                        className="border-b border-border last:border-0 last:font-semibold text-foreground"
+                      >
+                        <td className="py-2">
+                          {entry.model}
+                          {summary.unpricedModels.includes(entry.model) && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              （料金未設定）
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 text-right">{entry.requests}</td>
+                        <td className="py-2 text-right">
+                          {formatTokens(entry.inputTokens)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {formatTokens(entry.outputTokens)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {formatUsd(entry.estimatedCostUsd)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {summary.daily.length > 0 && (
+              <div className="bg-card rounded-lg border border-border p-6">
+                <h2 className="text-xl font-semibold text-foreground mb-4">
+                  日別
+                </h2>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b border-border">
+                      <th className="py-2">日付</th>
+                      <th className="py-2">モデル</th>
+                      <th className="py-2 text-right">呼び出し</th>
+                      <th className="py-2 text-right">トークン（入力 / 出力）</th>
+                      <th className="py-2 text-right">推定コスト</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.daily.map((entry) => (
+                      <tr
+                        key={`${entry.date}:${entry.model}`}
+                        className="border-b border-border last:border-0 text-foreground"
+                      >
+                        <td className="py-2">{entry.date}</td>
+                        <td className="py-2">{entry.model}</td>
+                        <td className="py-2 text-right">{entry.requests}</td>
+                        <td className="py-2 text-right">
+                          {formatTokens(entry.inputTokens)} /{" "}
+                          {formatTokens(entry.outputTokens)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {formatUsd(entry.estimatedCostUsd)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
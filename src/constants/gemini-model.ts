@@ -1,8 +1,16 @@
-type GeminiApiModel =
-  | "gemini-3-pro-preview"
-  | "gemini-3-flash-preview"
-  | "gemini-2.5-flash"
-  | "gemini-2.5-flash-lite"
-  | "gemini-2.5-pro";
+/**
+ * 既知の Gemini モデル（画面の候補として表示する）
+ * 一覧にないモデルも GEMINI_MODEL やリクエストで指定できる
+ */
+export const GEMINI_API_MODELS = [
+  "gemini-3-pro-preview",
+  "gemini-3-flash-preview",
+  "gemini-2.5-flash",
+  "gemini-2.5-flash-lite",
+  "gemini-2.5-pro",
+] as const;
 
-export const GEMINI_API_MODEL: GeminiApiModel = "gemini-2.5-pro";
+/**
+ * GEMINI_MODEL を指定しない場合のモデル
+ */
+export const DEFAULT_GEMINI_API_MODEL = "gemini-2.5-pro";
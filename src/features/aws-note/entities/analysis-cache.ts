@@ -0,0 +1,40 @@
+/**
+ * 問題分析結果のキャッシュのインターフェース
+ * 同じ問題を再送信した際に LLM の呼び出しを省略するための抽象
+ */
+
+import type { ExamQuestionInput, QuestionAnalysis } from "./types";
+import type { ExplanationLanguage } from "./explanation-language";
+import type { GenerationSettings } from "./generation-settings";
+
+/**
+ * キャッシュのキー
+ * 分析結果はモデルとプロンプトに依存するため、問題の内容と合わせて識別する
+ */
+export interface AnalysisCacheKey {
+  input: ExamQuestionInput;
+  model: string;
+  /** プロンプトテンプレート（"テンプレートID@バージョン"） */
+  promptVersion: string;
+  /** 解説を記述した言語 */
+  language: ExplanationLanguage;
+  /** 生成設定（temperature などが異なる場合は別の結果として扱う） */
+  generationSettings: GenerationSettings[];
+}
+
+/**
+ * 問題分析結果のキャッシュ
+ */
+export interface AnalysisCache {
+  /**
+   * キャッシュ済みの分析結果を取得
+   *
+   * @returns 分析結果（未キャッシュ・有効期限切れの場合は null）
+   */
+  get(key: AnalysisCacheKey): Promise<QuestionAnalysis | null>;
+
+  /**
+   * 分析結果をキャッシュに保存
+   */
+  set(key: AnalysisCacheKey, analysis: QuestionAnalysis): Promise<void>;
+}
@@ -0,0 +1,31 @@
+/**
+ * 正解の信頼度
+ * 同じ問題を複数回分析して正解を多数決し、分析結果の一致度から誤った正解の可能性を判断する
+ */
+
+/**
+ * 正解ごとの得票
+ */
+export interface AnswerVote {
+  /** 正解の選択肢番号（1-indexed）。単一の場合は数値、複数の場合は配列 */
+  answer: number | number[];
+  /** 得票数 */
+  count: number;
+}
+
+/**
+ * 多数決の結果
+ */
+export interface AnswerConfidence {
+  /** 採用した正解の得票率（0〜1） */
+  score: number;
+  /** 得票の内訳（得票数の多い順） */
+  votes: AnswerVote[];
+  /** 分析の実行回数（失敗した分析は得票なしとして数える） */
+  runs: number;
+}
+
+/**
+ * これ未満の得票率の場合は信頼度が低いとみなす
+ */
+export const LOW_CONFIDENCE_THRESHOLD = 0.75;
@@ -0,0 +1,50 @@
+/**
+ * 解説の出力言語
+ * 英語で受験する学習者向けに、日本語・英語・両方（対訳）で解説を生成・表示する
+ */
+
+/**
+ * 解説を記述する言語
+ */
+export const EXPLANATION_LANGUAGES = ["ja", "en"] as const;
+
+export type ExplanationLanguage = (typeof EXPLANATION_LANGUAGES)[number];
+
+/**
+ * 生成時に選択できる出力言語
+ * - ja: 日本語のみ
+ * - en: 英語のみ
+ * - bilingual: 日本語と英語の両方
+ */
+export const OUTPUT_LANGUAGES = [
+  ...EXPLANATION_LANGUAGES,
+  "bilingual",
+] as const;
+
+export type OutputLanguage = (typeof OUTPUT_LANGUAGES)[number];
+
+/**
+ * 指定がない場合（出力言語を記録していない既存のノートを含む）の出力言語
+ */
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = "ja";
+
+/**
+ * 出力言語の表示名
+ */
+export const OUTPUT_LANGUAGE_LABELS: Record<OutputLanguage, string> = {
+  ja: "日本語",
+  en: "English",
+  bilingual: "日本語 + English",
+};
+
+/**
+ * 言語ごとに異なる解説の内容
+ * 問題文・選択肢・正解などの言語に依存しない項目は含まない
+ */
+export interface ExplanationTranslation {
+  language: ExplanationLanguage;
+  explanation: string;
+  choiceExplanations: { choiceNumber: number; explanation: string }[];
+  learningPoints: string[];
+  similarQuestionsHint?: string;
+}
@@ -0,0 +1,51 @@
+/**
+ * 解説ノート生成の進捗
+ * 生成に数十秒かかるため、段階と生成途中の解説をクライアントに逐次通知する
+ */
+
+import type { ExamQuestionNote } from "./types";
+import type { QuestionRepositoryType } from "./question-repository";
+
+/**
+ * 生成の段階
+ * - analyzing: LLM で分析中
+ * - explanation-received: 分析結果（解説）を受信
+ * - diagram-validated: アーキテクチャ図の構文を検証済み
+ * - saving: リポジトリに保存中
+ */
+export type GenerationStage =
+  | "analyzing"
+  | "explanation-received"
+  | "diagram-validated"
+  | "saving";
+
+/**
+ * 生成の進行順に並べた段階
+ */
+export const GENERATION_STAGES: GenerationStage[] = [
+  "analyzing",
+  "explanation-received",
+  "diagram-validated",
+  "saving",
+];
+
+/**
+ * ユースケースが通知する進捗イベント
+ */
+export type GenerationProgressEvent =
+  | { type: "stage"; stage: GenerationStage }
+  /** 生成途中の解説（受信済みの部分全体） */
+  | { type: "partial-explanation"; explanation: string };
+
+/**
+ * ストリーミング API が送信するイベント（1行に1つの JSON）
+ */
+export type GenerationStreamEvent =
+  | GenerationProgressEvent
+  | {
+      type: "result";
+      note: ExamQuestionNote;
+      noteId: string;
+      repositoryType: QuestionRepositoryType;
+    }
+  | { type: "error"; error: string };
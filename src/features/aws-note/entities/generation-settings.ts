@@ -0,0 +1,23 @@
+/**
+ * 解説生成時のモデルと生成パラメータ
+ * リクエストごと・環境ごとに切り替え、使用した設定をノートに記録してモデル間の品質を比較できるようにする
+ */
+
+/**
+ * 生成に使用するモデルとパラメータ
+ */
+export interface GenerationSettings {
+  /** モデル名（例: gemini-2.5-pro, gemini-2.5-flash, gpt-4o-mini） */
+  model: string;
+  temperature: number;
+  topP: number;
+  /** 候補とするトークン数（対応しているプロバイダーのみ） */
+  topK?: number;
+  /** 出力トークン数の上限 */
+  maxOutputTokens: number;
+}
+
+/**
+ * リクエストごとに上書きする設定（指定しない項目は環境の設定を使う）
+ */
+export type GenerationSettingsOverrides = Partial<GenerationSettings>;
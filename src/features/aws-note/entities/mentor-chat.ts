@@ -0,0 +1,44 @@
+/**
+ * 保存した問題についてのメンターへの質問（フォローアップチャット）
+ * 解説を読んだ後の疑問を、問題と解説を文脈として LLM に質問し、スレッドとして問題ノートに保存する
+ */
+
+import type { ExamQuestionNote } from "./types";
+
+/**
+ * メッセージの送信者
+ * - user: 学習者の質問
+ * - mentor: LLM の回答
+ */
+export type MentorMessageRole = "user" | "mentor";
+
+/**
+ * スレッドのメッセージ
+ */
+export interface MentorMessage {
+  /** メッセージID */
+  id: string;
+  role: MentorMessageRole;
+  content: string;
+  /** 送信日時（ISO 8601） */
+  createdAt: string;
+  /** 回答したモデル名（mentor のみ） */
+  model?: string;
+  /** 学習ポイントに追加済みかどうか（mentor のみ） */
+  promotedToLearningPoints?: boolean;
+}
+
+/**
+ * 質問の最大文字数
+ */
+export const MAX_MENTOR_QUESTION_LENGTH = 2000;
+
+/**
+ * ストリーミング API が送信するイベント（1行に1つの JSON）
+ */
+export type MentorStreamEvent =
+  /** 生成途中の回答（受信済みの部分全体） */
+  | { type: "partial-answer"; answer: string }
+  /** 質問と回答を追加して保存した問題ノート */
+  | { type: "result"; note: ExamQuestionNote }
+  | { type: "error"; error: string };
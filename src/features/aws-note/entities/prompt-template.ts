@@ -0,0 +1,49 @@
+/**
+ * 解説のペルソナ（プロンプトテンプレート）の定義
+ * テンプレート本文とバージョンはインフラ層（prompt-templates.ts）で管理する
+ */
+
+/**
+ * 利用可能なテンプレートのID
+ */
+export const PROMPT_TEMPLATE_IDS = [
+  "beginner",
+  "exam-cram",
+  "deep-dive",
+] as const;
+
+export type PromptTemplateId = (typeof PROMPT_TEMPLATE_IDS)[number];
+
+/**
+ * 指定がない場合に使用するテンプレート
+ */
+export const DEFAULT_PROMPT_TEMPLATE_ID: PromptTemplateId = "beginner";
+
+/**
+ * テンプレートの表示名と説明
+ */
+export const PROMPT_TEMPLATE_PERSONAS: Record<
+  PromptTemplateId,
+  { name: string; description: string }
+> = {
+  beginner: {
+    name: "初心者向け",
+    description: "専門用語を避け、日常の例え話でイメージから理解する",
+  },
+  "exam-cram": {
+    name: "直前対策",
+    description: "正確な AWS 用語で要点だけを簡潔に。判断のキーワードを重視",
+  },
+  "deep-dive": {
+    name: "深掘り",
+    description: "仕組み・制約・トレードオフまで踏み込んだエキスパート向けの解説",
+  },
+};
+
+/**
+ * ノートの生成に使用したテンプレート
+ */
+export interface PromptTemplateRef {
+  id: PromptTemplateId;
+  version: string;
+}
@@ -0,0 +1,90 @@
+/**
+ * 問題分析器（LLM プロバイダー）のインターフェース
+ * Gemini / OpenAI 互換 API / フェイクを設定で差し替え可能にするための抽象
+ */
+
+import type {
+  ExamQuestionInput,
+  ExamQuestionNote,
+  QuestionAnalysis,
+} from "./types";
+import type { PromptTemplateId } from "./prompt-template";
+import type { GenerationSettings } from "./generation-settings";
+import type {
+  ExplanationLanguage,
+  ExplanationTranslation,
+} from "./explanation-language";
+
+/**
+ * 利用可能なプロバイダーの種類
+ * - gemini: Google Gemini API
+ * - openai: OpenAI 互換の Chat Completions API（OpenAI / Ollama / llama.cpp など）
+ * - fake: API を呼ばずに入力から決定的な結果を返す（開発・動作確認用）
+ */
+export type AnalyzerProviderType = "gemini" | "openai" | "fake";
+
+/**
+ * 分析のオプション
+ */
+export interface AnalyzeQuestionOptions {
+  /** 使用するプロンプトテンプレート（省略時はデフォルトのテンプレート） */
+  promptTemplateId?: PromptTemplateId;
+
+  /** 解説を記述する言語（省略時は日本語） */
+  language?: ExplanationLanguage;
+
+  /**
+   * 生成途中の出力テキスト（その試行で受信済みの部分全体）を受け取る
+   * 指定した場合はストリーミングで生成する。再試行時は新しい試行の出力で最初から通知される
+   */
+  onPartialText?: (text: string) => void;
+}
+
+/**
+ * 試験問題を分析して解説を生成する
+ */
+export interface QuestionAnalyzer {
+  /** 使用するモデル名（改訂履歴に記録される） */
+  readonly modelName: string;
+
+  /** 使用する生成設定（多数決モードでは分析ごと。ノートに記録される） */
+  readonly generationSettings: GenerationSettings[];
+
+  /**
+   * 試験問題から詳細な解説を生成
+   *
+   * @param questionInput - 問題文と選択肢
+   * @param options - ストリーミングなどのオプション
+   * @returns 検証済みの分析結果
+   */
+  analyzeQuestion(
+    questionInput: ExamQuestionInput,
+    options?: AnalyzeQuestionOptions
+  ): Promise<QuestionAnalysis>;
+
+  /**
+   * 解説を別の言語に翻訳
+   *
+   * @param source - 翻訳元の解説
+   * @param language - 翻訳先の言語
+   * @returns 翻訳した解説（選択肢の番号は翻訳元と同じ）
+   */
+  translateExplanation(
+    source: ExplanationTranslation,
+    language: ExplanationLanguage
+  ): Promise<ExplanationTranslation>;
+
+  /**
+   * 保存した問題についてのフォローアップの質問に回答
+   *
+   * @param note - 文脈とする問題ノート（mentorThread はそれまでの会話）
+   * @param question - 学習者の質問
+   * @param onPartialText - 生成途中の回答（受信済みの部分全体）を受け取る。指定した場合はストリーミングで生成する
+   * @returns 回答（プレーンテキスト）
+   */
+  answerMentorQuestion(
+    note: ExamQuestionNote,
+    question: string,
+    onPartialText?: (text: string) => void
+  ): Promise<string>;
+}
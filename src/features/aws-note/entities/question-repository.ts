@@ -0,0 +1,129 @@
+/**
+ * 問題リポジトリのインターフェース
+ * 保存先（Notion / ローカルファイル）を差し替え可能にするための抽象
+ */
+
+import type {
+  ExamQuestionInput,
+  ExamQuestionNote,
+  WellArchitectedPillar,
+} from "./types";
+
+/**
+ * 利用可能なリポジトリの種類
+ */
+export type QuestionRepositoryType = "notion" | "local";
+
+/**
+ * 問題一覧取得のオプション
+ */
+export interface GetAllQuestionsOptions {
+  /** キャッシュを無視して保存先から全件を再取得する */
+  forceRefresh?: boolean;
+}
+
+/**
+ * 問題検索の条件
+ * 各条件は AND で結合し、services / pillars の中はいずれかに一致すれば対象とする
+ */
+export interface QuestionQuery extends GetAllQuestionsOptions {
+  /** 関連サービス（いずれかを含む） */
+  services?: string[];
+  /** Well-Architected の柱（いずれかを含む） */
+  pillars?: WellArchitectedPillar[];
+  /** 問題文・解説に対するテキスト検索 */
+  search?: string;
+  /** 1ページあたりの件数 */
+  pageSize?: number;
+  /** 前回の結果の nextCursor */
+  cursor?: string;
+}
+
+/**
+ * 問題検索の結果（1ページ分）
+ */
+export interface QuestionQueryResult {
+  questions: ExamQuestionNote[];
+  /** 次のページを取得するためのカーソル（最後のページの場合は null） */
+  nextCursor: string | null;
+}
+
+/**
+ * フィルターの選択肢として使う値の一覧
+ */
+export interface QuestionFacets {
+  services: string[];
+  pillars: WellArchitectedPillar[];
+}
+
+/**
+ * 1ページあたりのデフォルト件数
+ */
+export const DEFAULT_QUESTION_PAGE_SIZE = 20;
+
+/**
+ * 1ページあたりの最大件数（Notion APIの上限に合わせる）
+ */
+export const MAX_QUESTION_PAGE_SIZE = 100;
+
+/**
+ * 試験問題ノートの永続化を担うリポジトリ
+ */
+export interface QuestionRepository {
+  /**
+   * 試験問題ノートを保存（既存の場合は更新）
+   * note.id が指定されている場合はそのノートを、それ以外は問題文と選択肢が一致するノートを更新する
+   * 更新はノート全体の置き換えで、note にない任意項目（翻訳・メンターとのスレッドなど）は消去される
+   *
+   * @param note - 保存する問題ノート
+   * @returns 保存先でのノートID
+   */
+  upsertQuestionNote(note: ExamQuestionNote): Promise<string>;
+
+  /**
+   * IDを指定して問題ノートを取得
+   *
+   * @param id - ノートID
+   * @returns 問題ノート（存在しない場合は null）
+   */
+  getQuestion(id: string): Promise<ExamQuestionNote | null>;
+
+  /**
+   * 問題文と選択肢が一致する問題ノートを取得
+   * upsertQuestionNote が更新する既存ノートと同じ判定（フィンガープリント）を使用する
+   *
+   * @param input - 問題文と選択肢
+   * @returns 問題ノート（存在しない場合は null）
+   */
+  findQuestionByContent(
+    input: ExamQuestionInput
+  ): Promise<ExamQuestionNote | null>;
+
+  /**
+   * すべての問題ノートを取得
+   *
+   * @param options - キャッシュ制御などのオプション
+   */
+  getAllQuestions(
+    options?: GetAllQuestionsOptions
+  ): Promise<ExamQuestionNote[]>;
+
+  /**
+   * 条件に一致する問題ノートをページ単位で取得
+   *
+   * @param query - 検索条件とページネーション
+   */
+  queryQuestions(query: QuestionQuery): Promise<QuestionQueryResult>;
+
+  /**
+   * フィルターに使用できる関連サービス・柱の一覧を取得
+   */
+  getQuestionFacets(): Promise<QuestionFacets>;
+
+  /**
+   * 問題ノートを削除
+   *
+   * @param id - ノートID
+   */
+  deleteQuestion(id: string): Promise<void>;
+}
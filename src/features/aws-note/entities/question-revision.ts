@@ -0,0 +1,76 @@
+/**
+ * 問題ノートの改訂履歴
+ * 解説を再生成・ロールバックするたびに、その時点の内容を改訂として保持する
+ */
+
+import type { ExamQuestionNote } from "./types";
+
+/**
+ * 改訂の発生元
+ * - generation: Gemini による解説生成
+ * - rollback: 過去の改訂への巻き戻し
+ * - translation: 不足している言語の解説の追加
+ * - mentor: メンターの回答の学習ポイントへの追加
+ * - pre-regeneration: 改訂のないノートを再生成で上書きする前の内容
+ */
+export type QuestionRevisionSource =
+  | "generation"
+  | "rollback"
+  | "translation"
+  | "mentor"
+  | "pre-regeneration";
+
+/**
+ * 改訂
+ */
+export interface QuestionRevision {
+  /** 改訂ID */
+  id: string;
+  /** 対象のノートID */
+  noteId: string;
+  /** 記録日時（ISO 8601） */
+  createdAt: string;
+  /** 解説を生成したモデル名（記録がない場合は "unknown"） */
+  model: string;
+  /** 解説を生成したプロンプトのバージョン（"テンプレートID@バージョン"、記録がない場合は "unknown"） */
+  promptVersion: string;
+  source: QuestionRevisionSource;
+  /** rollback の場合、巻き戻し元の改訂ID */
+  restoredFrom?: string;
+  /** その時点の問題ノート（ID・日時を除く） */
+  note: ExamQuestionNote;
+}
+
+/**
+ * 記録する改訂（ID・記録日時は保存時に付与）
+ */
+export type NewQuestionRevision = Omit<QuestionRevision, "id" | "createdAt">;
+
+/**
+ * 改訂履歴の永続化を担うリポジトリ
+ */
+export interface QuestionRevisionRepository {
+  /**
+   * 改訂を記録
+   *
+   * @returns 記録した改訂
+   */
+  addRevision(revision: NewQuestionRevision): Promise<QuestionRevision>;
+
+  /**
+   * ノートの改訂を新しい順に取得
+   *
+   * @param noteId - ノートID
+   */
+  getRevisions(noteId: string): Promise<QuestionRevision[]>;
+
+  /**
+   * 改訂を取得
+   *
+   * @returns 改訂（存在しない場合は null）
+   */
+  getRevision(
+    noteId: string,
+    revisionId: string
+  ): Promise<QuestionRevision | null>;
+}
@@ -0,0 +1,99 @@
+/**
+ * トークン使用量と推定コスト
+ * LLM の呼び出しごとの使用量・料金・予算の型定義（集計と判定は infrastructure/usage-budget.ts）
+ */
+
+/**
+ * 1回の呼び出しで使用したトークン数
+ */
+export interface TokenUsage {
+  /** 入力（プロンプト）のトークン数 */
+  inputTokens: number;
+  /** 出力のトークン数（思考トークンなど、出力として課金されるものを含む） */
+  outputTokens: number;
+}
+
+/**
+ * モデルの料金（USD / 100万トークン）
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * モデル名ごとの料金表
+ */
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+/**
+ * 使用量の合計
+ */
+export interface UsageTotals {
+  /** 呼び出し回数（再試行を含む） */
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** 推定コスト（USD、料金表にないモデルは 0 として数える） */
+  estimatedCostUsd: number;
+}
+
+/**
+ * 日別・モデル別の使用量
+ */
+export interface DailyModelUsage extends UsageTotals {
+  /** 日付（UTC、YYYY-MM-DD） */
+  date: string;
+  model: string;
+}
+
+/**
+ * 予算の上限に達した場合の動作
+ * - block: 分析を実行せずにエラーにする
+ * - warn: 警告を記録して分析を続ける
+ */
+export type UsageBudgetMode = "block" | "warn";
+
+/**
+ * 予算の上限（USD、未設定の項目は制限しない）
+ */
+export interface UsageBudget {
+  dailyLimitUsd?: number;
+  monthlyLimitUsd?: number;
+  mode: UsageBudgetMode;
+}
+
+/**
+ * 予算に対する現在の状況
+ */
+export interface UsageBudgetStatus {
+  /** 今日（UTC）の推定コスト */
+  dailyCostUsd: number;
+  /** 今月（UTC）の推定コスト */
+  monthlyCostUsd: number;
+  /** 上限に達した期間 */
+  exceeded: ("daily" | "monthly")[];
+}
+
+/**
+ * 使用量を記録する（LLM クライアントが呼び出しのたびに使う）
+ */
+export interface UsageRecorder {
+  /**
+   * 1回の呼び出しの使用量を記録
+   *
+   * @param model - 呼び出したモデル名
+   * @param usage - 使用したトークン数
+   */
+  recordUsage(model: string, usage: TokenUsage): Promise<void>;
+}
+
+/**
+ * 使用量の台帳
+ */
+export interface UsageLedger extends UsageRecorder {
+  /**
+   * 日別・モデル別の使用量を取得（新しい日付順）
+   */
+  getDailyUsage(): Promise<DailyModelUsage[]>;
+}
@@ -3,6 +3,15 @@
  * ドメインオブジェクトの型定義
  */
 
+import type { AnswerConfidence } from "./answer-confidence";
+import type { PromptTemplateRef } from "./prompt-template";
+import type {
+  ExplanationTranslation,
+  OutputLanguage,
+} from "./explanation-language";
+import type { GenerationSettings } from "./generation-settings";
+import type { MentorMessage } from "./mentor-chat";
+
 /**
  * Well-Architected Framework の6つの柱
  */
@@ -28,6 +37,15 @@ export interface ExamQuestionInput {
  * 問題解説の完全な定義
  */
 export interface ExamQuestionNote {
+  /** 保存先でのノートID（NotionページIDなど。未保存の場合は undefined） */
+  id?: string;
+
+  /** 作成日時（ISO 8601。保存先から読み込んだ場合のみ） */
+  createdAt?: string;
+
+  /** 最終更新日時（ISO 8601。保存先から読み込んだ場合のみ） */
+  updatedAt?: string;
+
   /** 問題文 */
   questionText: string;
 
@@ -65,12 +83,33 @@ export interface ExamQuestionNote {
 
   /** 類似問題へのヒント */
   similarQuestionsHint?: string;
+
+  /** 正解の信頼度（多数決モードで生成した場合のみ） */
+  answerConfidence?: AnswerConfidence;
+
+  /** 分析結果の整合性チェックで見つかった、確認が必要な点 */
+  analysisWarnings?: string[];
+
+  /** 解説の生成に使用したプロンプトテンプレート（AI で生成した場合のみ） */
+  promptTemplate?: PromptTemplateRef;
+
+  /** 解説の出力言語（未指定の場合は日本語） */
+  outputLanguage?: OutputLanguage;
+
+  /** もう一方の言語の解説（出力言語が bilingual の場合） */
+  translation?: ExplanationTranslation;
+
+  /** 解説の生成に使用したモデルとパラメータ（多数決モードでは分析ごと） */
+  generationSettings?: GenerationSettings[];
+
+  /** メンターへの質問と回答のスレッド（古い順） */
+  mentorThread?: MentorMessage[];
 }
 
 /**
- * Gemini 3 Pro からのレスポンス構造
+ * LLM による問題分析結果（プロバイダー共通のレスポンス構造）
  */
-export interface GeminiQuestionAnalysis {
+export interface QuestionAnalysis {
   /** 正解の選択肢番号（1-indexed）。単一の場合は数値、複数の場合は配列 */
   correctAnswer: number | number[];
   correctChoiceText: string;
@@ -86,6 +125,8 @@ export interface GeminiQuestionAnalysis {
   architectureDiagram?: string;
   learningPoints: string[];
   similarQuestionsHint?: string;
+  answerConfidence?: AnswerConfidence;
+  analysisWarnings?: string[];
 }
 
 /**
@@ -96,6 +137,7 @@ export interface NotionPageProperties {
   "Question Text": { title: Array<{ text: { content: string } }> };
   Choices: { rich_text: Array<{ text: { content: string } }> };
   "Correct Answer": { number: number };
+  "Correct Answers": { rich_text: Array<{ text: { content: string } }> };
   "Correct Choice Text": { rich_text: Array<{ text: { content: string } }> };
   Explanation: { rich_text: Array<{ text: { content: string } }> };
   "Related Services": { multi_select: Array<{ name: string }> };
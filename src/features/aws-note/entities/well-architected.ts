@@ -16,6 +16,18 @@ export const WELL_ARCHITECTED_PILLAR_NAMES: Record<WellArchitectedPillar, string
   'sustainability': '持続可能性',
 };
 
+/**
+ * Well-Architected Framework の6つの柱の英語名マッピング（AWS 公式の表記）
+ */
+export const WELL_ARCHITECTED_PILLAR_NAMES_EN: Record<WellArchitectedPillar, string> = {
+  'cost-optimization': 'Cost Optimization',
+  'performance-efficiency': 'Performance Efficiency',
+  'reliability': 'Reliability',
+  'security': 'Security',
+  'operational-excellence': 'Operational Excellence',
+  'sustainability': 'Sustainability',
+};
+
 /**
  * Well-Architected Framework の説明
  */
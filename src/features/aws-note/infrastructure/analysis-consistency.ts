@@ -0,0 +1,205 @@
+/**
+ * 問題分析結果の整合性チェック
+ * スキーマ検証では分からない、入力した問題（選択肢の数・内容）との食い違いを検出する
+ * 1. 正解番号が選択肢の範囲内か
+ * 2. 正解番号・各選択肢の解説の正誤・正解の選択肢テキストが一致しているか
+ * 3. 各選択肢の解説が入力した選択肢と対応しているか
+ *
+ * 根拠から一意に決まる食い違いは自動修正し、決まらないものは AnalysisResponseError として
+ * 修復プロンプトによる再生成の対象にする。再生成が不要な軽微な問題は警告として結果に残す
+ */
+
+import type { ExamQuestionInput, QuestionAnalysis } from "../entities/types";
+import { AnalysisResponseError } from "./analysis-response-parser";
+import { normalizeQuestionText } from "./question-fingerprint";
+import { logger } from "./logger";
+
+/**
+ * 整合性チェックの結果
+ */
+export interface AnalysisConsistencyResult {
+  /** 修正後の分析結果（警告がある場合は analysisWarnings に含む） */
+  analysis: QuestionAnalysis;
+  /** 自動修正した内容 */
+  fixes: string[];
+}
+
+/**
+ * 選択肢番号の集合を昇順の配列に変換
+ */
+function sortedNumbers(numbers: Iterable<number>): number[] {
+  return Array.from(new Set(numbers)).sort((a, b) => a - b);
+}
+
+/**
+ * 2つの選択肢番号の集合が一致するか
+ */
+function sameNumbers(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((n, i) => n === b[i]);
+}
+
+/**
+ * 選択肢番号の一覧を表示用に整形
+ */
+function formatNumbers(numbers: number[]): string {
+  return numbers.length > 0 ? numbers.join(", ") : "なし";
+}
+
+/**
+ * correctChoiceText が一致する選択肢の番号
+ * 複数正解は "/"・改行・読点などで区切られていることを想定する
+ */
+function matchChoiceText(text: string, choices: string[]): number[] {
+  const normalized = normalizeQuestionText(text);
+  const parts = new Set(
+    [normalized, ...normalized.split(/\s*(?:\/|\n|、|;|；)\s*/)].filter(
+      (part) => part.length > 0
+    )
+  );
+  return sortedNumbers(
+    choices.flatMap((choice, index) =>
+      parts.has(normalizeQuestionText(choice)) ? [index + 1] : []
+    )
+  );
+}
+
+/**
+ * 分析結果を入力した問題と照合し、自動修正できる食い違いを修正
+ *
+ * @param analysis - スキーマ検証済みの分析結果
+ * @param questionInput - 分析した問題文と選択肢
+ * @throws AnalysisResponseError 正解を一意に決められない場合
+ */
+export function checkAnalysisConsistency(
+  analysis: QuestionAnalysis,
+  questionInput: ExamQuestionInput
+): AnalysisConsistencyResult {
+  const { choices } = questionInput;
+  const fixes: string[] = [];
+  const warnings: string[] = [];
+  const inRange = (n: number) => n >= 1 && n <= choices.length;
+
+  // 正解番号（範囲外の番号は除外）
+  const rawAnswers = Array.isArray(analysis.correctAnswer)
+    ? analysis.correctAnswer
+    : [analysis.correctAnswer];
+  const answers = sortedNumbers(rawAnswers.filter(inRange));
+  const outOfRange = rawAnswers.filter((n) => !inRange(n));
+  if (outOfRange.length > 0) {
+    fixes.push(
+      `選択肢は${choices.length}個ですが、correctAnswer に範囲外の番号（${formatNumbers(outOfRange)}）が含まれていたため除外しました`
+    );
+  }
+
+  // 各選択肢の解説（範囲外・重複を除外し、選択肢テキストを入力に合わせる）
+  const explanationsByNumber = new Map<
+    number,
+    QuestionAnalysis["choiceExplanations"][number]
+  >();
+  for (const ce of analysis.choiceExplanations) {
+    if (!inRange(ce.choiceNumber)) {
+      fixes.push(`範囲外の選択肢番号（${ce.choiceNumber}）の解説を除外しました`);
+    } else if (explanationsByNumber.has(ce.choiceNumber)) {
+      fixes.push(`選択肢${ce.choiceNumber}の重複した解説を除外しました`);
+    } else {
+      explanationsByNumber.set(ce.choiceNumber, ce);
+    }
+  }
+  const flagged = sortedNumbers(
+    Array.from(explanationsByNumber.values())
+      .filter((ce) => ce.isCorrect)
+      .map((ce) => ce.choiceNumber)
+  );
+  const textMatches = matchChoiceText(analysis.correctChoiceText, choices);
+
+  // 正解の決定: correctAnswer・isCorrect・correctChoiceText のうち2つが一致すれば採用する
+  let finalAnswers: number[];
+  if (
+    answers.length > 0 &&
+    (flagged.length === 0 || sameNumbers(answers, flagged))
+  ) {
+    finalAnswers = answers;
+  } else if (answers.length > 0 && sameNumbers(flagged, textMatches)) {
+    finalAnswers = flagged;
+    fixes.push(
+      `correctAnswer（${formatNumbers(answers)}）を、各選択肢の解説の正誤と正解の選択肢テキストに合わせて ${formatNumbers(flagged)} に修正しました`
+    );
+    warnings.push(
+      `AI の出力で正解番号（${formatNumbers(answers)}）と解説の正誤（${formatNumbers(flagged)}）が食い違っていたため、正解を ${formatNumbers(flagged)} に修正しました`
+    );
+  } else if (answers.length > 0 && sameNumbers(answers, textMatches)) {
+    finalAnswers = answers;
+    warnings.push(
+      `AI の出力で正解番号（${formatNumbers(answers)}）と解説の正誤（${formatNumbers(flagged)}）が食い違っていたため、解説の正誤を正解番号に合わせました`
+    );
+  } else if (answers.length === 0 && flagged.length > 0) {
+    finalAnswers = flagged;
+    fixes.push(
+      `correctAnswer を各選択肢の解説の正誤に合わせて ${formatNumbers(flagged)} に修正しました`
+    );
+  } else if (answers.length === 0 && textMatches.length > 0) {
+    finalAnswers = textMatches;
+    fixes.push(
+      `correctAnswer を正解の選択肢テキストに合わせて ${formatNumbers(textMatches)} に修正しました`
+    );
+  } else {
+    throw new AnalysisResponseError(
+      "consistency",
+      answers.length === 0
+        ? `Consistency check failed: correctAnswer must be between 1 and ${choices.length} (got ${formatNumbers(rawAnswers)})`
+        : `Consistency check failed: correctAnswer (${formatNumbers(answers)}) does not match the choices marked isCorrect in choiceExplanations (${formatNumbers(flagged)})`
+    );
+  }
+
+  // 正解の選択肢テキストを実際の選択肢に合わせる
+  if (!sameNumbers(textMatches, finalAnswers)) {
+    const canonical = finalAnswers.map((n) => choices[n - 1]).join(" / ");
+    fixes.push(
+      `correctChoiceText「${analysis.correctChoiceText}」を選択肢のテキスト「${canonical}」に修正しました`
+    );
+    analysis = { ...analysis, correctChoiceText: canonical };
+  }
+
+  // 各選択肢の解説を正解と入力の選択肢に合わせる
+  const choiceExplanations = sortedNumbers(explanationsByNumber.keys()).map(
+    (choiceNumber) => {
+      const ce = explanationsByNumber.get(choiceNumber)!;
+      const choiceText = choices[choiceNumber - 1];
+      const isCorrect = finalAnswers.includes(choiceNumber);
+      if (
+        normalizeQuestionText(ce.choiceText) !==
+        normalizeQuestionText(choiceText)
+      ) {
+        fixes.push(
+          `選択肢${choiceNumber}の解説の choiceText を入力した選択肢に合わせました`
+        );
+      }
+      if (ce.isCorrect !== isCorrect) {
+        fixes.push(`選択肢${choiceNumber}の解説の isCorrect を修正しました`);
+      }
+      return { ...ce, choiceText, isCorrect };
+    }
+  );
+  const missing = choices
+    .map((_, index) => index + 1)
+    .filter((n) => !explanationsByNumber.has(n));
+  if (missing.length > 0) {
+    warnings.push(
+      `選択肢${formatNumbers(missing)}の解説が生成されませんでした`
+    );
+  }
+
+  if (fixes.length > 0 || warnings.length > 0) {
+    logger.info("Analysis consistency issues fixed", { fixes, warnings });
+  }
+
+  return {
+    analysis: {
+      ...analysis,
+      correctAnswer: finalAnswers.length === 1 ? finalAnswers[0] : finalAnswers,
+      choiceExplanations,
+      analysisWarnings: warnings.length > 0 ? warnings : undefined,
+    },
+    fixes,
+  };
+}
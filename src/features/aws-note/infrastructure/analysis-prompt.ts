@@ -0,0 +1,191 @@
+/**
+ * 問題分析プロンプト
+ * LLM に JSON 形式の解説を出力させるためのプロンプト
+ */
+
+import type { ExamQuestionInput, ExamQuestionNote } from "../entities/types";
+import type {
+  ExplanationLanguage,
+  ExplanationTranslation,
+} from "../entities/explanation-language";
+import {
+  renderPromptTemplate,
+  type AnalysisPromptTemplate,
+} from "./prompt-templates";
+
+/**
+ * 解説を英語で出力させるための追加指示
+ * テンプレートは日本語で記述しているため、末尾で出力言語を上書きする
+ */
+const ENGLISH_OUTPUT_INSTRUCTION = `
+---
+**Output language: English.**
+Write every natural-language field (explanation, choiceExplanations[].explanation, learningPoints, similarQuestionsHint) in clear English suitable for someone taking the AWS SAA exam in English, following the persona and rules above.
+Keep correctChoiceText and choiceExplanations[].choiceText exactly as given in the choices, and keep the JSON keys and the Mermaid syntax unchanged.`;
+
+/**
+ * 問題分析プロンプトを構築
+ * すべてのプロバイダーで共通のテンプレートを使用する
+ *
+ * @param questionInput - 問題文と選択肢
+ * @param template - 使用するテンプレート
+ * @param language - 解説を記述する言語
+ */
+export function buildQuestionAnalysisPrompt(
+  questionInput: ExamQuestionInput,
+  template: AnalysisPromptTemplate,
+  language: ExplanationLanguage = "ja"
+): string {
+  const choicesText = questionInput.choices
+    .map((choice, index) => `${index + 1}. ${choice}`)
+    .join("\n");
+
+  const prompt = renderPromptTemplate(template, {
+    questionText: questionInput.questionText,
+    choices: choicesText,
+  });
+  return language === "en" ? prompt + ENGLISH_OUTPUT_INSTRUCTION : prompt;
+}
+
+/**
+ * 翻訳プロンプトのバージョン（改訂履歴に記録される）
+ * 翻訳プロンプトを変更した場合は更新する
+ */
+export const TRANSLATION_PROMPT_VERSION = "translation@1";
+
+/**
+ * 翻訳先の言語名（プロンプト用）
+ */
+const TRANSLATION_TARGET_NAMES: Record<ExplanationLanguage, string> = {
+  ja: "自然な日本語",
+  en: "自然な英語（AWS SAA 試験の英語版で使われる用語）",
+};
+
+/**
+ * 翻訳プロンプトを構築
+ * 解説の JSON をそのまま渡し、同じ構造の JSON で翻訳結果を返させる
+ *
+ * @param source - 翻訳元の解説
+ * @param language - 翻訳先の言語
+ */
+export function buildTranslationPrompt(
+  source: ExplanationTranslation,
+  language: ExplanationLanguage
+): string {
+  const content = {
+    explanation: source.explanation,
+    choiceExplanations: source.choiceExplanations,
+    learningPoints: source.learningPoints,
+    similarQuestionsHint: source.similarQuestionsHint,
+  };
+
+  return `あなたは AWS 認定試験の教材を専門とする翻訳者です。
+以下の AWS SAA 試験問題の解説（JSON）を${TRANSLATION_TARGET_NAMES[language]}に翻訳してください。
+
+【翻訳元】
+${JSON.stringify(content, null, 2)}
+
+ルール:
+- 翻訳元と同じキーを持つJSONオブジェクトだけを出力してください。説明文やコードブロックは付けないでください
+- choiceExplanations は翻訳元と同じ choiceNumber をすべて、同じ順序で含めてください
+- AWS のサービス名（Amazon S3、AWS Lambda など）は公式の表記のまま残してください
+- 解説内の \`\`\`mermaid コードブロックは翻訳せず、そのまま残してください
+- 例え話や説明のトーンは翻訳元に合わせ、内容を追加・省略しないでください`;
+}
+
+/**
+ * メンターへの質問のプロンプトのバージョン（学習ポイントに追加した改訂に記録される）
+ * メンターへの質問のプロンプトを変更した場合は更新する
+ */
+export const MENTOR_PROMPT_VERSION = "mentor@1";
+
+/**
+ * プロンプトに含めるそれまでの会話の最大メッセージ数（新しいものから）
+ */
+const MAX_MENTOR_HISTORY_MESSAGES = 10;
+
+/**
+ * メンターへの質問のプロンプトを構築
+ * 問題・選択肢・正解・解説とそれまでの会話を文脈として渡し、プレーンテキストで回答させる
+ *
+ * @param note - 文脈とする問題ノート
+ * @param question - 学習者の質問
+ */
+export function buildMentorPrompt(
+  note: ExamQuestionNote,
+  question: string
+): string {
+  const correctAnswers = Array.isArray(note.correctAnswer)
+    ? note.correctAnswer
+    : [note.correctAnswer];
+  const choicesText = note.choices
+    .map((choice, index) => `${index + 1}. ${choice}`)
+    .join("\n");
+  const choiceExplanationsText = note.choiceExplanations
+    .map(
+      (ce) =>
+        `${ce.choiceNumber}. ${ce.isCorrect ? "正解" : "不正解"}: ${ce.explanation}`
+    )
+    .join("\n");
+  const history = (note.mentorThread ?? [])
+    .slice(-MAX_MENTOR_HISTORY_MESSAGES)
+    .map(
+      (message) =>
+        `${message.role === "user" ? "学習者" : "メンター"}: ${message.content}`
+    )
+    .join("\n\n");
+
+  return `あなたは AWS 認定ソリューションアーキテクト – アソシエイト（SAA）の受験者を指導するメンターです。
+学習者は以下の問題と解説を読み終えたところです。学習者の質問に回答してください。
+
+【問題】
+${note.questionText}
+
+【選択肢】
+${choicesText}
+
+【正解】
+${correctAnswers.join(", ")}. ${note.correctChoiceText}
+
+【解説】
+${note.explanation}
+
+【各選択肢の解説】
+${choiceExplanationsText}
+${history ? `\n【これまでの会話】\n${history}\n` : ""}
+【学習者の質問】
+${question}
+
+ルール:
+- 質問と同じ言語で、この問題の文脈に沿って回答してください
+- 他のサービスや構成と比較する質問には、試験で問われる判断基準（要件・コスト・運用負荷など）を示して違いを説明してください
+- 不確かなことは推測であると明示し、AWS の公式ドキュメントで確認するよう促してください
+- 見出しや JSON は使わず、数段落程度のプレーンテキストで簡潔に回答してください`;
+}
+
+/**
+ * 修復プロンプトを構築
+ * 前回の出力と検証エラーをモデルに返し、スキーマに従った JSON の再出力を求める
+ *
+ * @param originalPrompt - 最初に送信したプロンプト
+ * @param previousOutput - 解釈できなかった前回の出力
+ * @param errorMessage - JSON 解析またはスキーマ検証のエラー内容
+ */
+export function buildRepairPrompt(
+  originalPrompt: string,
+  previousOutput: string,
+  errorMessage: string
+): string {
+  return `${originalPrompt}
+
+---
+前回のあなたの出力は、次の理由で受け付けられませんでした。
+
+【エラー】
+${errorMessage}
+
+【前回の出力】
+${previousOutput}
+
+エラーを修正し、上記のJSONスキーマに厳密に従ったJSONオブジェクトだけを出力してください。すべての必須フィールドを含め、説明文やコードブロックは付けないでください。出力が長くなりすぎないよう、解説は簡潔にまとめてください。`;
+}
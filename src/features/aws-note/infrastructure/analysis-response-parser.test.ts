@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+  AnalysisResponseError,
+  extractPartialStringField,
+  parseQuestionAnalysisResponse,
+  repairTruncatedJson,
+} from "./analysis-response-parser";
+
+const analysis = {
+  correctAnswer: 1,
+  correctChoiceText: "Multi-AZ RDS",
+  explanation: "Multi-AZ 配置で自動フェイルオーバーする。",
+  relatedServices: ["Amazon RDS"],
+  wellArchitectedCategories: ["reliability"],
+  choiceExplanations: [
+    {
+      choiceNumber: 1,
+      choiceText: "Multi-AZ RDS",
+      isCorrect: true,
+      explanation: "正解",
+    },
+  ],
+  architectureDiagram: null,
+  learningPoints: ["Multi-AZ はスタンバイに同期レプリケーションする"],
+  similarQuestionsHint: null,
+};
+
+describe("repairTruncatedJson", () => {
+  it("途中で切れていない JSON は null を返す", () => {
+    expect(repairTruncatedJson('{"a": [1, 2]}')).toBeNull();
+  });
+
+  it("開いたままの文字列・配列・オブジェクトを閉じる", () => {
+    const repaired = repairTruncatedJson('{"a": ["x", "y');
+    expect(JSON.parse(repaired!)).toEqual({ a: ["x", "y"] });
+  });
+
+  it("値のないキーと末尾のカンマを取り除く", () => {
+    expect(JSON.parse(repairTruncatedJson('{"a": 1, "b":')!)).toEqual({
+      a: 1,
+    });
+    expect(JSON.parse(repairTruncatedJson('{"a": 1, "b"')!)).toEqual({
+      a: 1,
+    });
+    expect(JSON.parse(repairTruncatedJson('{"a": [1, 2,')!)).toEqual({
+      a: [1, 2],
+    });
+  });
+
+  it("書きかけのリテラルと数値を取り除く", () => {
+    expect(JSON.parse(repairTruncatedJson('{"a": 1, "b": tr')!)).toEqual({
+      a: 1,
+    });
+    expect(JSON.parse(repairTruncatedJson('{"a": [1.')!)).toEqual({
+      a: [1],
+    });
+  });
+
+  it("文字列末尾の書きかけのエスケープを取り除く", () => {
+    expect(JSON.parse(repairTruncatedJson('{"a": "x\\')!)).toEqual({
+      a: "x",
+    });
+  });
+
+  it("文字列内の括弧は構造として扱わない", () => {
+    expect(JSON.parse(repairTruncatedJson('{"a": "{[", "b": ["c')!)).toEqual(
+      { a: "{[", b: ["c"] }
+    );
+  });
+});
+
+describe("extractPartialStringField", () => {
+  it("途中で切れた値の受信済み部分を返す", () => {
+    expect(
+      extractPartialStringField(
+        '{"correctAnswer": 1, "explanation": "Multi-AZ\\nで',
+        "explanation"
+      )
+    ).toBe("Multi-AZ\nで");
+  });
+
+  it("値を受信する前は null を返す", () => {
+    expect(extractPartialStringField('{"explanation"', "explanation")).toBe(
+      null
+    );
+    expect(extractPartialStringField('{"explanation": ', "explanation")).toBe(
+      null
+    );
+  });
+
+  it("ネストしたオブジェクトの同名フィールドは対象にしない", () => {
+    expect(
+      extractPartialStringField(
+        '{"choiceExplanations": [{"explanation": "内側"}], "explanation": "外側"}',
+        "explanation"
+      )
+    ).toBe("外側");
+  });
+});
+
+describe("parseQuestionAnalysisResponse", () => {
+  it("コードブロックで囲まれた JSON を解析し、null を undefined にする", () => {
+    const result = parseQuestionAnalysisResponse(
+      "```json\n" + JSON.stringify(analysis) + "\n```"
+    );
+    expect(result.correctAnswer).toBe(1);
+    expect(result.architectureDiagram).toBeUndefined();
+    expect(result.similarQuestionsHint).toBeUndefined();
+  });
+
+  it("配列で返された場合は最初の要素を使う", () => {
+    const result = parseQuestionAnalysisResponse(JSON.stringify([analysis]));
+    expect(result.correctChoiceText).toBe("Multi-AZ RDS");
+  });
+
+  it("カテゴリの表記ゆれを正規化する", () => {
+    const result = parseQuestionAnalysisResponse(
+      JSON.stringify({
+        ...analysis,
+        wellArchitectedCategories: [
+          "Cost Optimization",
+          "Operational excellence",
+        ],
+      })
+    );
+    expect(result.wellArchitectedCategories).toEqual([
+      "cost-optimization",
+      "operational-excellence",
+    ]);
+  });
+
+  it("途中で切れた出力を修復してからスキーマ検証する", () => {
+    const text = JSON.stringify(analysis);
+    const truncated = text.substring(0, text.indexOf("スタンバイ"));
+    const result = parseQuestionAnalysisResponse(truncated);
+    expect(result.learningPoints).toEqual(["Multi-AZ は"]);
+    expect(result.similarQuestionsHint).toBeUndefined();
+  });
+
+  it("途中で必須フィールドが欠けた場合はスキーマエラーにする", () => {
+    const text = JSON.stringify(analysis);
+    const truncated = text.substring(0, text.indexOf('"choiceExplanations"'));
+    expect(() => parseQuestionAnalysisResponse(truncated)).toThrow(
+      expect.objectContaining({ kind: "schema" })
+    );
+  });
+
+  it("JSON として解析できない場合は json エラーにする", () => {
+    expect(() => parseQuestionAnalysisResponse("回答できません")).toThrow(
+      AnalysisResponseError
+    );
+    expect(() => parseQuestionAnalysisResponse("回答できません")).toThrow(
+      expect.objectContaining({ kind: "json" })
+    );
+  });
+});
@@ -0,0 +1,412 @@
+/**
+ * 問題分析・翻訳レスポンスのパーサー
+ * LLM の出力テキストから JSON を取り出し、正規化・スキーマ検証を行う
+ * 1. コードブロック・配列で返された場合の吸収
+ * 2. 途中で切れた JSON のローカル修復
+ * 3. カテゴリの表記ゆれ吸収
+ * 4. null プロパティの除去
+ */
+
+import { z } from "zod";
+import type { QuestionAnalysis } from "../entities/types";
+import type {
+  ExplanationLanguage,
+  ExplanationTranslation,
+} from "../entities/explanation-language";
+import { logger } from "./logger";
+
+/**
+ * 問題分析レスポンスのスキーマ検証
+ * Gemini の構造化出力（responseSchema）の生成元にもなる
+ */
+export const QuestionAnalysisSchema = z.object({
+  correctAnswer: z
+    .union([
+      z.number().int().min(1).max(8),
+      z.array(z.number().int().min(1).max(8)),
+    ])
+    .describe("正解の選択肢番号（1始まり）。複数正解の問題ではすべての番号"),
+  correctChoiceText: z.string(),
+  explanation: z.string(),
+  relatedServices: z.array(z.string()),
+  wellArchitectedCategories: z.array(
+    z.enum([
+      "cost-optimization",
+      "performance-efficiency",
+      "reliability",
+      "security",
+      "operational-excellence",
+      "sustainability",
+    ])
+  ),
+  choiceExplanations: z.array(
+    z.object({
+      choiceNumber: z.number().int().min(1).max(8),
+      choiceText: z.string(),
+      isCorrect: z.boolean(),
+      explanation: z.string(),
+    })
+  ),
+  architectureDiagram: z.string().nullish(),
+  learningPoints: z.array(z.string()),
+  similarQuestionsHint: z.string().nullish(),
+});
+
+/**
+ * 翻訳レスポンスのスキーマ検証
+ * Gemini の構造化出力（responseSchema）の生成元にもなる
+ */
+export const ExplanationTranslationSchema = z.object({
+  explanation: z.string(),
+  choiceExplanations: z.array(
+    z.object({
+      choiceNumber: z.number().int().min(1).max(8),
+      explanation: z.string(),
+    })
+  ),
+  learningPoints: z.array(z.string()),
+  similarQuestionsHint: z.string().nullish(),
+});
+
+/**
+ * LLM の出力を問題分析結果として解釈できなかったことを表すエラー
+ * 修復プロンプトによる再試行の対象となる
+ */
+export class AnalysisResponseError extends Error {
+  /**
+   * @param kind - json: JSON として解析できない / schema: スキーマに一致しない /
+   *   consistency: 入力した問題と矛盾し正解を決められない、または翻訳元と選択肢が一致しない
+   * @param message - モデルにそのまま伝えられる形のエラー内容
+   */
+  constructor(
+    readonly kind: "json" | "schema" | "consistency",
+    message: string
+  ) {
+    super(message);
+    this.name = "AnalysisResponseError";
+  }
+}
+
+/**
+ * 出力トークンの上限などで途中で切れた JSON を閉じる
+ * 開いたままの文字列・配列・オブジェクトを閉じ、末尾の不完全な要素を取り除く
+ *
+ * @returns 修復した JSON テキスト（途中で切れていない場合は null）
+ */
+export function repairTruncatedJson(text: string): string | null {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === "{" || char === "[") stack.push(char);
+    else if (char === "}" || char === "]") stack.pop();
+  }
+
+  if (!inString && stack.length === 0) {
+    return null;
+  }
+
+  let repaired = text;
+  if (inString) {
+    repaired = (escaped ? repaired.slice(0, -1) : repaired) + '"';
+  }
+
+  // 値のないキー、末尾のカンマ、書きかけのリテラル・数値を取り除く
+  for (;;) {
+    const before = repaired;
+    repaired = repaired
+      .trimEnd()
+      .replace(/([:[,]\s*)(?:t|tr|tru|f|fa|fal|fals|n|nu|nul|-)$/, "$1")
+      .replace(/(\d)[.eE+-]+$/, "$1")
+      .replace(/"(?:[^"\\]|\\.)*"\s*:\s*$/, "")
+      .replace(/,\s*$/, "");
+    if (stack[stack.length - 1] === "{") {
+      // オブジェクト内で文字列が途中で切れた場合、それは値のないキー
+      repaired = repaired.replace(/([{,])\s*"(?:[^"\\]|\\.)*"$/, "$1");
+    }
+    if (repaired === before) break;
+  }
+
+  const closers = stack
+    .reverse()
+    .map((open) => (open === "{" ? "}" : "]"))
+    .join("");
+  return repaired + closers;
+}
+
+/**
+ * JSON を解析（途中で切れている場合はローカルで修復して再解析）
+ */
+function parseJsonWithRepair(jsonText: string): unknown {
+  try {
+    return JSON.parse(jsonText);
+  } catch (error) {
+    const repaired = repairTruncatedJson(jsonText);
+    if (repaired === null) {
+      throw error;
+    }
+    const parsed = JSON.parse(repaired);
+    logger.warn("Parsed truncated model output after local JSON repair", {
+      originalLength: jsonText.length,
+      repairedLength: repaired.length,
+    });
+    return parsed;
+  }
+}
+
+/**
+ * JSON 文字列のエスケープシーケンス
+ */
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * 開始引用符の次の位置から JSON 文字列を読み取る
+ *
+ * @returns デコードした値と終了引用符の位置（途中で切れている場合は -1）
+ */
+function readJsonString(
+  text: string,
+  start: number
+): { value: string; end: number } {
+  let value = "";
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      return { value, end: i };
+    }
+    if (char !== "\\") {
+      value += char;
+      continue;
+    }
+    const next = text[i + 1];
+    if (next === "u") {
+      const hex = text.substring(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else if (next !== undefined) {
+      value += JSON_ESCAPES[next] ?? next;
+      i++;
+    }
+  }
+  return { value, end: -1 };
+}
+
+/**
+ * 生成途中の出力テキストから、トップレベルの文字列フィールドの値を取り出す
+ * ストリーミング中に解説を逐次表示するため、値が途中で切れていても受信済みの部分を返す
+ *
+ * @returns フィールドの値（まだ受信していない場合は null）
+ */
+export function extractPartialStringField(
+  text: string,
+  field: string
+): string | null {
+  let depth = 0;
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (char !== '"') {
+      if (char === "{" || char === "[") depth++;
+      else if (char === "}" || char === "]") depth--;
+      i++;
+      continue;
+    }
+
+    const key = readJsonString(text, i + 1);
+    if (key.end === -1) return null;
+    i = key.end + 1;
+    if (depth !== 1 || key.value !== field) continue;
+
+    const rest = text.substring(i);
+    const valueStart = /^\s*:\s*"/.exec(rest);
+    if (valueStart) {
+      return readJsonString(text, i + valueStart[0].length).value;
+    }
+    if (/^\s*(?::\s*)?$/.test(rest)) return null;
+  }
+  return null;
+}
+
+/**
+ * LLM の出力テキストから JSON を取り出して解析
+ * コードブロックで囲まれた場合・配列で返された場合も吸収する
+ *
+ * @throws AnalysisResponseError JSON として解析できない場合
+ */
+function parseModelJson(text: string): unknown {
+  // JSONブロックの抽出（安全策）
+  let jsonText = text;
+  const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
+  if (jsonMatch) {
+    jsonText = jsonMatch[1];
+  } else {
+    // バッククォートのみの場合の対応
+    jsonText = text.replace(/^```\w*\s*/, "").replace(/\s*```$/, "");
+  }
+
+  try {
+    const parsed = parseJsonWithRepair(jsonText);
+
+    // 配列が返された場合は最初の要素を取得
+    if (Array.isArray(parsed)) {
+      if (parsed.length === 0) {
+        throw new Error("Model returned an empty array");
+      }
+      logger.warn("Model returned an array, using first element", {
+        arrayLength: parsed.length,
+      });
+      return parsed[0];
+    }
+    return parsed;
+  } catch (parseError) {
+    logger.warn("JSON parsing failed", {
+      message: (parseError as Error).message,
+      preview: jsonText.substring(0, 200),
+      endOfText: jsonText.substring(Math.max(0, jsonText.length - 200)),
+    });
+    throw new AnalysisResponseError(
+      "json",
+      `Failed to parse JSON response: ${(parseError as Error).message}`
+    );
+  }
+}
+
+/**
+ * スキーマ検証（失敗した場合はモデルに伝えられる形のエラーに変換）
+ *
+ * @throws AnalysisResponseError スキーマに一致しない場合
+ */
+function validateSchema<T>(schema: z.ZodType<T>, parsed: unknown): T {
+  try {
+    return schema.parse(parsed);
+  } catch (validationError) {
+    if (validationError instanceof z.ZodError) {
+      logger.warn("Schema validation failed", {
+        zodErrors: validationError.errors,
+      });
+      throw new AnalysisResponseError(
+        "schema",
+        `Schema validation failed: ${validationError.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")}`
+      );
+    }
+    throw validationError;
+  }
+}
+
+/**
+ * LLM の出力テキストを検証済みの問題分析結果に変換
+ *
+ * @param text - LLM の出力テキスト
+ * @throws AnalysisResponseError JSON として解析できない場合、またはスキーマに一致しない場合
+ */
+export function parseQuestionAnalysisResponse(text: string): QuestionAnalysis {
+  const parsed = parseModelJson(text);
+
+  // データのクリーンアップと正規化
+  if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+    const obj = parsed as Record<string, unknown>;
+
+    // null プロパティを undefined に変換
+    if (obj.architectureDiagram === null) obj.architectureDiagram = undefined;
+    if (obj.similarQuestionsHint === null)
+      obj.similarQuestionsHint = undefined;
+
+    // wellArchitectedCategories の値を正規化 (表記ゆれ対応)
+    if (
+      obj.wellArchitectedCategories &&
+      Array.isArray(obj.wellArchitectedCategories)
+    ) {
+      obj.wellArchitectedCategories = obj.wellArchitectedCategories.map(
+        (cat: unknown) => {
+          if (typeof cat !== "string") return cat;
+
+          // マッピング: 人間が読みやすい形式 → 小文字ハイフン形式
+          const mapping: Record<string, string> = {
+            "Cost Optimization": "cost-optimization",
+            "cost optimization": "cost-optimization",
+            "Performance Efficiency": "performance-efficiency",
+            "performance efficiency": "performance-efficiency",
+            Reliability: "reliability",
+            reliability: "reliability",
+            Security: "security",
+            security: "security",
+            "Operational Excellence": "operational-excellence",
+            "operational excellence": "operational-excellence",
+            Sustainability: "sustainability",
+            sustainability: "sustainability",
+          };
+
+          // マッピングになければ、スペースをハイフンに置換して小文字化
+          return mapping[cat] || cat.toLowerCase().replace(/\s+/g, "-");
+        }
+      );
+    }
+  }
+
+  // スキーマ検証
+  const validated = validateSchema(QuestionAnalysisSchema, parsed);
+  return {
+    ...validated,
+    architectureDiagram: validated.architectureDiagram ?? undefined,
+    similarQuestionsHint: validated.similarQuestionsHint ?? undefined,
+  };
+}
+
+/**
+ * LLM の出力テキストを検証済みの翻訳結果に変換
+ *
+ * @param text - LLM の出力テキスト
+ * @param source - 翻訳元の解説（選択肢の番号を照合する）
+ * @param language - 翻訳先の言語
+ * @throws AnalysisResponseError JSON として解析できない場合、スキーマに一致しない場合、
+ *   または翻訳元と選択肢の番号が一致しない場合
+ */
+export function parseExplanationTranslationResponse(
+  text: string,
+  source: ExplanationTranslation,
+  language: ExplanationLanguage
+): ExplanationTranslation {
+  const validated = validateSchema(
+    ExplanationTranslationSchema,
+    parseModelJson(text)
+  );
+
+  const expected = source.choiceExplanations
+    .map((ce) => ce.choiceNumber)
+    .sort((a, b) => a - b);
+  const actual = validated.choiceExplanations
+    .map((ce) => ce.choiceNumber)
+    .sort((a, b) => a - b);
+  if (expected.join(",") !== actual.join(",")) {
+    throw new AnalysisResponseError(
+      "consistency",
+      `choiceExplanations must contain exactly choiceNumber ${expected.join(", ")} (got ${actual.join(", ") || "none"})`
+    );
+  }
+
+  return {
+    language,
+    explanation: validated.explanation,
+    choiceExplanations: validated.choiceExplanations,
+    learningPoints: validated.learningPoints,
+    similarQuestionsHint: validated.similarQuestionsHint ?? undefined,
+  };
+}
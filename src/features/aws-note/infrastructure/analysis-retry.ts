@@ -0,0 +1,249 @@
+/**
+ * 問題分析・翻訳の再試行
+ * 一時的な API エラーはバックオフして再送し、解釈できない・入力と矛盾する出力は修復プロンプトで再生成する
+ */
+
+import type { ExamQuestionInput, QuestionAnalysis } from "../entities/types";
+import type {
+  ExplanationLanguage,
+  ExplanationTranslation,
+} from "../entities/explanation-language";
+import { logger } from "./logger";
+import { buildRepairPrompt } from "./analysis-prompt";
+import {
+  AnalysisResponseError,
+  parseExplanationTranslationResponse,
+  parseQuestionAnalysisResponse,
+} from "./analysis-response-parser";
+import { checkAnalysisConsistency } from "./analysis-consistency";
+
+/**
+ * 一時的なエラーに対する再送の最大回数
+ */
+const MAX_TRANSIENT_RETRIES = 3;
+
+/**
+ * 修復プロンプトによる再生成の最大回数
+ */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * バックオフの初期待機時間（再送のたびに2倍）
+ */
+const BASE_BACKOFF_MS = 2000;
+
+/**
+ * 修復プロンプトに含める前回の出力の最大文字数
+ */
+const MAX_PREVIOUS_OUTPUT_LENGTH = 12000;
+
+/**
+ * 再送すれば成功する可能性のある HTTP ステータス
+ */
+const TRANSIENT_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/**
+ * HTTP ステータスを持つ API エラー
+ */
+export class AnalyzerHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "AnalyzerHttpError";
+  }
+}
+
+/**
+ * 一時的なエラー（レート制限・過負荷・接続断）かどうか
+ * Gemini SDK のエラーは status プロパティを持つ
+ */
+export function isTransientAnalyzerError(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === "number") {
+    return TRANSIENT_STATUSES.has(status);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|500|502|503|504)\b|Too Many Requests|Service Unavailable|overloaded|ECONNRESET|fetch failed/i.test(
+    message
+  );
+}
+
+/**
+ * 指定時間待機
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 修復プロンプトで再生成する理由（ログ用）
+ */
+const REPAIR_REASONS: Record<AnalysisResponseError["kind"], string> = {
+  json: "invalid-json",
+  schema: "schema-validation",
+  consistency: "consistency-check",
+};
+
+/**
+ * 再試行の文脈（ログ用）
+ */
+export interface AnalysisRetryContext {
+  provider: string;
+  model: string;
+}
+
+/**
+ * プロンプトを送信して分析結果を取得（再試行付き）
+ *
+ * @param questionInput - 分析する問題（出力との整合性チェックに使用）
+ * @param prompt - 問題分析プロンプト
+ * @param generate - プロンプトを送信してモデルの出力テキストを返す
+ * @param context - ログに記録するプロバイダー・モデル名
+ * @returns スキーマ検証・整合性チェック済みの分析結果
+ * @throws 再試行の上限に達した場合は最後のエラー
+ */
+export function generateAnalysisWithRetry(
+  questionInput: ExamQuestionInput,
+  prompt: string,
+  generate: (prompt: string) => Promise<string>,
+  context: AnalysisRetryContext
+): Promise<QuestionAnalysis> {
+  return generateWithRetry(
+    prompt,
+    generate,
+    (text) =>
+      checkAnalysisConsistency(
+        parseQuestionAnalysisResponse(text),
+        questionInput
+      ).analysis,
+    context
+  );
+}
+
+/**
+ * プロンプトを送信して翻訳結果を取得（再試行付き）
+ *
+ * @param source - 翻訳元の解説（出力の選択肢番号の照合に使用）
+ * @param language - 翻訳先の言語
+ * @param prompt - 翻訳プロンプト
+ * @param generate - プロンプトを送信してモデルの出力テキストを返す
+ * @param context - ログに記録するプロバイダー・モデル名
+ * @returns スキーマ検証済みの翻訳結果
+ * @throws 再試行の上限に達した場合は最後のエラー
+ */
+export function generateTranslationWithRetry(
+  source: ExplanationTranslation,
+  language: ExplanationLanguage,
+  prompt: string,
+  generate: (prompt: string) => Promise<string>,
+  context: AnalysisRetryContext
+): Promise<ExplanationTranslation> {
+  return generateWithRetry(
+    prompt,
+    generate,
+    (text) => parseExplanationTranslationResponse(text, source, language),
+    context
+  );
+}
+
+/**
+ * プロンプトを送信してプレーンテキストの回答を取得（一時的なエラーのみ再試行）
+ *
+ * @param prompt - 送信するプロンプト
+ * @param generate - プロンプトを送信してモデルの出力テキストを返す
+ * @param context - ログに記録するプロバイダー・モデル名
+ * @returns 前後の空白を除いた回答
+ * @throws 再試行の上限に達した場合、または回答が空の場合
+ */
+export function generateTextWithRetry(
+  prompt: string,
+  generate: (prompt: string) => Promise<string>,
+  context: AnalysisRetryContext
+): Promise<string> {
+  return generateWithRetry(
+    prompt,
+    generate,
+    (text) => {
+      const answer = text.trim();
+      if (!answer) {
+        throw new Error("Model returned an empty answer");
+      }
+      return answer;
+    },
+    context
+  );
+}
+
+/**
+ * プロンプトを送信して出力を解釈（再試行付き）
+ *
+ * @param parse - 出力テキストを解釈する（AnalysisResponseError の場合は修復プロンプトで再生成する）
+ */
+async function generateWithRetry<T>(
+  prompt: string,
+  generate: (prompt: string) => Promise<string>,
+  parse: (text: string) => T,
+  context: AnalysisRetryContext
+): Promise<T> {
+  let currentPrompt = prompt;
+  let transientRetries = 0;
+  let repairAttempts = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    let text: string;
+    try {
+      text = await generate(currentPrompt);
+    } catch (error) {
+      if (
+        !isTransientAnalyzerError(error) ||
+        transientRetries >= MAX_TRANSIENT_RETRIES
+      ) {
+        throw error;
+      }
+      const delayMs =
+        BASE_BACKOFF_MS * 2 ** transientRetries +
+        Math.floor(Math.random() * 500);
+      transientRetries++;
+      logger.warn("Analysis attempt failed, retrying with backoff", {
+        ...context,
+        attempt,
+        reason: "transient-error",
+        status: (error as { status?: number })?.status,
+        message: error instanceof Error ? error.message : String(error),
+        delayMs,
+      });
+      await sleep(delayMs);
+      continue;
+    }
+
+    try {
+      const result = parse(text);
+      if (attempt > 1) {
+        logger.info("Analysis succeeded after retry", { ...context, attempt });
+      }
+      return result;
+    } catch (error) {
+      if (
+        !(error instanceof AnalysisResponseError) ||
+        repairAttempts >= MAX_REPAIR_ATTEMPTS
+      ) {
+        throw error;
+      }
+      repairAttempts++;
+      logger.warn("Analysis attempt failed, retrying with repair prompt", {
+        ...context,
+        attempt,
+        reason: REPAIR_REASONS[error.kind],
+        message: error.message,
+        outputLength: text.length,
+      });
+      currentPrompt = buildRepairPrompt(
+        prompt,
+        text.substring(0, MAX_PREVIOUS_OUTPUT_LENGTH),
+        error.message
+      );
+    }
+  }
+}
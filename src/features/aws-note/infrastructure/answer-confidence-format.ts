@@ -0,0 +1,32 @@
+/**
+ * 正解の信頼度の判定と表示用の整形
+ * 多数決の結果から低信頼度の問題を判定し、得票の内訳を画面・Notion 向けの文字列にする
+ */
+
+import {
+  LOW_CONFIDENCE_THRESHOLD,
+  type AnswerConfidence,
+  type AnswerVote,
+} from "../entities/answer-confidence";
+
+/**
+ * 信頼度が低いかどうか（多数決を行っていない場合は false）
+ */
+export function isLowConfidence(confidence?: AnswerConfidence): boolean {
+  return confidence !== undefined && confidence.score < LOW_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * 得票を表示用に整形（例: "選択肢1,3: 2票"）
+ */
+export function formatAnswerVote(vote: AnswerVote): string {
+  const answers = Array.isArray(vote.answer) ? vote.answer : [vote.answer];
+  return `選択肢${answers.join(",")}: ${vote.count}票`;
+}
+
+/**
+ * 得票の内訳を表示用に整形（例: "選択肢2: 2票 / 選択肢1,3: 1票"）
+ */
+export function formatAnswerVotes(confidence: AnswerConfidence): string {
+  return confidence.votes.map(formatAnswerVote).join(" / ");
+}
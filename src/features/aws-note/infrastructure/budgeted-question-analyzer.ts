@@ -0,0 +1,98 @@
+/**
+ * 予算の上限を確認してから分析する問題分析器
+ * 分析・翻訳・メンターへの質問の前に台帳の推定コストを確認し、上限に達していれば止める（または警告する）
+ */
+
+import type {
+  QuestionAnalysis,
+  ExamQuestionInput,
+  ExamQuestionNote,
+} from "../entities/types";
+import type {
+  AnalyzeQuestionOptions,
+  QuestionAnalyzer,
+} from "../entities/question-analyzer";
+import type {
+  ExplanationLanguage,
+  ExplanationTranslation,
+} from "../entities/explanation-language";
+import type { GenerationSettings } from "../entities/generation-settings";
+import type { UsageBudget, UsageLedger } from "../entities/token-usage";
+import { logger } from "./logger";
+import { getUsageBudgetStatus, UsageBudgetExceededError } from "./usage-budget";
+
+export class BudgetedQuestionAnalyzer implements QuestionAnalyzer {
+  readonly modelName: string;
+
+  readonly generationSettings: GenerationSettings[];
+
+  /**
+   * @param analyzer - 実際に分析する分析器
+   * @param ledger - 使用量の台帳
+   * @param budget - 予算の上限
+   */
+  constructor(
+    private analyzer: QuestionAnalyzer,
+    private ledger: UsageLedger,
+    private budget: UsageBudget
+  ) {
+    this.modelName = analyzer.modelName;
+    this.generationSettings = analyzer.generationSettings;
+  }
+
+  async analyzeQuestion(
+    questionInput: ExamQuestionInput,
+    options?: AnalyzeQuestionOptions
+  ): Promise<QuestionAnalysis> {
+    await this.checkBudget();
+    return this.analyzer.analyzeQuestion(questionInput, options);
+  }
+
+  async translateExplanation(
+    source: ExplanationTranslation,
+    language: ExplanationLanguage
+  ): Promise<ExplanationTranslation> {
+    await this.checkBudget();
+    return this.analyzer.translateExplanation(source, language);
+  }
+
+  async answerMentorQuestion(
+    note: ExamQuestionNote,
+    question: string,
+    onPartialText?: (text: string) => void
+  ): Promise<string> {
+    await this.checkBudget();
+    return this.analyzer.answerMentorQuestion(note, question, onPartialText);
+  }
+
+  /**
+   * 予算の上限に達していないか確認
+   *
+   * @throws {UsageBudgetExceededError} 上限に達していて mode が block の場合
+   */
+  private async checkBudget(): Promise<void> {
+    const status = getUsageBudgetStatus(
+      await this.ledger.getDailyUsage(),
+      this.budget
+    );
+    if (status.exceeded.length === 0) {
+      return;
+    }
+
+    if (this.budget.mode === "block") {
+      const error = new UsageBudgetExceededError(status);
+      logger.error("Analysis blocked by usage budget", error, {
+        dailyLimitUsd: this.budget.dailyLimitUsd,
+        monthlyLimitUsd: this.budget.monthlyLimitUsd,
+      });
+      throw error;
+    }
+    logger.warn("Usage budget exceeded, continuing analysis", {
+      exceeded: status.exceeded,
+      dailyCostUsd: status.dailyCostUsd,
+      monthlyCostUsd: status.monthlyCostUsd,
+      dailyLimitUsd: this.budget.dailyLimitUsd,
+      monthlyLimitUsd: this.budget.monthlyLimitUsd,
+    });
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * フェイクの問題分析器
+ * API を呼ばずに、問題文と選択肢から決定的な分析結果を返す
+ * APIキーなしでの開発・画面の動作確認に使用する
+ */
+
+import type {
+  QuestionAnalysis,
+  ExamQuestionInput,
+  ExamQuestionNote,
+} from "../entities/types";
+import type {
+  AnalyzeQuestionOptions,
+  QuestionAnalyzer,
+} from "../entities/question-analyzer";
+import type {
+  ExplanationLanguage,
+  ExplanationTranslation,
+} from "../entities/explanation-language";
+import { logger } from "./logger";
+import { computeQuestionFingerprint } from "./question-fingerprint";
+import { DEFAULT_GENERATION_PARAMETERS } from "./generation-settings";
+import type { GenerationSettings } from "../entities/generation-settings";
+
+/**
+ * 問題文から関連サービスとして抽出するサービス名のパターン
+ */
+const SERVICE_NAME_PATTERN = /\b(?:Amazon|AWS)\s+[A-Z][\w-]*(?:\s+[A-Z][\w-]*)?/g;
+
+export class FakeQuestionAnalyzer implements QuestionAnalyzer {
+  readonly modelName = "fake";
+
+  /** 記録用の生成設定（モデル名は常に fake。パラメータは結果に影響しない） */
+  readonly generationSettings: GenerationSettings[];
+
+  constructor(
+    parameters: Omit<GenerationSettings, "model"> = DEFAULT_GENERATION_PARAMETERS
+  ) {
+    this.generationSettings = [{ ...parameters, model: this.modelName }];
+  }
+
+  /**
+   * 問題のフィンガープリントから正解を決め、定型の解説を返す
+   * 同じ問題には常に同じ結果を返す
+   */
+  async analyzeQuestion(
+    questionInput: ExamQuestionInput,
+    options: AnalyzeQuestionOptions = {}
+  ): Promise<QuestionAnalysis> {
+    logger.info("Starting question analysis", {
+      provider: "fake",
+      questionLength: questionInput.questionText.length,
+      choicesCount: questionInput.choices.length,
+    });
+
+    const fingerprint = computeQuestionFingerprint(questionInput);
+    const correctAnswer =
+      (parseInt(fingerprint.slice(0, 8), 16) % questionInput.choices.length) +
+      1;
+    const correctChoiceText = questionInput.choices[correctAnswer - 1];
+    const relatedServices = Array.from(
+      new Set(
+        [questionInput.questionText, ...questionInput.choices].flatMap(
+          (text) => text.match(SERVICE_NAME_PATTERN) ?? []
+        )
+      )
+    );
+
+    const analysis: QuestionAnalysis = {
+      correctAnswer,
+      correctChoiceText,
+      explanation: `（フェイクの分析結果）選択肢${correctAnswer}「${correctChoiceText}」を正解としています。ANALYZER_PROVIDER を gemini または openai に設定すると実際の解説が生成されます。`,
+      relatedServices,
+      wellArchitectedCategories: ["reliability"],
+      choiceExplanations: questionInput.choices.map((choice, index) => ({
+        choiceNumber: index + 1,
+        choiceText: choice,
+        isCorrect: index + 1 === correctAnswer,
+        explanation:
+          index + 1 === correctAnswer
+            ? "（フェイク）正解の選択肢です。"
+            : "（フェイク）不正解の選択肢です。",
+      })),
+      architectureDiagram: undefined,
+      learningPoints: ["（フェイク）学習ポイントは生成されていません。"],
+      similarQuestionsHint: undefined,
+    };
+    const result =
+      options.language === "en"
+        ? { ...analysis, ...toFakeEnglish(analysis) }
+        : analysis;
+    options.onPartialText?.(JSON.stringify(result));
+    return result;
+  }
+
+  /**
+   * 翻訳元の各項目に翻訳先の言語の目印を付けて返す
+   */
+  async translateExplanation(
+    source: ExplanationTranslation,
+    language: ExplanationLanguage
+  ): Promise<ExplanationTranslation> {
+    logger.info("Starting explanation translation", {
+      provider: "fake",
+      from: source.language,
+      to: language,
+    });
+
+    const mark = (text: string) => `[${language}] ${text}`;
+    return {
+      language,
+      explanation: mark(source.explanation),
+      choiceExplanations: source.choiceExplanations.map((ce) => ({
+        choiceNumber: ce.choiceNumber,
+        explanation: mark(ce.explanation),
+      })),
+      learningPoints: source.learningPoints.map(mark),
+      similarQuestionsHint: source.similarQuestionsHint
+        ? mark(source.similarQuestionsHint)
+        : undefined,
+    };
+  }
+
+  /**
+   * 質問と正解を含む決定的な回答を返す
+   */
+  async answerMentorQuestion(
+    note: ExamQuestionNote,
+    question: string,
+    onPartialText?: (text: string) => void
+  ): Promise<string> {
+    logger.info("Starting mentor answer", {
+      provider: "fake",
+      questionLength: question.length,
+      historyLength: note.mentorThread?.length ?? 0,
+    });
+
+    const answer = `（フェイク）「${question}」への回答です。この問題の正解は「${note.correctChoiceText}」です。ANALYZER_PROVIDER に gemini または openai を設定すると、実際の回答を生成します。`;
+    onPartialText?.(answer);
+    return answer;
+  }
+}
+
+/**
+ * フェイクの分析結果の英語版の解説
+ */
+function toFakeEnglish(
+  analysis: QuestionAnalysis
+): Pick<
+  QuestionAnalysis,
+  "explanation" | "choiceExplanations" | "learningPoints"
+> {
+  const correctAnswer = analysis.correctAnswer as number;
+  return {
+    explanation: `(Fake analysis) Choice ${correctAnswer} "${analysis.correctChoiceText}" is treated as correct. Set ANALYZER_PROVIDER to gemini or openai to generate a real explanation.`,
+    choiceExplanations: analysis.choiceExplanations.map((ce) => ({
+      ...ce,
+      explanation: ce.isCorrect
+        ? "(Fake) This is the correct choice."
+        : "(Fake) This is an incorrect choice.",
+    })),
+    learningPoints: ["(Fake) No learning points were generated."],
+  };
+}
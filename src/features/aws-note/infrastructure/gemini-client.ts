@@ -1,191 +1,209 @@
 /**
  * Gemini 3 Pro API クライアント
- * 1. JSONモードによる安定化
+ * 1. 構造化出力（responseSchema）による安定化（未対応のモデルでは JSON モードにフォールバック）
  * 2. Mermaid構文エラー回避（ノードテキストの引用符強制）
  * 3. カテゴリの表記ゆれ吸収
  * 4. トークン制限（途中切れ）の回避
+ * 5. 一時的なエラー・解釈できない出力の再試行
+ * 6. ストリーミング生成による途中経過の通知
+ * 7. トークン使用量の記録
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  GoogleGenerativeAI,
+  type GenerationConfig,
+  type GenerativeModel,
+  type ResponseSchema,
+  type UsageMetadata,
+} from "@google/generative-ai";
 import type {
-  GeminiQuestionAnalysis,
+  QuestionAnalysis,
   ExamQuestionInput,
+  ExamQuestionNote,
 } from "../entities/types";
-import { z } from "zod";
+import type {
+  AnalyzeQuestionOptions,
+  QuestionAnalyzer,
+} from "../entities/question-analyzer";
+import type {
+  ExplanationLanguage,
+  ExplanationTranslation,
+} from "../entities/explanation-language";
 import { logger } from "./logger";
-import { GEMINI_API_MODEL } from "@/constants/gemini-model";
+import {
+  buildMentorPrompt,
+  buildQuestionAnalysisPrompt,
+  buildTranslationPrompt,
+} from "./analysis-prompt";
+import { getAnalysisPromptTemplate } from "./prompt-templates";
+import {
+  generateAnalysisWithRetry,
+  generateTextWithRetry,
+  generateTranslationWithRetry,
+} from "./analysis-retry";
+import {
+  EXPLANATION_TRANSLATION_RESPONSE_SCHEMA,
+  QUESTION_ANALYSIS_RESPONSE_SCHEMA,
+} from "./gemini-response-schema";
+import type { GenerationSettings } from "../entities/generation-settings";
+import type { UsageRecorder } from "../entities/token-usage";
+
+/**
+ * 構造化出力に対応していないことが分かったモデル
+ * 以降のリクエストでは最初から JSON モードで生成する（プロセス内で共有）
+ */
+const modelsWithoutResponseSchema = new Set<string>();
 
 /**
- * Gemini 3 Pro のレスポンススキーマ検証
+ * 構造化出力に対応していないモデルで responseSchema を指定した場合のエラーかどうか
  */
-const GeminiResponseSchema = z.object({
-  correctAnswer: z.union([
-    z.number().int().min(1).max(8),
-    z.array(z.number().int().min(1).max(8)),
-  ]),
-  correctChoiceText: z.string(),
-  explanation: z.string(),
-  relatedServices: z.array(z.string()),
-  wellArchitectedCategories: z.array(
-    z.enum([
-      "cost-optimization",
-      "performance-efficiency",
-      "reliability",
-      "security",
-      "operational-excellence",
-      "sustainability",
-    ])
-  ),
-  choiceExplanations: z.array(
-    z.object({
-      choiceNumber: z.number().int().min(1).max(8),
-      choiceText: z.string(),
-      isCorrect: z.boolean(),
-      explanation: z.string(),
-    })
-  ),
-  architectureDiagram: z.string().nullish(),
-  learningPoints: z.array(z.string()),
-  similarQuestionsHint: z.string().nullish(),
-});
-
-export class GeminiClient {
+function isResponseSchemaUnsupportedError(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    status === 400 &&
+    /response_?schema|JSON mode is not enabled|response_mime_type/i.test(
+      message
+    )
+  );
+}
+
+export class GeminiClient implements QuestionAnalyzer {
+  /** 使用するモデル名 */
+  readonly modelName: string;
+
+  /** 使用する生成設定 */
+  readonly generationSettings: GenerationSettings[];
+
   private genAI: GoogleGenerativeAI;
-  private model: ReturnType<GoogleGenerativeAI["getGenerativeModel"]>;
+  private generationConfig: GenerationConfig;
 
-  constructor(apiKey: string) {
+  /**
+   * @param apiKey - Gemini API キー
+   * @param settings - 検証済みの生成設定
+   * @param usageRecorder - 呼び出しごとのトークン使用量の記録先
+   */
+  constructor(
+    apiKey: string,
+    private settings: GenerationSettings,
+    private usageRecorder?: UsageRecorder
+  ) {
     if (!apiKey) {
       throw new Error("GEMINI_API_KEY is required");
     }
     this.genAI = new GoogleGenerativeAI(apiKey);
+    this.modelName = settings.model;
+    this.generationSettings = [settings];
 
-    this.model = this.genAI.getGenerativeModel({
-      model: GEMINI_API_MODEL,
-      generationConfig: {
-        temperature: 0.5, // 創造性を抑えてフォーマット遵守を優先
-        topP: 0.95,
-        topK: 40,
-        maxOutputTokens: 8192,
-        responseMimeType: "application/json", // JSONモード強制
-      },
-    });
+    this.generationConfig = {
+      temperature: settings.temperature,
+      topP: settings.topP,
+      topK: settings.topK,
+      maxOutputTokens: settings.maxOutputTokens,
+      responseMimeType: "application/json", // JSONモード強制
+    };
   }
 
   /**
    * 試験問題から詳細な解説を生成
    */
   async analyzeQuestion(
-    questionInput: ExamQuestionInput
-  ): Promise<GeminiQuestionAnalysis> {
+    questionInput: ExamQuestionInput,
+    options: AnalyzeQuestionOptions = {}
+  ): Promise<QuestionAnalysis> {
     logger.info("Starting question analysis", {
+      provider: "gemini",
+      model: this.modelName,
+      temperature: this.settings.temperature,
+      streaming: Boolean(options.onPartialText),
       questionLength: questionInput.questionText.length,
       choicesCount: questionInput.choices.length,
     });
 
-    const prompt = this.buildQuestionAnalysisPrompt(questionInput);
+    const prompt = buildQuestionAnalysisPrompt(
+      questionInput,
+      getAnalysisPromptTemplate(options.promptTemplateId),
+      options.language
+    );
 
     try {
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-
-      // JSONブロックの抽出（安全策）
-      let jsonText = text;
-      const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
-      if (jsonMatch) {
-        jsonText = jsonMatch[1];
-      } else {
-        // バッククォートのみの場合の対応
-        jsonText = text.replace(/^```\w*\s*/, "").replace(/\s*```$/, "");
-      }
+      return await generateAnalysisWithRetry(
+        questionInput,
+        prompt,
+        (currentPrompt) =>
+          this.generate(
+            currentPrompt,
+            QUESTION_ANALYSIS_RESPONSE_SCHEMA,
+            options.onPartialText
+          ),
+        { provider: "gemini", model: this.modelName }
+      );
+    } catch (error) {
+      logger.error("Gemini API request failed", error as Error);
+      throw error;
+    }
+  }
 
-      let parsed: unknown;
-      try {
-        parsed = JSON.parse(jsonText);
-
-        // 配列が返された場合は最初の要素を取得
-        if (Array.isArray(parsed)) {
-          if (parsed.length === 0) {
-            throw new Error("Gemini API returned an empty array");
-          }
-          logger.warn("Gemini API returned an array, using first element", {
-            arrayLength: parsed.length,
-          });
-          parsed = parsed[0];
-        }
+  /**
+   * 解説を別の言語に翻訳
+   */
+  async translateExplanation(
+    source: ExplanationTranslation,
+    language: ExplanationLanguage
+  ): Promise<ExplanationTranslation> {
+    logger.info("Starting explanation translation", {
+      provider: "gemini",
+      model: this.modelName,
+      from: source.language,
+      to: language,
+    });
 
-        // データのクリーンアップと正規化
-        if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
-          const obj = parsed as Record<string, unknown>;
-
-          // null プロパティを undefined に変換
-          if (obj.architectureDiagram === null)
-            obj.architectureDiagram = undefined;
-          if (obj.similarQuestionsHint === null)
-            obj.similarQuestionsHint = undefined;
-
-          // wellArchitectedCategories の値を正規化 (表記ゆれ対応)
-          if (
-            obj.wellArchitectedCategories &&
-            Array.isArray(obj.wellArchitectedCategories)
-          ) {
-            obj.wellArchitectedCategories = obj.wellArchitectedCategories.map(
-              (cat: unknown) => {
-                if (typeof cat !== "string") return cat;
-
-                // マッピング: 人間が読みやすい形式 → 小文字ハイフン形式
-                const mapping: Record<string, string> = {
-                  "Cost Optimization": "cost-optimization",
-                  "cost optimization": "cost-optimization",
-                  "Performance Efficiency": "performance-efficiency",
-                  "performance efficiency": "performance-efficiency",
-                  Reliability: "reliability",
-                  reliability: "reliability",
-                  Security: "security",
-                  security: "security",
-                  "Operational Excellence": "operational-excellence",
-                  "operational excellence": "operational-excellence",
-                  Sustainability: "sustainability",
-                  sustainability: "sustainability",
-                };
-
-                // マッピングになければ、スペースをハイフンに置換して小文字化
-                return mapping[cat] || cat.toLowerCase().replace(/\s+/g, "-");
-              }
-            );
-          }
-        }
-      } catch (parseError) {
-        logger.error("JSON parsing failed", parseError as Error, {
-          preview: jsonText.substring(0, 200),
-          endOfText: jsonText.substring(Math.max(0, jsonText.length - 200)),
-        });
-        throw new Error(
-          `Failed to parse JSON response: ${(parseError as Error).message}`
-        );
-      }
+    try {
+      return await generateTranslationWithRetry(
+        source,
+        language,
+        buildTranslationPrompt(source, language),
+        (currentPrompt) =>
+          this.generate(currentPrompt, EXPLANATION_TRANSLATION_RESPONSE_SCHEMA),
+        { provider: "gemini", model: this.modelName }
+      );
+    } catch (error) {
+      logger.error("Gemini API request failed", error as Error);
+      throw error;
+    }
+  }
 
-      // スキーマ検証
-      try {
-        const validated = GeminiResponseSchema.parse(parsed);
-
-        return {
-          ...validated,
-          architectureDiagram: validated.architectureDiagram ?? undefined,
-          similarQuestionsHint: validated.similarQuestionsHint ?? undefined,
-        };
-      } catch (validationError) {
-        if (validationError instanceof z.ZodError) {
-          logger.error("Schema validation failed", validationError, {
-            zodErrors: validationError.errors,
-            parsedData: parsed,
-          });
-          throw new Error(
-            `Schema validation failed: ${validationError.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")}`
-          );
-        }
-        throw validationError;
-      }
+  /**
+   * 保存した問題についてのフォローアップの質問に回答
+   * 回答は JSON ではなくプレーンテキストで生成する
+   */
+  async answerMentorQuestion(
+    note: ExamQuestionNote,
+    question: string,
+    onPartialText?: (text: string) => void
+  ): Promise<string> {
+    logger.info("Starting mentor answer", {
+      provider: "gemini",
+      model: this.modelName,
+      streaming: Boolean(onPartialText),
+      questionLength: question.length,
+      historyLength: note.mentorThread?.length ?? 0,
+    });
+
+    const model = this.genAI.getGenerativeModel({
+      model: this.modelName,
+      generationConfig: {
+        ...this.generationConfig,
+        responseMimeType: "text/plain",
+      },
+    });
+    try {
+      return await generateTextWithRetry(
+        buildMentorPrompt(note, question),
+        (currentPrompt) =>
+          this.generateText(model, currentPrompt, onPartialText),
+        { provider: "gemini", model: this.modelName }
+      );
     } catch (error) {
       logger.error("Gemini API request failed", error as Error);
       throw error;
@@ -193,44 +211,98 @@ export class GeminiClient {
   }
 
   /**
-   * プロンプト構築
+   * 構造化出力でモデルの出力テキストを取得
+   * モデルが responseSchema に対応していない場合は、JSON モードのみで生成し直す
+   * （出力はどちらも同じパーサーで検証する）
+   *
+   * @param responseSchema - 出力を制約するスキーマ
+   */
+  private async generate(
+    prompt: string,
+    responseSchema: ResponseSchema,
+    onPartialText?: (text: string) => void
+  ): Promise<string> {
+    if (!modelsWithoutResponseSchema.has(this.modelName)) {
+      try {
+        return await this.generateText(
+          this.getModel(responseSchema),
+          prompt,
+          onPartialText
+        );
+      } catch (error) {
+        if (!isResponseSchemaUnsupportedError(error)) {
+          throw error;
+        }
+        modelsWithoutResponseSchema.add(this.modelName);
+        logger.warn("Model does not support responseSchema, using JSON mode", {
+          model: this.modelName,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return this.generateText(this.getModel(), prompt, onPartialText);
+  }
+
+  /**
+   * 生成設定を適用したモデルを取得
+   *
+   * @param responseSchema - 出力を制約するスキーマ（省略時は JSON モードのみ）
+   */
+  private getModel(responseSchema?: ResponseSchema): GenerativeModel {
+    return this.genAI.getGenerativeModel({
+      model: this.modelName,
+      generationConfig: responseSchema
+        ? { ...this.generationConfig, responseSchema }
+        : this.generationConfig,
+    });
+  }
+
+  /**
+   * プロンプトを送信してモデルの出力テキストを取得
+   * onPartialText が指定された場合はストリーミングで受信しながら通知する
+   */
+  private async generateText(
+    model: GenerativeModel,
+    prompt: string,
+    onPartialText?: (text: string) => void
+  ): Promise<string> {
+    if (!onPartialText) {
+      const result = await model.generateContent(prompt);
+      const response = await result.response;
+      await this.recordUsage(response.usageMetadata);
+      return response.text();
+    }
+
+    const result = await model.generateContentStream(prompt);
+    let text = "";
+    for await (const chunk of result.stream) {
+      text += chunk.text();
+      onPartialText(text);
+    }
+    await this.recordUsage((await result.response).usageMetadata);
+    return text;
+  }
+
+  /**
+   * レスポンスのトークン使用量を記録
+   * 出力トークンは合計から入力を除いた数（思考トークンも出力として課金されるため）
+   * 記録に失敗しても生成結果は返す
    */
-  private buildQuestionAnalysisPrompt(
-    questionInput: ExamQuestionInput
-  ): string {
-    const choicesText = questionInput.choices
-      .map((choice, index) => `${index + 1}. ${choice}`)
-      .join("\n");
-
-    return `あなたは、AWSをほとんど触ったことがない初心者にも、直感的に技術を理解させるのが得意な「親切なAWSメンター」です。
-以下のSAA試験問題について、専門用語をできるだけ使わず、日常の事象（例：コンビニ、図書館、宅配便、家の鍵など）に例えて、直感的にわかる解説を作成してください。
-
-【問題文】
-${questionInput.questionText}
-
-【選択肢】
-${choicesText}
-
-以下のJSONスキーマに従って出力してください。
-**最優先事項: 初心者が「なるほど、イメージできた！」と思えるような、噛み砕いた平易な表現を徹底してください。**
-
-{
-  "correctAnswer": integer | integer[], // **重要: 正解が1つの場合は数値（例: 2）、複数の場合は配列（例: [2, 4]）で出力してください**
-  "correctChoiceText": string,
-  "explanation": string, // **重要: 500文字以内で、なぜそれが正解なのかを「日常の例え話」を交えて解説してください。難しいAWS用語は避けるか、カッコ書きで補足してください。**
-  "relatedServices": string[],
-  "wellArchitectedCategories": string[], // "cost-optimization", "performance-efficiency" 等
-  "choiceExplanations": [
-    {
-      "choiceNumber": integer,
-      "choiceText": string,
-      "isCorrect": boolean,
-      "explanation": string // **重要: 「機能が違うから」等の機械的な説明ではなく、「それを選ぶと、現場でどんな困ったことが起きるか」を初心者にわかる言葉で説明してください。**
+  private async recordUsage(metadata?: UsageMetadata): Promise<void> {
+    if (!this.usageRecorder || !metadata) {
+      return;
+    }
+    try {
+      await this.usageRecorder.recordUsage(this.modelName, {
+        inputTokens: metadata.promptTokenCount ?? 0,
+        outputTokens:
+          (metadata.totalTokenCount ?? 0) - (metadata.promptTokenCount ?? 0),
+      });
+    } catch (error) {
+      logger.warn("Failed to record token usage", {
+        model: this.modelName,
+        message: error instanceof Error ? error.message : String(error),
+      });
     }
-  ],
-  "architectureDiagram": string, // **重要: Mermaid.js形式の図解コード (graph TD/LR)。システム構成図であり、「どうデータが流れるか」や「誰が何をするか」がわかる概念図にしてください。5-15個くらいのノードにしてください。構文エラーを防ぐため、- 記号（"()", "[]", """", "''"）の厳禁。- AWSのサービスは必ず英語で書いてください。例: A["User"] --> B["Amazon S3 (倉庫)"]**
-  "learningPoints": string[], // 初心者が持ち帰るべき3つのポイント（専門用語ではなく、簡単な言葉で）
-  "similarQuestionsHint": string
-}`;
   }
 }
@@ -0,0 +1,96 @@
+/**
+ * Zod スキーマから Gemini の構造化出力のスキーマ（responseSchema）を生成
+ * 生成時にモデルの出力をスキーマで制約し、JSON の解析・スキーマ検証の失敗を減らす
+ * Gemini のスキーマは OpenAPI 3.0 の一部のみのため、表現できない制約（数値の範囲など）は Zod の検証に任せる
+ */
+
+import {
+  SchemaType,
+  type ResponseSchema,
+  type Schema,
+} from "@google/generative-ai";
+import { z } from "zod";
+import {
+  ExplanationTranslationSchema,
+  QuestionAnalysisSchema,
+} from "./analysis-response-parser";
+
+/**
+ * プロパティの出力順を指定できるスキーマ
+ * 指定しない場合 Gemini はプロパティをアルファベット順に出力するため、
+ * 解説（explanation）より先に正解を決めてしまい、ストリーミングの途中経過も遅れる
+ */
+type OrderedSchema = Schema & { propertyOrdering?: string[] };
+
+/**
+ * Zod スキーマを Gemini のスキーマに変換
+ * - optional / nullable: 必須から外し、nullable を付ける
+ * - 単一の値と配列の union（例: number | number[]）: 配列として表現する
+ *   （1要素の配列は整合性チェックで単一の値に正規化される）
+ *
+ * @throws 変換できない Zod の型が含まれる場合
+ */
+export function toGeminiSchema(schema: z.ZodTypeAny): OrderedSchema {
+  const converted = convert(schema);
+  return schema.description
+    ? { ...converted, description: schema.description }
+    : converted;
+}
+
+function convert(schema: z.ZodTypeAny): OrderedSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return { ...toGeminiSchema(schema.unwrap()), nullable: true };
+  }
+  if (schema instanceof z.ZodString) {
+    return { type: SchemaType.STRING };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? SchemaType.INTEGER : SchemaType.NUMBER };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: SchemaType.BOOLEAN };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: SchemaType.STRING, enum: [...schema.options] };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: SchemaType.ARRAY, items: toGeminiSchema(schema.element) };
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const keys = Object.keys(shape);
+    return {
+      type: SchemaType.OBJECT,
+      properties: Object.fromEntries(
+        keys.map((key) => [key, toGeminiSchema(shape[key])])
+      ),
+      required: keys.filter((key) => !shape[key].isOptional()),
+      propertyOrdering: keys,
+    };
+  }
+  if (schema instanceof z.ZodUnion) {
+    const options = schema.options as z.ZodTypeAny[];
+    const array = options.find(
+      (option): option is z.ZodArray<z.ZodTypeAny> =>
+        option instanceof z.ZodArray
+    );
+    if (array && options.length === 2) {
+      return convert(array);
+    }
+  }
+  throw new Error(
+    `Unsupported schema type for Gemini responseSchema: ${schema._def.typeName}`
+  );
+}
+
+/**
+ * 問題分析の構造化出力スキーマ
+ */
+export const QUESTION_ANALYSIS_RESPONSE_SCHEMA: ResponseSchema =
+  toGeminiSchema(QuestionAnalysisSchema);
+
+/**
+ * 翻訳の構造化出力スキーマ
+ */
+export const EXPLANATION_TRANSLATION_RESPONSE_SCHEMA: ResponseSchema =
+  toGeminiSchema(ExplanationTranslationSchema);
@@ -0,0 +1,89 @@
+/**
+ * 生成設定の検証と解決
+ * 環境変数のデフォルトにリクエストごとの上書きを重ね、zod で検証した設定を返す
+ */
+
+import { z } from "zod";
+import type {
+  GenerationSettings,
+  GenerationSettingsOverrides,
+} from "../entities/generation-settings";
+
+/**
+ * 環境変数・リクエストで指定しない場合の生成パラメータ
+ * 創造性を抑えてフォーマット遵守を優先する
+ */
+export const DEFAULT_GENERATION_PARAMETERS: Omit<GenerationSettings, "model"> =
+  {
+    temperature: 0.5,
+    topP: 0.95,
+    topK: 40,
+    maxOutputTokens: 8192,
+  };
+
+/**
+ * 生成設定のスキーマ
+ */
+export const GenerationSettingsSchema = z.object({
+  model: z.string().trim().min(1),
+  temperature: z.number().min(0).max(2),
+  topP: z.number().gt(0).max(1),
+  topK: z.number().int().min(1).max(500).optional(),
+  maxOutputTokens: z.number().int().min(256).max(65536),
+});
+
+/**
+ * リクエストごとの上書きのスキーマ
+ */
+export const GenerationSettingsOverridesSchema =
+  GenerationSettingsSchema.partial();
+
+/**
+ * 設定に上書きを重ねて検証
+ * 上書きで undefined を指定した項目は元の設定を使う
+ *
+ * @param base - 環境の設定（または多数決の各分析の元になる設定）
+ * @param overrides - 上書きする項目
+ * @throws {z.ZodError} 設定が不正な場合
+ */
+export function resolveGenerationSettings(
+  base: GenerationSettings,
+  overrides: GenerationSettingsOverrides = {}
+): GenerationSettings {
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  );
+  return GenerationSettingsSchema.parse({ ...base, ...defined });
+}
+
+/**
+ * 生成設定の配列を検証（Notion などから読み込んだ値の検証用）
+ *
+ * @returns 検証済みの設定（不正な要素は除外）
+ */
+export function parseGenerationSettingsList(
+  value: unknown
+): GenerationSettings[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.flatMap((item) => {
+    const result = GenerationSettingsSchema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+}
+
+/**
+ * 生成設定を1行のテキストに変換（表示・Notion 保存用）
+ *
+ * @example gemini-2.5-pro (temperature=0.5, topP=0.95, topK=40, maxOutputTokens=8192)
+ */
+export function formatGenerationSettings(settings: GenerationSettings): string {
+  const params = [
+    `temperature=${settings.temperature}`,
+    `topP=${settings.topP}`,
+    ...(settings.topK !== undefined ? [`topK=${settings.topK}`] : []),
+    `maxOutputTokens=${settings.maxOutputTokens}`,
+  ];
+  return `${settings.model} (${params.join(", ")})`;
+}
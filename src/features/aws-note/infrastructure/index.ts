@@ -1,10 +1,14 @@
 /**
  * インフラ層のエクスポート
- * 外部SDK（Gemini / Notion）への依存を集約
+ * 外部SDK（Gemini / OpenAI 互換 / Notion）およびローカルストレージへの依存を集約
  */
 
 export { GeminiClient } from "./gemini-client";
+export { OpenAICompatibleClient } from "./openai-compatible-client";
+export { FakeQuestionAnalyzer } from "./fake-question-analyzer";
+export { VotingQuestionAnalyzer } from "./voting-question-analyzer";
 export { NotionClient } from "./notion-client";
+export { LocalQuestionRepository } from "./local-question-repository";
 export { logger, Logger, LogLevel } from "./logger";
 export type { LogContext } from "./logger";
 export {
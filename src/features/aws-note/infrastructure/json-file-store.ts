@@ -0,0 +1,77 @@
+/**
+ * JSON ファイルを使ったストア
+ * ローカルの問題バンクや改訂履歴など、ディスク上の小さなデータを保持する
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { logger } from "./logger";
+
+/**
+ * ファイルパスごとの書き込みキュー
+ * Server Action ごとにインスタンスが生成されるため、モジュールスコープで直列化する
+ */
+const writeQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * ストアの設定
+ */
+export interface JsonFileStoreOptions<T> {
+  /** エラーメッセージ・ログに使う名前（例: "local question store"） */
+  name: string;
+  /** ファイルが存在しない場合の初期値 */
+  empty: () => T;
+  /** 読み込んだ JSON の検証と正規化（不正な場合は例外を投げる） */
+  parse: (data: unknown) => T;
+}
+
+export class JsonFileStore<T> {
+  readonly filePath: string;
+
+  constructor(
+    filePath: string,
+    private options: JsonFileStoreOptions<T>
+  ) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * ファイルを読み込み（存在しない場合は初期値）
+   */
+  async read(): Promise<T> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf-8");
+      return this.options.parse(JSON.parse(raw));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return this.options.empty();
+      }
+      logger.error(`Failed to read ${this.options.name}`, error as Error, {
+        filePath: this.filePath,
+      });
+      throw new Error(
+        `Failed to read ${this.options.name}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  /**
+   * データを読み込んで変更し、一時ファイル経由でアトミックに書き戻す
+   */
+  mutate<R>(update: (data: T) => R): Promise<R> {
+    const run = async () => {
+      const data = await this.read();
+      const result = update(data);
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf-8");
+      await fs.rename(tempPath, this.filePath);
+      return result;
+    };
+
+    const queue = writeQueues.get(this.filePath) ?? Promise.resolve();
+    const next = queue.then(run, run);
+    writeQueues.set(this.filePath, next.catch(() => undefined));
+    return next;
+  }
+}
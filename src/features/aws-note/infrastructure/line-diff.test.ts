@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { diffLinesSideBySide } from "./line-diff";
+
+describe("diffLinesSideBySide", () => {
+  it("同じテキストはすべて same になる", () => {
+    expect(diffLinesSideBySide("a\nb", "a\nb")).toEqual([
+      { type: "same", left: "a", right: "a" },
+      { type: "same", left: "b", right: "b" },
+    ]);
+  });
+
+  it("追加・削除した行を片側だけに並べる", () => {
+    expect(diffLinesSideBySide("a\nb\nc", "a\nc\nd")).toEqual([
+      { type: "same", left: "a", right: "a" },
+      { type: "removed", left: "b", right: undefined },
+      { type: "same", left: "c", right: "c" },
+      { type: "added", left: undefined, right: "d" },
+    ]);
+  });
+
+  it("同じ位置で書き換えた行は changed として対にする", () => {
+    expect(diffLinesSideBySide("a\nb\nc\nz", "a\nB\nC\nD\nz")).toEqual([
+      { type: "same", left: "a", right: "a" },
+      { type: "changed", left: "b", right: "B" },
+      { type: "changed", left: "c", right: "C" },
+      { type: "added", left: undefined, right: "D" },
+      { type: "same", left: "z", right: "z" },
+    ]);
+  });
+
+  it("空のテキストとの比較では空行1つを比較する", () => {
+    expect(diffLinesSideBySide("", "a")).toEqual([
+      { type: "changed", left: "", right: "a" },
+    ]);
+  });
+
+  it("左右の行を欠けずに含む", () => {
+    const before = "1\n2\n3\n4\n5\n6";
+    const after = "0\n2\n4\n3\n6\n7";
+    const rows = diffLinesSideBySide(before, after);
+
+    const left = rows.flatMap((row) =>
+      row.left === undefined ? [] : [row.left]
+    );
+    const right = rows.flatMap((row) =>
+      row.right === undefined ? [] : [row.right]
+    );
+    expect(left.join("\n")).toBe(before);
+    expect(right.join("\n")).toBe(after);
+    expect(rows.filter((row) => row.type === "same")).toHaveLength(3);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * 行単位のテキスト差分
+ * 改訂履歴の左右比較表示に使用する
+ */
+
+/**
+ * 左右比較の1行
+ * - same: 両方に同じ行がある
+ * - removed: 左（古い方）にのみある
+ * - added: 右（新しい方）にのみある
+ * - changed: 同じ位置の行が書き換えられている
+ */
+export interface SideBySideDiffRow {
+  type: "same" | "removed" | "added" | "changed";
+  left?: string;
+  right?: string;
+}
+
+/**
+ * 2つのテキストを行単位で比較し、左右に並べた行の一覧を返す
+ * 最長共通部分列（LCS）で一致する行を求め、連続する削除・追加は changed として対にする
+ */
+export function diffLinesSideBySide(
+  before: string,
+  after: string
+): SideBySideDiffRow[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // lcs[i][j]: a[i..] と b[j..] の最長共通部分列の長さ
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: SideBySideDiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    const length = Math.max(removed.length, added.length);
+    for (let k = 0; k < length; k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({
+        type:
+          left !== undefined && right !== undefined
+            ? "changed"
+            : left !== undefined
+              ? "removed"
+              : "added",
+        left,
+        right,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ type: "same", left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (
+      j >= b.length ||
+      (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -0,0 +1,163 @@
+/**
+ * ローカルファイル（JSON）を使った問題分析結果のキャッシュ
+ * 問題の保存先に関わらず、サーバーのディスク上に有効期限付きで保持する
+ */
+
+import { createHash } from "crypto";
+import type { QuestionAnalysis } from "../entities/types";
+import type {
+  AnalysisCache,
+  AnalysisCacheKey,
+} from "../entities/analysis-cache";
+import { formatGenerationSettings } from "./generation-settings";
+import { JsonFileStore } from "./json-file-store";
+import { normalizeQuestionText } from "./question-fingerprint";
+import { logger } from "./logger";
+
+/**
+ * 保存ファイルのフォーマットバージョン
+ */
+const STORE_FORMAT_VERSION = 1;
+
+/**
+ * 保持するエントリの最大数（古いものから削除）
+ */
+const MAX_CACHE_ENTRIES = 500;
+
+/**
+ * キャッシュエントリ
+ */
+interface AnalysisCacheEntry {
+  model: string;
+  promptVersion: string;
+  cachedAt: string;
+  analysis: QuestionAnalysis;
+}
+
+/**
+ * 保存ファイルの構造（キーのハッシュごと）
+ */
+interface LocalAnalysisCacheStore {
+  version: number;
+  entries: Record<string, AnalysisCacheEntry>;
+}
+
+/**
+ * 保存ファイルの内容を検証
+ */
+function parseLocalAnalysisCacheStore(data: unknown): LocalAnalysisCacheStore {
+  const parsed = data as Partial<LocalAnalysisCacheStore>;
+  if (!parsed?.entries || typeof parsed.entries !== "object") {
+    throw new Error("entries field is missing or invalid");
+  }
+  return {
+    version: parsed.version ?? STORE_FORMAT_VERSION,
+    entries: parsed.entries,
+  };
+}
+
+/**
+ * キャッシュキーのハッシュを生成
+ * 正解は選択肢の番号で返されるため、フィンガープリントと異なり選択肢の並び順も区別する
+ */
+export function computeAnalysisCacheKey(key: AnalysisCacheKey): string {
+  const payload = JSON.stringify([
+    normalizeQuestionText(key.input.questionText),
+    key.input.choices
+      .map(normalizeQuestionText)
+      .filter((choice) => choice.length > 0),
+    key.model,
+    key.promptVersion,
+    key.language,
+    key.generationSettings.map(formatGenerationSettings),
+  ]);
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+export class LocalAnalysisCache implements AnalysisCache {
+  private store: JsonFileStore<LocalAnalysisCacheStore>;
+
+  /**
+   * @param filePath - 保存先JSONファイル
+   * @param ttlMs - 有効期限（ミリ秒）
+   */
+  constructor(
+    filePath: string,
+    private ttlMs: number
+  ) {
+    if (!filePath) {
+      throw new Error("ANALYSIS_CACHE_PATH is required");
+    }
+    this.store = new JsonFileStore(filePath, {
+      name: "analysis cache",
+      empty: () => ({ version: STORE_FORMAT_VERSION, entries: {} }),
+      parse: parseLocalAnalysisCacheStore,
+    });
+  }
+
+  /**
+   * エントリが有効期限内かどうか
+   */
+  private isFresh(entry: AnalysisCacheEntry, now = Date.now()): boolean {
+    return now - new Date(entry.cachedAt).getTime() < this.ttlMs;
+  }
+
+  /**
+   * キャッシュ済みの分析結果を取得
+   */
+  async get(key: AnalysisCacheKey): Promise<QuestionAnalysis | null> {
+    const hash = computeAnalysisCacheKey(key);
+    const store = await this.store.read();
+    const entry = store.entries[hash];
+
+    if (!entry) {
+      logger.info("Analysis cache miss", {
+        key: hash.substring(0, 12),
+        model: key.model,
+        promptVersion: key.promptVersion,
+      });
+      return null;
+    }
+    if (!this.isFresh(entry)) {
+      logger.info("Analysis cache miss (expired)", {
+        key: hash.substring(0, 12),
+        cachedAt: entry.cachedAt,
+      });
+      return null;
+    }
+
+    logger.info("Analysis cache hit", {
+      key: hash.substring(0, 12),
+      model: entry.model,
+      promptVersion: entry.promptVersion,
+      cachedAt: entry.cachedAt,
+    });
+    return entry.analysis;
+  }
+
+  /**
+   * 分析結果を保存（有効期限切れのエントリはあわせて削除）
+   */
+  async set(key: AnalysisCacheKey, analysis: QuestionAnalysis): Promise<void> {
+    const hash = computeAnalysisCacheKey(key);
+    const now = Date.now();
+
+    await this.store.mutate((store) => {
+      const fresh = Object.entries(store.entries)
+        .filter(
+          ([entryHash, entry]) => entryHash !== hash && this.isFresh(entry, now)
+        )
+        .sort(([, a], [, b]) => a.cachedAt.localeCompare(b.cachedAt))
+        .slice(-(MAX_CACHE_ENTRIES - 1));
+      store.entries = Object.fromEntries(fresh);
+      store.entries[hash] = {
+        model: key.model,
+        promptVersion: key.promptVersion,
+        cachedAt: new Date(now).toISOString(),
+        analysis,
+      };
+    });
+
+    logger.debug("Analysis cached", { key: hash.substring(0, 12) });
+  }
+}
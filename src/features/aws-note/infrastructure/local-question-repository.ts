@@ -0,0 +1,231 @@
+/**
+ * ローカルファイル（JSON）を使った問題リポジトリ
+ * Notionワークスペースなしで問題バンクをディスク上に保持する
+ */
+
+import { randomUUID } from "crypto";
+import type {
+  ExamQuestionInput,
+  ExamQuestionNote,
+} from "../entities/types";
+import {
+  DEFAULT_QUESTION_PAGE_SIZE,
+  MAX_QUESTION_PAGE_SIZE,
+} from "../entities/question-repository";
+import type {
+  QuestionFacets,
+  QuestionQuery,
+  QuestionQueryResult,
+  QuestionRepository,
+} from "../entities/question-repository";
+import { logger } from "./logger";
+import { JsonFileStore } from "./json-file-store";
+import {
+  computeQuestionFingerprint,
+  normalizeQuestionText,
+} from "./question-fingerprint";
+
+/**
+ * 保存ファイルのフォーマットバージョン
+ */
+const STORE_FORMAT_VERSION = 1;
+
+/**
+ * 保存ファイルの構造
+ */
+interface LocalQuestionStore {
+  version: number;
+  questions: ExamQuestionNote[];
+}
+
+/**
+ * 保存ファイルの内容を検証
+ */
+function parseLocalQuestionStore(data: unknown): LocalQuestionStore {
+  const parsed = data as Partial<LocalQuestionStore>;
+  if (!Array.isArray(parsed?.questions)) {
+    throw new Error("questions field is missing or invalid");
+  }
+  return {
+    version: parsed.version ?? STORE_FORMAT_VERSION,
+    questions: parsed.questions,
+  };
+}
+
+export class LocalQuestionRepository implements QuestionRepository {
+  private store: JsonFileStore<LocalQuestionStore>;
+
+  constructor(filePath: string) {
+    if (!filePath) {
+      throw new Error("LOCAL_QUESTION_STORE_PATH is required");
+    }
+    this.store = new JsonFileStore(filePath, {
+      name: "local question store",
+      empty: () => ({ version: STORE_FORMAT_VERSION, questions: [] }),
+      parse: parseLocalQuestionStore,
+    });
+  }
+
+  /**
+   * 試験問題ノートをローカルファイルに保存（既存の場合は更新）
+   */
+  async upsertQuestionNote(note: ExamQuestionNote): Promise<string> {
+    logger.info("Starting local upsert operation", {
+      questionTextLength: note.questionText.length,
+      choicesCount: note.choices.length,
+    });
+
+    const fingerprint = computeQuestionFingerprint(note);
+
+    return this.mutate((store) => {
+      const now = new Date().toISOString();
+      const index = store.questions.findIndex(
+        (q) =>
+          (note.id && q.id === note.id) ||
+          computeQuestionFingerprint(q) === fingerprint
+      );
+
+      if (index >= 0) {
+        const existing = store.questions[index];
+        const id = existing.id ?? randomUUID();
+        store.questions[index] = {
+          ...note,
+          id,
+          createdAt: existing.createdAt ?? now,
+          updatedAt: now,
+        };
+        logger.info("Local question updated successfully", { id });
+        return id;
+      }
+
+      const id = note.id ?? randomUUID();
+      store.questions.push({ ...note, id, createdAt: now, updatedAt: now });
+      logger.info("Local question created successfully", { id });
+      return id;
+    });
+  }
+
+  /**
+   * IDを指定して問題を取得
+   */
+  async getQuestion(id: string): Promise<ExamQuestionNote | null> {
+    const store = await this.readStore();
+    return store.questions.find((q) => q.id === id) ?? null;
+  }
+
+  /**
+   * 問題文と選択肢のフィンガープリントが一致する問題を取得
+   */
+  async findQuestionByContent(
+    input: ExamQuestionInput
+  ): Promise<ExamQuestionNote | null> {
+    const fingerprint = computeQuestionFingerprint(input);
+    const store = await this.readStore();
+    return (
+      store.questions.find(
+        (q) => computeQuestionFingerprint(q) === fingerprint
+      ) ?? null
+    );
+  }
+
+  /**
+   * ローカルファイルからすべての問題を取得
+   */
+  async getAllQuestions(): Promise<ExamQuestionNote[]> {
+    logger.info("Fetching all questions from local store", {
+      filePath: this.store.filePath,
+    });
+    const store = await this.readStore();
+    logger.info("Successfully fetched all questions", {
+      count: store.questions.length,
+    });
+    return store.questions;
+  }
+
+  /**
+   * 条件に一致する問題をページ単位で取得（カーソルは先頭からのオフセット）
+   */
+  async queryQuestions(query: QuestionQuery): Promise<QuestionQueryResult> {
+    const store = await this.readStore();
+    const search = query.search ? normalizeQuestionText(query.search) : "";
+
+    const matched = store.questions.filter((q) => {
+      if (
+        query.services?.length &&
+        !query.services.some((service) => q.relatedServices.includes(service))
+      ) {
+        return false;
+      }
+      if (
+        query.pillars?.length &&
+        !query.pillars.some((pillar) =>
+          q.wellArchitectedCategories.includes(pillar)
+        )
+      ) {
+        return false;
+      }
+      if (search) {
+        const haystack = normalizeQuestionText(
+          [q.questionText, q.explanation, ...q.choices].join(" ")
+        );
+        return haystack.includes(search);
+      }
+      return true;
+    });
+
+    const pageSize = Math.min(
+      query.pageSize ?? DEFAULT_QUESTION_PAGE_SIZE,
+      MAX_QUESTION_PAGE_SIZE
+    );
+    const offset = query.cursor ? parseInt(query.cursor, 10) || 0 : 0;
+    const end = offset + pageSize;
+
+    return {
+      questions: matched.slice(offset, end),
+      nextCursor: end < matched.length ? String(end) : null,
+    };
+  }
+
+  /**
+   * 保存済みの問題から関連サービス・柱の一覧を集計
+   */
+  async getQuestionFacets(): Promise<QuestionFacets> {
+    const store = await this.readStore();
+    return {
+      services: Array.from(
+        new Set(store.questions.flatMap((q) => q.relatedServices))
+      ).sort(),
+      pillars: Array.from(
+        new Set(store.questions.flatMap((q) => q.wellArchitectedCategories))
+      ).sort(),
+    };
+  }
+
+  /**
+   * 問題を削除
+   */
+  async deleteQuestion(id: string): Promise<void> {
+    await this.mutate((store) => {
+      const before = store.questions.length;
+      store.questions = store.questions.filter((q) => q.id !== id);
+      if (store.questions.length === before) {
+        throw new Error(`Question not found: ${id}`);
+      }
+      logger.info("Local question deleted successfully", { id });
+    });
+  }
+
+  /**
+   * 保存ファイルを読み込み（存在しない場合は空のストア）
+   */
+  private readStore(): Promise<LocalQuestionStore> {
+    return this.store.read();
+  }
+
+  /**
+   * ストアを読み込んで変更し、アトミックに書き戻す
+   */
+  private mutate<T>(update: (store: LocalQuestionStore) => T): Promise<T> {
+    return this.store.mutate(update);
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * ローカルファイル（JSON）を使った改訂履歴リポジトリ
+ * 問題の保存先（Notion / ローカル）に関わらず、改訂はサーバーのディスク上に保持する
+ */
+
+import { randomUUID } from "crypto";
+import type {
+  NewQuestionRevision,
+  QuestionRevision,
+  QuestionRevisionRepository,
+} from "../entities/question-revision";
+import { JsonFileStore } from "./json-file-store";
+import { logger } from "./logger";
+
+/**
+ * 保存ファイルのフォーマットバージョン
+ */
+const STORE_FORMAT_VERSION = 1;
+
+/**
+ * ノートごとに保持する改訂の最大数（古いものから削除）
+ */
+const MAX_REVISIONS_PER_NOTE = 50;
+
+/**
+ * 保存ファイルの構造（ノートIDごとに古い順）
+ */
+interface LocalRevisionStore {
+  version: number;
+  revisions: Record<string, QuestionRevision[]>;
+}
+
+/**
+ * 保存ファイルの内容を検証
+ */
+function parseLocalRevisionStore(data: unknown): LocalRevisionStore {
+  const parsed = data as Partial<LocalRevisionStore>;
+  if (!parsed?.revisions || typeof parsed.revisions !== "object") {
+    throw new Error("revisions field is missing or invalid");
+  }
+  return {
+    version: parsed.version ?? STORE_FORMAT_VERSION,
+    revisions: parsed.revisions,
+  };
+}
+
+export class LocalRevisionRepository implements QuestionRevisionRepository {
+  private store: JsonFileStore<LocalRevisionStore>;
+
+  constructor(filePath: string) {
+    if (!filePath) {
+      throw new Error("REVISION_STORE_PATH is required");
+    }
+    this.store = new JsonFileStore(filePath, {
+      name: "revision store",
+      empty: () => ({ version: STORE_FORMAT_VERSION, revisions: {} }),
+      parse: parseLocalRevisionStore,
+    });
+  }
+
+  /**
+   * 改訂を記録
+   */
+  async addRevision(revision: NewQuestionRevision): Promise<QuestionRevision> {
+    const { id, createdAt, updatedAt, ...note } = revision.note;
+    const saved: QuestionRevision = {
+      ...revision,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      note,
+    };
+
+    await this.store.mutate((store) => {
+      const revisions = [...(store.revisions[revision.noteId] ?? []), saved];
+      store.revisions[revision.noteId] = revisions.slice(
+        -MAX_REVISIONS_PER_NOTE
+      );
+    });
+
+    logger.info("Question revision recorded", {
+      noteId: saved.noteId,
+      revisionId: saved.id,
+      source: saved.source,
+    });
+    return saved;
+  }
+
+  /**
+   * ノートの改訂を新しい順に取得
+   */
+  async getRevisions(noteId: string): Promise<QuestionRevision[]> {
+    const store = await this.store.read();
+    return [...(store.revisions[noteId] ?? [])].reverse();
+  }
+
+  /**
+   * 改訂を取得
+   */
+  async getRevision(
+    noteId: string,
+    revisionId: string
+  ): Promise<QuestionRevision | null> {
+    const store = await this.store.read();
+    return (
+      store.revisions[noteId]?.find((revision) => revision.id === revisionId) ??
+      null
+    );
+  }
+}
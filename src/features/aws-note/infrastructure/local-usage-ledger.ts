@@ -0,0 +1,116 @@
+/**
+ * ローカルファイル（JSON）を使ったトークン使用量の台帳
+ * 呼び出しごとの使用量を推定コストに換算し、日別・モデル別の合計として保持する
+ */
+
+import type {
+  DailyModelUsage,
+  ModelPriceTable,
+  TokenUsage,
+  UsageLedger,
+  UsageTotals,
+} from "../entities/token-usage";
+import { JsonFileStore } from "./json-file-store";
+import { logger } from "./logger";
+import { estimateCost, findModelPrice } from "./model-prices";
+import { toUsageDate } from "./usage-budget";
+
+/**
+ * 保存ファイルのフォーマットバージョン
+ */
+const STORE_FORMAT_VERSION = 1;
+
+/**
+ * 保存ファイルの構造（日付 → モデル名 → 合計）
+ */
+interface LocalUsageStore {
+  version: number;
+  days: Record<string, Record<string, UsageTotals>>;
+}
+
+/**
+ * 保存ファイルの内容を検証
+ */
+function parseLocalUsageStore(data: unknown): LocalUsageStore {
+  const parsed = data as Partial<LocalUsageStore>;
+  if (!parsed?.days || typeof parsed.days !== "object") {
+    throw new Error("days field is missing or invalid");
+  }
+  return {
+    version: parsed.version ?? STORE_FORMAT_VERSION,
+    days: parsed.days,
+  };
+}
+
+export class LocalUsageLedger implements UsageLedger {
+  private store: JsonFileStore<LocalUsageStore>;
+
+  /**
+   * @param filePath - 保存先JSONファイル
+   * @param prices - 推定コストの計算に使う料金表
+   */
+  constructor(
+    filePath: string,
+    private prices: ModelPriceTable
+  ) {
+    if (!filePath) {
+      throw new Error("USAGE_LEDGER_PATH is required");
+    }
+    this.store = new JsonFileStore(filePath, {
+      name: "usage ledger",
+      empty: () => ({ version: STORE_FORMAT_VERSION, days: {} }),
+      parse: parseLocalUsageStore,
+    });
+  }
+
+  /**
+   * 1回の呼び出しの使用量を今日の合計に加算
+   */
+  async recordUsage(model: string, usage: TokenUsage): Promise<void> {
+    const price = findModelPrice(this.prices, model);
+    if (!price) {
+      logger.warn("No price configured for model, cost is not estimated", {
+        model,
+      });
+    }
+    const cost = price ? estimateCost(usage, price) : 0;
+    const date = toUsageDate(new Date());
+
+    await this.store.mutate((store) => {
+      const day = (store.days[date] ??= {});
+      const totals = day[model] ?? {
+        requests: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        estimatedCostUsd: 0,
+      };
+      day[model] = {
+        requests: totals.requests + 1,
+        inputTokens: totals.inputTokens + usage.inputTokens,
+        outputTokens: totals.outputTokens + usage.outputTokens,
+        estimatedCostUsd: totals.estimatedCostUsd + cost,
+      };
+    });
+
+    logger.info("Token usage recorded", {
+      model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      estimatedCostUsd: cost,
+    });
+  }
+
+  /**
+   * 日別・モデル別の使用量を取得（新しい日付順、同じ日はモデル名順）
+   */
+  async getDailyUsage(): Promise<DailyModelUsage[]> {
+    const store = await this.store.read();
+    return Object.entries(store.days)
+      .sort(([a], [b]) => b.localeCompare(a))
+      .flatMap(([date, models]) =>
+        Object.entries(models)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([model, totals]) => ({ date, model, ...totals }))
+      );
+  }
+}
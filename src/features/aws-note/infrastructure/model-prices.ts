@@ -0,0 +1,87 @@
+/**
+ * モデルの料金表
+ * デフォルトの料金に、環境変数（MODEL_PRICES）で指定した料金を上書きして使う
+ */
+
+import { z } from "zod";
+import type {
+  ModelPrice,
+  ModelPriceTable,
+  TokenUsage,
+} from "../entities/token-usage";
+
+/**
+ * デフォルトの料金（USD / 100万トークン、標準の入力長での公開価格）
+ * 料金が改定された場合や他のモデルを使う場合は MODEL_PRICES で上書きする
+ */
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = {
+  "gemini-3-pro-preview": { inputPerMillion: 2, outputPerMillion: 12 },
+  "gemini-3-flash-preview": { inputPerMillion: 0.5, outputPerMillion: 3 },
+  "gemini-2.5-pro": { inputPerMillion: 1.25, outputPerMillion: 10 },
+  "gemini-2.5-flash": { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  "gemini-2.5-flash-lite": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  fake: { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+/**
+ * MODEL_PRICES の形式
+ * 例: {"gemini-2.5-pro": {"inputPerMillion": 1.25, "outputPerMillion": 10}}
+ */
+const ModelPriceTableSchema = z.record(
+  z.string().min(1),
+  z.object({
+    inputPerMillion: z.number().min(0),
+    outputPerMillion: z.number().min(0),
+  })
+);
+
+/**
+ * 上書きする料金（JSON）を検証し、デフォルトの料金表と合わせる
+ *
+ * @param json - MODEL_PRICES の値（未設定の場合はデフォルトの料金表）
+ * @throws JSON として解釈できない、または形式が不正な場合
+ */
+export function parseModelPriceTable(
+  json: string | undefined
+): ModelPriceTable {
+  if (!json) {
+    return DEFAULT_MODEL_PRICES;
+  }
+  return {
+    ...DEFAULT_MODEL_PRICES,
+    ...ModelPriceTableSchema.parse(JSON.parse(json)),
+  };
+}
+
+/**
+ * モデルの料金を料金表から探す
+ * 完全一致がない場合は、最も長く前方一致するモデル名の料金を使う
+ * （例: gemini-2.5-pro の料金を gemini-2.5-pro-preview-06-05 にも適用する）
+ *
+ * @returns 料金（料金表にない場合は undefined）
+ */
+export function findModelPrice(
+  table: ModelPriceTable,
+  model: string
+): ModelPrice | undefined {
+  if (table[model]) {
+    return table[model];
+  }
+  const prefix = Object.keys(table)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+/**
+ * 使用量から推定コスト（USD）を計算
+ */
+export function estimateCost(usage: TokenUsage, price: ModelPrice): number {
+  return (
+    (usage.inputTokens * price.inputPerMillion +
+      usage.outputTokens * price.outputPerMillion) /
+    1_000_000
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * 問題ノートの解説の言語の判定と切り替え
+ * ノート本体と翻訳のどちらがどの言語かを判定し、表示・翻訳に使う言語の解説を取り出す
+ */
+
+import type { ExamQuestionNote } from "../entities/types";
+import {
+  DEFAULT_OUTPUT_LANGUAGE,
+  type ExplanationLanguage,
+  type ExplanationTranslation,
+} from "../entities/explanation-language";
+
+/**
+ * もう一方の言語
+ */
+export function getOtherLanguage(
+  language: ExplanationLanguage
+): ExplanationLanguage {
+  return language === "ja" ? "en" : "ja";
+}
+
+/**
+ * ノート本体（explanation などのフィールド）の言語
+ * 両方の言語を持つノートでは、翻訳ではない方の言語
+ */
+export function getPrimaryLanguage(note: ExamQuestionNote): ExplanationLanguage {
+  const outputLanguage = note.outputLanguage ?? DEFAULT_OUTPUT_LANGUAGE;
+  if (outputLanguage !== "bilingual") {
+    return outputLanguage;
+  }
+  return note.translation ? getOtherLanguage(note.translation.language) : "ja";
+}
+
+/**
+ * ノートが解説を持っている言語
+ */
+export function getNoteLanguages(
+  note: ExamQuestionNote
+): ExplanationLanguage[] {
+  const primary = getPrimaryLanguage(note);
+  return note.translation && note.translation.language !== primary
+    ? [primary, note.translation.language]
+    : [primary];
+}
+
+/**
+ * ノート本体の解説を言語ごとの内容として取り出す（翻訳の元にする）
+ */
+export function getPrimaryExplanation(
+  note: ExamQuestionNote
+): ExplanationTranslation {
+  return {
+    language: getPrimaryLanguage(note),
+    explanation: note.explanation,
+    choiceExplanations: note.choiceExplanations.map((ce) => ({
+      choiceNumber: ce.choiceNumber,
+      explanation: ce.explanation,
+    })),
+    learningPoints: note.learningPoints,
+    similarQuestionsHint: note.similarQuestionsHint,
+  };
+}
+
+/**
+ * 指定した言語の解説で表示するノートを作成
+ *
+ * @returns 解説を差し替えたノート（その言語の解説がない場合は null）
+ */
+export function localizeNote(
+  note: ExamQuestionNote,
+  language: ExplanationLanguage
+): ExamQuestionNote | null {
+  if (getPrimaryLanguage(note) === language) {
+    return note;
+  }
+  const translation = note.translation;
+  if (translation?.language !== language) {
+    return null;
+  }
+
+  return {
+    ...note,
+    explanation: translation.explanation,
+    choiceExplanations: note.choiceExplanations.map((ce) => ({
+      ...ce,
+      explanation:
+        translation.choiceExplanations.find(
+          (t) => t.choiceNumber === ce.choiceNumber
+        )?.explanation ?? ce.explanation,
+    })),
+    learningPoints: translation.learningPoints,
+    similarQuestionsHint: translation.similarQuestionsHint,
+  };
+}
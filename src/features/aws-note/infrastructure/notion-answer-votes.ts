@@ -0,0 +1,68 @@
+/**
+ * 正解の信頼度と Notion プロパティの相互変換
+ * 得票の内訳は Notion 上でも読めるよう、1行に1件のテキストとして保存する
+ */
+
+import type {
+  AnswerConfidence,
+  AnswerVote,
+} from "../entities/answer-confidence";
+import { formatAnswerVote } from "./answer-confidence-format";
+
+const VOTE_LINE_PATTERN = /^選択肢([\d,]+):\s*(\d+)票$/;
+const RUNS_LINE_PATTERN = /^実行回数:\s*(\d+)$/;
+
+/**
+ * 得票の内訳を "Answer Votes" プロパティのテキストに変換
+ *
+ * @example
+ * 選択肢2: 2票
+ * 選択肢1,3: 1票
+ * 実行回数: 3
+ */
+export function formatAnswerVotesProperty(
+  confidence: AnswerConfidence
+): string {
+  return [
+    ...confidence.votes.map(formatAnswerVote),
+    `実行回数: ${confidence.runs}`,
+  ].join("\n");
+}
+
+/**
+ * "Answer Confidence" / "Answer Votes" プロパティから信頼度を復元
+ *
+ * @returns 信頼度（多数決モードで生成していないページは undefined）
+ */
+export function parseAnswerConfidence(
+  score: number | null | undefined,
+  votesText: string
+): AnswerConfidence | undefined {
+  if (typeof score !== "number") {
+    return undefined;
+  }
+
+  const votes: AnswerVote[] = [];
+  let runs = 0;
+  for (const line of votesText.split("\n").map((l) => l.trim())) {
+    const vote = VOTE_LINE_PATTERN.exec(line);
+    if (vote) {
+      const answers = vote[1].split(",").map(Number);
+      votes.push({
+        answer: answers.length === 1 ? answers[0] : answers,
+        count: Number(vote[2]),
+      });
+      continue;
+    }
+    const runsLine = RUNS_LINE_PATTERN.exec(line);
+    if (runsLine) {
+      runs = Number(runsLine[1]);
+    }
+  }
+
+  return {
+    score,
+    votes,
+    runs: runs || votes.reduce((sum, vote) => sum + vote.count, 0),
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * 問題ノートを Notion ページ本文のブロックに変換
+ * プロパティだけでは読みにくい解説を、見出し・リスト・トグル・コードブロックで構造化する
+ */
+
+import type { BlockObjectRequest } from "@notionhq/client/build/src/api-endpoints";
+import type { ExamQuestionNote } from "../entities/types";
+import { OUTPUT_LANGUAGE_LABELS } from "../entities/explanation-language";
+import { formatAnswerVotes } from "./answer-confidence-format";
+import { toRichText } from "./notion-rich-text";
+
+/**
+ * blocks.children.append 1回あたりの最大ブロック数（Notion APIの制限）
+ */
+export const NOTION_APPEND_BLOCKS_LIMIT = 100;
+
+/**
+ * 見出しブロック
+ */
+function heading(text: string): BlockObjectRequest {
+  return { type: "heading_2", heading_2: { rich_text: toRichText(text) } };
+}
+
+/**
+ * 段落ブロック
+ */
+function paragraph(text: string): BlockObjectRequest {
+  return { type: "paragraph", paragraph: { rich_text: toRichText(text) } };
+}
+
+/**
+ * Mermaid コードブロック
+ */
+function mermaidCode(code: string): BlockObjectRequest {
+  return {
+    type: "code",
+    code: { language: "mermaid", rich_text: toRichText(code) },
+  };
+}
+
+/**
+ * 解説文を段落ブロックに変換
+ * 解説内に ```mermaid ブロックが含まれる場合はコードブロックとして分離する
+ */
+function explanationBlocks(explanation: string): BlockObjectRequest[] {
+  const blocks: BlockObjectRequest[] = [];
+  const pattern = /```mermaid\s*([\s\S]*?)\s*```/g;
+  let lastIndex = 0;
+
+  for (const match of explanation.matchAll(pattern)) {
+    const before = explanation.substring(lastIndex, match.index).trim();
+    if (before) blocks.push(paragraph(before));
+    blocks.push(mermaidCode(match[1].trim()));
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+
+  const rest = explanation.substring(lastIndex).trim();
+  if (rest) blocks.push(paragraph(rest));
+
+  return blocks;
+}
+
+/**
+ * 問題ノートをページ本文のブロック配列に変換
+ */
+export function buildNoteBlocks(note: ExamQuestionNote): BlockObjectRequest[] {
+  const correctAnswers = Array.isArray(note.correctAnswer)
+    ? note.correctAnswer
+    : [note.correctAnswer];
+
+  const blocks: BlockObjectRequest[] = [
+    heading("問題文"),
+    paragraph(note.questionText),
+    heading("選択肢"),
+    ...note.choices.map(
+      (choice): BlockObjectRequest => ({
+        type: "numbered_list_item",
+        numbered_list_item: { rich_text: toRichText(choice) },
+      })
+    ),
+    heading("正解"),
+    paragraph(`${correctAnswers.join(", ")}. ${note.correctChoiceText}`),
+  ];
+
+  if (note.answerConfidence) {
+    blocks.push(
+      paragraph(
+        `信頼度: ${Math.round(note.answerConfidence.score * 100)}%（${formatAnswerVotes(note.answerConfidence)}）`
+      )
+    );
+  }
+
+  if (note.analysisWarnings?.length) {
+    blocks.push({
+      type: "callout",
+      callout: {
+        icon: { type: "emoji", emoji: "⚠️" },
+        rich_text: toRichText(note.analysisWarnings.join("\n")),
+      },
+    });
+  }
+
+  blocks.push(heading("解説"), ...explanationBlocks(note.explanation));
+
+  if (note.choiceExplanations.length > 0) {
+    blocks.push(heading("各選択肢の解説"));
+    for (const ce of note.choiceExplanations) {
+      blocks.push({
+        type: "toggle",
+        toggle: {
+          rich_text: toRichText(
+            `選択肢${ce.choiceNumber}: ${ce.choiceText} ${ce.isCorrect ? "✓ 正解" : "✗ 不正解"}`
+          ),
+          children: ce.explanation
+            ? [
+                {
+                  type: "paragraph",
+                  paragraph: { rich_text: toRichText(ce.explanation) },
+                },
+              ]
+            : [],
+        },
+      });
+    }
+  }
+
+  if (note.learningPoints.length > 0) {
+    blocks.push(heading("学習ポイント"));
+    for (const point of note.learningPoints) {
+      blocks.push({
+        type: "bulleted_list_item",
+        bulleted_list_item: { rich_text: toRichText(point) },
+      });
+    }
+  }
+
+  if (note.architectureDiagram) {
+    blocks.push(heading("アーキテクチャ図"));
+    blocks.push(mermaidCode(note.architectureDiagram));
+  }
+
+  if (note.similarQuestionsHint) {
+    blocks.push(heading("類似問題へのヒント"));
+    blocks.push(paragraph(note.similarQuestionsHint));
+  }
+
+  if (note.translation) {
+    const { translation } = note;
+    const label = OUTPUT_LANGUAGE_LABELS[translation.language];
+    blocks.push(
+      heading(`解説（${label}）`),
+      ...explanationBlocks(translation.explanation)
+    );
+    for (const ce of translation.choiceExplanations) {
+      blocks.push({
+        type: "bulleted_list_item",
+        bulleted_list_item: {
+          rich_text: toRichText(`${ce.choiceNumber}. ${ce.explanation}`),
+        },
+      });
+    }
+    if (translation.learningPoints.length > 0) {
+      blocks.push(heading(`学習ポイント（${label}）`));
+      for (const point of translation.learningPoints) {
+        blocks.push({
+          type: "bulleted_list_item",
+          bulleted_list_item: { rich_text: toRichText(point) },
+        });
+      }
+    }
+  }
+
+  return blocks;
+}
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ExamQuestionNote } from "../entities/types";
+import { NotionClient } from "./notion-client";
+import { NOTION_DATABASE_SCHEMA } from "./notion-schema";
+
+/**
+ * Notion API の呼び出しを記録するフェイク
+ * 書き込んだプロパティに type を付けて、ページのプロパティとして返す
+ */
+const notion = vi.hoisted(() => {
+  const pages = new Map<string, Record<string, unknown>>();
+  const withTypes = (properties: Record<string, object>) =>
+    Object.fromEntries(
+      Object.entries(properties).map(([name, value]) => [
+        name,
+        { type: Object.keys(value)[0], ...value },
+      ])
+    );
+  return {
+    pages,
+    api: {
+      databases: { retrieve: vi.fn() },
+      pages: {
+        retrieve: vi.fn(async ({ page_id }: { page_id: string }) => ({
+          id: page_id,
+          archived: false,
+          created_time: "2026-01-01T00:00:00.000Z",
+          last_edited_time: "2026-01-01T00:00:00.000Z",
+          properties: pages.get(page_id),
+        })),
+        update: vi.fn(
+          async (args: {
+            page_id: string;
+            properties: Record<string, object>;
+          }) => {
+            pages.set(args.page_id, {
+              ...pages.get(args.page_id),
+              ...withTypes(args.properties),
+            });
+          }
+        ),
+      },
+      blocks: {
+        delete: vi.fn(),
+        children: {
+          list: vi.fn(async () => ({
+            results: [{ id: "block-1" }],
+            has_more: false,
+            next_cursor: null,
+          })),
+          append: vi.fn(),
+        },
+      },
+    },
+  };
+});
+
+vi.mock("@notionhq/client", () => ({
+  Client: vi.fn(() => notion.api),
+}));
+
+const PAGE_ID = "page-1";
+
+const note: ExamQuestionNote = {
+  id: PAGE_ID,
+  questionText: "可用性の高いデータベース構成はどれですか？",
+  choices: ["Multi-AZ RDS", "Single-AZ RDS"],
+  correctAnswer: 1,
+  correctChoiceText: "Multi-AZ RDS",
+  explanation: "最初の解説",
+  relatedServices: ["Amazon RDS"],
+  wellArchitectedCategories: ["reliability"],
+  choiceExplanations: [
+    {
+      choiceNumber: 1,
+      choiceText: "Multi-AZ RDS",
+      isCorrect: true,
+      explanation: "スタンバイに自動でフェイルオーバーする",
+    },
+    {
+      choiceNumber: 2,
+      choiceText: "Single-AZ RDS",
+      isCorrect: false,
+      explanation: "AZ 障害で停止する",
+    },
+  ],
+  learningPoints: ["Multi-AZ は可用性のための構成"],
+  architectureDiagram: "graph LR\n  App --> Primary\n  Primary --> Standby",
+  similarQuestionsHint: "Aurora のレプリカとの違いも問われる",
+  analysisWarnings: ["正解の選択肢番号を確認してください"],
+};
+
+describe("NotionClient.upsertQuestionNote", () => {
+  let client: NotionClient;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    notion.pages.clear();
+    notion.api.databases.retrieve.mockResolvedValue({
+      properties: Object.fromEntries(
+        NOTION_DATABASE_SCHEMA.map((property) => [
+          property.name,
+          { type: property.type },
+        ])
+      ),
+    });
+    client = new NotionClient("secret", "database-1");
+    await client.upsertQuestionNote(note);
+    vi.clearAllMocks();
+  });
+
+  it("本文に表れない項目だけの変更ではページ本文を作り直さない", async () => {
+    await client.upsertQuestionNote({
+      ...note,
+      mentorThread: [
+        {
+          id: "message-1",
+          role: "user",
+          content: "Read Replica との違いは？",
+          createdAt: "2026-01-02T00:00:00.000Z",
+        },
+      ],
+    });
+
+    expect(notion.api.pages.update).toHaveBeenCalledTimes(1);
+    expect(notion.api.blocks.children.list).not.toHaveBeenCalled();
+    expect(notion.api.blocks.delete).not.toHaveBeenCalled();
+    expect(notion.api.blocks.children.append).not.toHaveBeenCalled();
+  });
+
+  it("本文に表れる項目が変わった場合はページ本文を作り直す", async () => {
+    await client.upsertQuestionNote({ ...note, explanation: "再生成した解説" });
+
+    expect(notion.api.blocks.delete).toHaveBeenCalledWith({
+      block_id: "block-1",
+    });
+    expect(notion.api.blocks.children.append).toHaveBeenCalled();
+    expect(notion.api.pages.update).toHaveBeenCalledTimes(1);
+  });
+});
@@ -3,20 +3,225 @@
  * ヘッドレスDBとしてのNotion連携
  */
 
-import { Client } from "@notionhq/client";
-import type { ExamQuestionNote } from "../entities/types";
+import { Client, isFullPage } from "@notionhq/client";
+import type {
+  GetDatabaseResponse,
+  PageObjectResponse,
+  QueryDatabaseParameters,
+} from "@notionhq/client/build/src/api-endpoints";
+import type {
+  ExamQuestionInput,
+  ExamQuestionNote,
+  WellArchitectedPillar,
+} from "../entities/types";
+import {
+  DEFAULT_QUESTION_PAGE_SIZE,
+  MAX_QUESTION_PAGE_SIZE,
+} from "../entities/question-repository";
+import type {
+  GetAllQuestionsOptions,
+  QuestionFacets,
+  QuestionQuery,
+  QuestionQueryResult,
+  QuestionRepository,
+} from "../entities/question-repository";
+import { WELL_ARCHITECTED_PILLAR_NAMES } from "../entities/well-architected";
 import { logger } from "./logger";
+import { parsePromptTemplateRef } from "./prompt-templates";
+import { toRichText, fromRichText } from "./notion-rich-text";
+import { computeQuestionFingerprint } from "./question-fingerprint";
+import { buildNotionProperties } from "./notion-properties";
+import { buildNoteBlocks, NOTION_APPEND_BLOCKS_LIMIT } from "./notion-blocks";
+import {
+  NOTION_QUESTION_SORTS,
+  NotionQuestionCache,
+} from "./notion-question-cache";
+import {
+  parseOutputLanguage,
+  parseTranslationProperty,
+} from "./notion-translation";
+import { parseMentorThreadProperty } from "./notion-mentor-thread";
+import { parseGenerationSettingsProperty } from "./notion-generation-settings";
+import { parseAnswerConfidence } from "./notion-answer-votes";
+import {
+  buildSchemaPatch,
+  diffNotionSchema,
+  formatSchemaIssues,
+} from "./notion-schema";
+import type {
+  NotionSchemaMigrationOptions,
+  NotionSchemaMigrationResult,
+  NotionSchemaReport,
+} from "./notion-schema";
 
-export class NotionClient {
+/**
+ * NotionClient のオプション
+ */
+export interface NotionClientOptions {
+  /** 初回保存前に不足しているプロパティを自動作成するかどうか（省略時は検査のみ） */
+  autoMigrateSchema?: boolean;
+}
+
+/**
+ * and で結合するクエリ条件のうち、複数のプロパティ条件の or
+ * （Notion API はフィルターの入れ子を2階層までしか許可しない）
+ */
+type QueryOrCondition = Extract<
+  Extract<
+    NonNullable<QueryDatabaseParameters["filter"]>,
+    { and: unknown }
+  >["and"][number],
+  { or: unknown }
+>;
+
+/**
+ * "Well-Architected Category" の選択肢名を柱のIDの形式に変換
+ * 以前の表記の選択肢（例: "Cost Optimization" -> "cost-optimization"）も同じ柱として扱う
+ */
+function toPillarId(optionName: string): string {
+  return optionName.toLowerCase().replace(/\s+/g, "-");
+}
+
+/**
+ * データベースIDごとのスキーマ確認結果（プロセス内で一度だけ実行する）
+ */
+const schemaChecks = new Map<string, Promise<NotionSchemaReport>>();
+
+/**
+ * フィンガープリントのバックフィル結果
+ */
+export interface FingerprintBackfillResult {
+  /** 走査したページ数 */
+  scanned: number;
+  /** フィンガープリントを書き込んだページ数 */
+  updated: number;
+  /** パースできずスキップしたページID */
+  skippedPageIds: string[];
+  /** 同一フィンガープリントを持つ重複ページ */
+  duplicates: { fingerprint: string; pageIds: string[] }[];
+}
+
+export class NotionClient implements QuestionRepository {
   private notion: Client;
   private databaseId: string;
+  private options: NotionClientOptions;
 
-  constructor(apiKey: string, databaseId: string) {
+  constructor(
+    apiKey: string,
+    databaseId: string,
+    options: NotionClientOptions = {}
+  ) {
     if (!apiKey || !databaseId) {
       throw new Error("NOTION_API_KEY and NOTION_DATABASE_ID are required");
     }
     this.notion = new Client({ auth: apiKey });
     this.databaseId = databaseId;
+    this.options = options;
+  }
+
+  /**
+   * データベースのスキーマを検査
+   * buildNotionProperties が書き込むプロパティの不足・型違いを報告する
+   */
+  async inspectSchema(): Promise<NotionSchemaReport> {
+    logger.debug("Inspecting Notion database schema", {
+      databaseId: this.databaseId,
+    });
+    const properties = await this.retrieveDatabaseProperties();
+    const issues = diffNotionSchema(properties);
+
+    logger.info("Notion database schema inspected", {
+      databaseId: this.databaseId,
+      issuesCount: issues.length,
+    });
+
+    return { databaseId: this.databaseId, ok: issues.length === 0, issues };
+  }
+
+  /**
+   * 不足しているプロパティを作成し、必要に応じて型を修正
+   */
+  async migrateSchema(
+    options: NotionSchemaMigrationOptions = {}
+  ): Promise<NotionSchemaMigrationResult> {
+    logger.info("Starting Notion schema migration", {
+      databaseId: this.databaseId,
+      fixTypes: options.fixTypes ?? false,
+    });
+
+    try {
+      const properties = await this.retrieveDatabaseProperties();
+      const { patch } = buildSchemaPatch(diffNotionSchema(properties), options);
+      const applied = Object.keys(patch);
+
+      let current = properties;
+      if (applied.length > 0) {
+        const response = await this.notion.databases.update({
+          database_id: this.databaseId,
+          properties: patch,
+        });
+        current = response.properties;
+        logger.info("Notion schema patched", { applied });
+      }
+
+      const issues = diffNotionSchema(current);
+      return {
+        databaseId: this.databaseId,
+        ok: issues.length === 0,
+        issues,
+        applied,
+      };
+    } catch (error) {
+      logger.error("Notion schema migration failed", error as Error, {
+        databaseId: this.databaseId,
+      });
+      throw new Error(
+        `Notion schema migration failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  /**
+   * 初回保存前にスキーマを確認（プロセス内で一度だけ）
+   * autoMigrateSchema が有効な場合は不足プロパティを自動作成する
+   *
+   * @returns 検査結果（オプショナルプロパティの問題のみ含む）
+   */
+  private ensureSchema(): Promise<NotionSchemaReport> {
+    const cached = schemaChecks.get(this.databaseId);
+    if (cached) {
+      return cached;
+    }
+
+    const check = (async () => {
+      const report = this.options.autoMigrateSchema
+        ? await this.migrateSchema()
+        : await this.inspectSchema();
+      const blocking = report.issues.filter((issue) => issue.required);
+      if (blocking.length > 0) {
+        throw new Error(
+          `Notionデータベースのスキーマが不足しています:\n${formatSchemaIssues(blocking)}\n\n` +
+            `POST /api/notion/schema でプロパティを作成できます（型の修正は {"fixTypes": true}）。`
+        );
+      }
+      return report;
+    })();
+    // 失敗した場合は次回の保存時に再確認する
+    check.catch(() => schemaChecks.delete(this.databaseId));
+    schemaChecks.set(this.databaseId, check);
+    return check;
+  }
+
+  /**
+   * データベースのプロパティ定義を取得
+   */
+  private async retrieveDatabaseProperties(): Promise<
+    GetDatabaseResponse["properties"]
+  > {
+    const database = await this.notion.databases.retrieve({
+      database_id: this.databaseId,
+    });
+    return database.properties;
   }
 
   /**
@@ -29,20 +234,40 @@ export class NotionClient {
     });
 
     try {
-      // 既存ページを検索（問題文の最初の50文字をキーとして使用）
-      const searchKey = note.questionText.substring(0, 50);
-      logger.debug("Searching for existing page", { searchKey });
-      const existingPageId = await this.findExistingPage(searchKey);
+      const schema = await this.ensureSchema();
+      const properties = buildNotionProperties(
+        note,
+        new Set(schema.issues.map((issue) => issue.property))
+      );
+
+      // 既存ページを検索（IDの指定がなければ問題文と選択肢のフィンガープリントをキーとして使用）
+      const fingerprint = computeQuestionFingerprint(note);
+      logger.debug("Searching for existing page", {
+        pageId: note.id,
+        fingerprint,
+      });
+      const existingPageId =
+        note.id ?? (await this.findExistingPage(note, fingerprint));
 
       if (existingPageId) {
         logger.info("Updating existing Notion page", {
           pageId: existingPageId,
         });
+        // 本文はプロパティより先に置き換える（プロパティの更新後に本文の置き換えが失敗すると、
+        // 再試行時に保存済みのプロパティから本文の変更を検出できなくなるため）
+        if (await this.hasPageContentChanged(existingPageId, note)) {
+          await this.replacePageContent(existingPageId, note);
+        } else {
+          logger.debug("Notion page content is unchanged", {
+            pageId: existingPageId,
+          });
+        }
         // 既存ページを更新
         await this.notion.pages.update({
           page_id: existingPageId,
-          properties: this.buildProperties(note),
+          properties,
         });
+        NotionQuestionCache.for(this.databaseId).invalidate(existingPageId);
         logger.info("Notion page updated successfully", {
           pageId: existingPageId,
         });
@@ -52,8 +277,9 @@ export class NotionClient {
         // 新規ページを作成
         const response = await this.notion.pages.create({
           parent: { database_id: this.databaseId },
-          properties: this.buildProperties(note),
+          properties,
         });
+        await this.replacePageContent(response.id, note);
         logger.info("Notion page created successfully", {
           pageId: response.id,
         });
@@ -73,10 +299,7 @@ export class NotionClient {
           errorMessage =
             `以下のプロパティがNotionデータベースに存在しません: ${missingProperties.join(", ")}\n\n` +
             `解決方法:\n` +
-            `1. Notionデータベースに以下のプロパティを追加してください:\n` +
-            `   - Explanation (Rich Text)\n` +
-            `   - Choice Explanations (Rich Text)\n` +
-            `   - Architecture Diagram (Rich Text, オプション)\n` +
+            `1. GET /api/notion/schema で不足しているプロパティを確認し、POST /api/notion/schema で作成してください。\n` +
             `2. または、.env.local で NOTION_DATABASE_ID が正しいデータベースを指しているか確認してください。\n` +
             `3. README.md の「Notionデータベースのセットアップ」セクションを参照してください。`;
         }
@@ -93,22 +316,88 @@ export class NotionClient {
   }
 
   /**
-   * 既存ページを検索
+   * ページ本文の作り直しが必要かどうか
+   * 本文は保存済みのプロパティと同じフィールドから描画するため、保存済みのノートと新しいノートの
+   * ブロックを比較する（メンタースレッドや生成設定など、本文に表れない変更では作り直さない）
+   */
+  private async hasPageContentChanged(
+    pageId: string,
+    note: ExamQuestionNote
+  ): Promise<boolean> {
+    const page = await this.notion.pages.retrieve({ page_id: pageId });
+    const current = await this.parseNotionPage(page);
+    return (
+      !current ||
+      JSON.stringify(buildNoteBlocks(current)) !==
+        JSON.stringify(buildNoteBlocks(note))
+    );
+  }
+
+  /**
+   * ページ本文を問題ノートの内容で置き換える
+   * 既存のブロックをすべて削除してから、構造化したブロックを追加する
+   */
+  private async replacePageContent(
+    pageId: string,
+    note: ExamQuestionNote
+  ): Promise<void> {
+    logger.debug("Replacing Notion page content", { pageId });
+
+    const existingBlockIds: string[] = [];
+    let hasMore = true;
+    let startCursor: string | undefined = undefined;
+    while (hasMore) {
+      const response = await this.notion.blocks.children.list({
+        block_id: pageId,
+        start_cursor: startCursor,
+        page_size: 100, // Notion APIの最大値
+      });
+      existingBlockIds.push(...response.results.map((block) => block.id));
+      hasMore = response.has_more;
+      startCursor = response.next_cursor || undefined;
+    }
+
+    for (const blockId of existingBlockIds) {
+      await this.notion.blocks.delete({ block_id: blockId });
+    }
+
+    const blocks = buildNoteBlocks(note);
+    for (let i = 0; i < blocks.length; i += NOTION_APPEND_BLOCKS_LIMIT) {
+      await this.notion.blocks.children.append({
+        block_id: pageId,
+        children: blocks.slice(i, i + NOTION_APPEND_BLOCKS_LIMIT),
+      });
+    }
+
+    logger.debug("Notion page content replaced", {
+      pageId,
+      deletedBlocks: existingBlockIds.length,
+      appendedBlocks: blocks.length,
+    });
+  }
+
+  /**
+   * フィンガープリントが一致する既存ページを検索
+   * フィンガープリント導入前に保存されたページは問題文の先頭50文字で検索し、
+   * 内容のフィンガープリントが一致したページに "Question Fingerprint" を書き込む
+   *
+   * @throws クエリに失敗した場合（重複ページを作らないよう、未検出として扱わない）
    */
   private async findExistingPage(
-    questionTextPrefix: string
+    note: ExamQuestionInput,
+    fingerprint: string
   ): Promise<string | null> {
     try {
       logger.debug("Querying Notion database", {
         databaseId: this.databaseId,
-        searchPrefix: questionTextPrefix,
+        fingerprint,
       });
       const response = await this.notion.databases.query({
         database_id: this.databaseId,
         filter: {
-          property: "Question Text",
-          title: {
-            contains: questionTextPrefix,
+          property: "Question Fingerprint",
+          rich_text: {
+            equals: fingerprint,
           },
         },
       });
@@ -120,120 +409,357 @@ export class NotionClient {
         });
         return response.results[0].id;
       }
+
+      const legacyPageId = await this.findLegacyPage(note, fingerprint);
+      if (legacyPageId) {
+        return legacyPageId;
+      }
       logger.debug("No existing page found");
       return null;
     } catch (error) {
       logger.error("Error finding existing page", error as Error, {
-        questionTextPrefix,
+        fingerprint,
         databaseId: this.databaseId,
       });
-      return null;
+      throw error;
     }
   }
 
   /**
-   * Notionプロパティ構造を構築
-   * 注意: プロパティ名はNotionデータベースのプロパティ名と完全に一致する必要があります
+   * "Question Fingerprint" が未設定のページを問題文の先頭50文字で検索
+   * 見つかったページにはフィンガープリントを書き込み、次回以降はフィンガープリントで一致させる
    */
-  private buildProperties(note: ExamQuestionNote): Record<string, any> {
-    const choicesText = note.choices
-      .map((choice, index) => `${index + 1}. ${choice}`)
-      .join("\n");
-
-    const choiceExplanationsText = note.choiceExplanations
-      .map(
-        (ce) =>
-          `【選択肢${ce.choiceNumber}】${ce.isCorrect ? "✓ 正解" : "✗ 不正解"}\n${ce.choiceText}\n${ce.explanation}`
-      )
-      .join("\n\n");
-
-    // 必須プロパティ
-    const properties: Record<string, any> = {
-      "Question Text": {
-        title: [{ text: { content: note.questionText } }],
-      },
-      Choices: {
-        rich_text: [{ text: { content: choicesText } }],
-      },
-      "Correct Answer": {
-        number: Array.isArray(note.correctAnswer)
-          ? note.correctAnswer[0]
-          : note.correctAnswer,
-      },
-      "Correct Choice Text": {
-        rich_text: [{ text: { content: note.correctChoiceText } }],
-      },
-      Explanation: {
-        rich_text: [{ text: { content: note.explanation } }],
-      },
-      "Related Services": {
-        multi_select: note.relatedServices.map((service) => ({
-          name: service,
-        })),
-      },
-      "Well-Architected Category": {
-        multi_select: note.wellArchitectedCategories.map((category) => ({
-          name: category,
-        })),
-      },
-      "Choice Explanations": {
-        rich_text: [{ text: { content: choiceExplanationsText } }],
-      },
-      "Learning Points": {
-        rich_text: [
+  private async findLegacyPage(
+    note: ExamQuestionInput,
+    fingerprint: string
+  ): Promise<string | null> {
+    const response = await this.notion.databases.query({
+      database_id: this.databaseId,
+      filter: {
+        and: [
           {
-            text: {
-              content: note.learningPoints.join("\n• "),
-            },
+            property: "Question Text",
+            title: { contains: note.questionText.substring(0, 50) },
           },
+          { property: "Question Fingerprint", rich_text: { is_empty: true } },
         ],
       },
-    };
+    });
 
-    // オプショナルプロパティ（値がある場合のみ追加）
-    // 注意: これらのプロパティがNotionデータベースに存在しない場合は、
-    // データベースに追加するか、このコードをコメントアウトしてください
-    if (note.architectureDiagram) {
-      properties["Architecture Diagram"] = {
-        rich_text: [
-          {
-            text: {
-              content: note.architectureDiagram,
-            },
-          },
-        ],
+    for (const page of response.results) {
+      const candidate = await this.parseNotionPage(page);
+      if (!candidate || computeQuestionFingerprint(candidate) !== fingerprint) {
+        continue;
+      }
+
+      await this.notion.pages.update({
+        page_id: page.id,
+        properties: {
+          "Question Fingerprint": { rich_text: toRichText(fingerprint) },
+        },
+      });
+      logger.info("Fingerprint backfilled on legacy page", {
+        pageId: page.id,
+        fingerprint,
+      });
+      return page.id;
+    }
+    return null;
+  }
+
+  /**
+   * Notionからすべての問題を取得
+   */
+  async getAllQuestions(
+    options: GetAllQuestionsOptions = {}
+  ): Promise<ExamQuestionNote[]> {
+    const cache = NotionQuestionCache.for(this.databaseId);
+    const full = cache.needsFullSync(options.forceRefresh);
+
+    logger.info("Fetching all questions from Notion", {
+      databaseId: this.databaseId,
+      syncMode: full ? "full" : "incremental",
+      cachedPages: cache.size,
+    });
+
+    try {
+      await cache.runSync(full, () => this.syncQuestionCache(cache, full));
+
+      const questions = cache.getNotes();
+      logger.info("Successfully fetched all questions", {
+        count: questions.length,
+      });
+
+      return questions;
+    } catch (error) {
+      logger.error("Failed to fetch questions from Notion", error as Error, {
+        databaseId: this.databaseId,
+      });
+      throw new Error(
+        `Failed to fetch questions from Notion: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  /**
+   * 条件に一致する問題をページ単位で取得
+   * フィルターはNotionのクエリに変換して送信し、変更のないページはキャッシュ済みの結果を再利用する
+   */
+  async queryQuestions(query: QuestionQuery): Promise<QuestionQueryResult> {
+    const cache = NotionQuestionCache.for(this.databaseId);
+    const pageSize = Math.min(
+      query.pageSize ?? DEFAULT_QUESTION_PAGE_SIZE,
+      MAX_QUESTION_PAGE_SIZE
+    );
+
+    logger.info("Querying questions from Notion", {
+      databaseId: this.databaseId,
+      servicesCount: query.services?.length ?? 0,
+      pillarsCount: query.pillars?.length ?? 0,
+      hasSearch: Boolean(query.search),
+      pageSize,
+      hasCursor: Boolean(query.cursor),
+    });
+
+    try {
+      const pillarOptions = query.pillars?.length
+        ? await this.findPillarOptionNames(query.pillars)
+        : [];
+      const response = await this.notion.databases.query({
+        database_id: this.databaseId,
+        start_cursor: query.cursor,
+        page_size: pageSize,
+        sorts: NOTION_QUESTION_SORTS,
+        filter: this.buildQueryFilter(query, pillarOptions),
+      });
+
+      const questions: ExamQuestionNote[] = [];
+      for (const page of response.results) {
+        const snapshot = {
+          id: page.id,
+          lastEditedTime:
+            "last_edited_time" in page ? page.last_edited_time : "",
+        };
+        let note = cache.get(page.id);
+        if (query.forceRefresh || !cache.isFresh(snapshot)) {
+          note = await this.parseNotionPage(page);
+          cache.set(snapshot, note);
+        }
+        if (note) {
+          questions.push(note);
+        }
+      }
+
+      logger.info("Successfully queried questions", {
+        count: questions.length,
+        hasMore: response.has_more,
+      });
+
+      return {
+        questions,
+        nextCursor: response.has_more ? response.next_cursor : null,
       };
+    } catch (error) {
+      logger.error("Failed to query questions from Notion", error as Error, {
+        databaseId: this.databaseId,
+      });
+      throw new Error(
+        `Failed to query questions from Notion: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
     }
+  }
 
-    if (note.similarQuestionsHint) {
-      properties["Similar Questions Hint"] = {
-        rich_text: [
-          {
-            text: {
-              content: note.similarQuestionsHint,
-            },
-          },
+  /**
+   * 柱に対応する "Well-Architected Category" の選択肢名をすべて取得
+   * 以前の表記の選択肢が付いたページも検索できるよう、IDの形式に変換して一致する選択肢を返す
+   */
+  private async findPillarOptionNames(
+    pillars: WellArchitectedPillar[]
+  ): Promise<string[]> {
+    const property = (await this.retrieveDatabaseProperties())[
+      "Well-Architected Category"
+    ];
+    const options =
+      property?.type === "multi_select"
+        ? property.multi_select.options.map((option) => option.name)
+        : [];
+    const names = options.filter((name) =>
+      pillars.some((pillar) => pillar === toPillarId(name))
+    );
+    return names.length > 0 ? names : pillars;
+  }
+
+  /**
+   * 検索条件をNotionのクエリフィルターに変換
+   *
+   * @param pillarOptions - query.pillars に対応する選択肢名（findPillarOptionNames の結果）
+   */
+  private buildQueryFilter(
+    query: QuestionQuery,
+    pillarOptions: string[]
+  ): QueryDatabaseParameters["filter"] {
+    const conditions: QueryOrCondition[] = [];
+
+    if (query.services?.length) {
+      conditions.push({
+        or: query.services.map((service) => ({
+          property: "Related Services",
+          multi_select: { contains: service },
+        })),
+      });
+    }
+
+    if (pillarOptions.length > 0) {
+      conditions.push({
+        or: pillarOptions.map((option) => ({
+          property: "Well-Architected Category",
+          multi_select: { contains: option },
+        })),
+      });
+    }
+
+    const search = query.search?.trim();
+    if (search) {
+      conditions.push({
+        or: [
+          { property: "Question Text", title: { contains: search } },
+          { property: "Explanation", rich_text: { contains: search } },
+          { property: "Choices", rich_text: { contains: search } },
         ],
+      });
+    }
+
+    if (conditions.length === 0) {
+      return undefined;
+    }
+    return conditions.length === 1 ? conditions[0] : { and: conditions };
+  }
+
+  /**
+   * データベースの multi_select オプションから関連サービス・柱の一覧を取得
+   */
+  async getQuestionFacets(): Promise<QuestionFacets> {
+    try {
+      const properties = await this.retrieveDatabaseProperties();
+
+      const optionNames = (name: string): string[] => {
+        const property = properties[name];
+        return property?.type === "multi_select"
+          ? property.multi_select.options.map((option) => option.name)
+          : [];
       };
+
+      const pillars = optionNames("Well-Architected Category")
+        .map(toPillarId)
+        .filter(
+          (name): name is WellArchitectedPillar =>
+            name in WELL_ARCHITECTED_PILLAR_NAMES
+        );
+
+      return {
+        services: optionNames("Related Services").sort(),
+        pillars: Array.from(new Set(pillars)).sort(),
+      };
+    } catch (error) {
+      logger.error("Failed to fetch question facets", error as Error, {
+        databaseId: this.databaseId,
+      });
+      throw new Error(
+        `Failed to fetch question facets from Notion: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
     }
+  }
 
-    return properties;
+  /**
+   * キャッシュをNotionと同期
+   * 全件同期では全ページを列挙して削除を検出し、差分同期では前回以降に編集されたページのみ取得する。
+   * いずれの場合も last_edited_time が変わっていないページは再パースしない
+   */
+  private async syncQuestionCache(
+    cache: NotionQuestionCache,
+    full: boolean
+  ): Promise<void> {
+    const seenPageIds = new Set<string>();
+    let parsedCount = 0;
+    let hasMore = true;
+    let startCursor: string | undefined = undefined;
+
+    // ページネーションで対象データを取得
+    while (hasMore) {
+      const response = await this.notion.databases.query({
+        database_id: this.databaseId,
+        start_cursor: startCursor,
+        page_size: 100, // Notion APIの最大値
+        sorts: NOTION_QUESTION_SORTS,
+        filter: full
+          ? undefined
+          : {
+              timestamp: "last_edited_time",
+              last_edited_time: { on_or_after: cache.getIncrementalSince() },
+            },
+      });
+
+      for (const page of response.results) {
+        seenPageIds.add(page.id);
+        const snapshot = {
+          id: page.id,
+          lastEditedTime:
+            "last_edited_time" in page ? page.last_edited_time : "",
+        };
+        if (cache.isFresh(snapshot)) {
+          continue;
+        }
+
+        try {
+          cache.set(snapshot, await this.parseNotionPage(page));
+          parsedCount++;
+        } catch (error) {
+          logger.warn("Failed to parse Notion page", {
+            pageId: page.id,
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+
+      hasMore = response.has_more;
+      startCursor = response.next_cursor || undefined;
+    }
+
+    if (full) {
+      cache.retainOnly(seenPageIds);
+    }
+
+    logger.debug("Notion question cache synced", {
+      syncMode: full ? "full" : "incremental",
+      fetchedPages: seenPageIds.size,
+      parsedPages: parsedCount,
+      cachedPages: cache.size,
+    });
   }
 
   /**
-   * Notionからすべての問題を取得
+   * 既存ページに "Question Fingerprint" を書き込む（一度きりの移行処理）
+   * 未設定のページのみ更新し、同一フィンガープリントの重複ページを報告する
    */
-  async getAllQuestions(): Promise<ExamQuestionNote[]> {
-    logger.info("Fetching all questions from Notion", {
+  async backfillFingerprints(): Promise<FingerprintBackfillResult> {
+    logger.info("Starting fingerprint backfill", {
       databaseId: this.databaseId,
     });
 
+    const result: FingerprintBackfillResult = {
+      scanned: 0,
+      updated: 0,
+      skippedPageIds: [],
+      duplicates: [],
+    };
+    const pageIdsByFingerprint = new Map<string, string[]>();
+
     try {
-      const questions: ExamQuestionNote[] = [];
+      await this.ensureSchema();
+
       let hasMore = true;
       let startCursor: string | undefined = undefined;
 
-      // ページネーションで全データを取得
       while (hasMore) {
         const response = await this.notion.databases.query({
           database_id: this.databaseId,
@@ -242,34 +768,124 @@ export class NotionClient {
         });
 
         for (const page of response.results) {
-          try {
-            const question = await this.parseNotionPage(page);
-            if (question) {
-              questions.push(question);
-            }
-          } catch (error) {
-            logger.warn("Failed to parse Notion page", {
-              pageId: page.id,
-              error: error instanceof Error ? error.message : "Unknown error",
-            });
+          result.scanned++;
+          const note = await this.parseNotionPage(page);
+          if (!note) {
+            result.skippedPageIds.push(page.id);
+            continue;
           }
+
+          const fingerprint = computeQuestionFingerprint(note);
+          pageIdsByFingerprint.set(fingerprint, [
+            ...(pageIdsByFingerprint.get(fingerprint) ?? []),
+            page.id,
+          ]);
+
+          const fingerprintProperty = isFullPage(page)
+            ? page.properties["Question Fingerprint"]
+            : undefined;
+          const currentFingerprint =
+            fingerprintProperty?.type === "rich_text"
+              ? fromRichText(fingerprintProperty.rich_text)
+              : "";
+          if (currentFingerprint === fingerprint) {
+            continue;
+          }
+
+          await this.notion.pages.update({
+            page_id: page.id,
+            properties: {
+              "Question Fingerprint": {
+                rich_text: toRichText(fingerprint),
+              },
+            },
+          });
+          result.updated++;
+          logger.debug("Fingerprint written", {
+            pageId: page.id,
+            fingerprint,
+          });
         }
 
         hasMore = response.has_more;
         startCursor = response.next_cursor || undefined;
       }
+    } catch (error) {
+      logger.error("Fingerprint backfill failed", error as Error, {
+        databaseId: this.databaseId,
+        ...result,
+      });
+      throw new Error(
+        `Fingerprint backfill failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
 
-      logger.info("Successfully fetched all questions", {
-        count: questions.length,
+    result.duplicates = Array.from(pageIdsByFingerprint.entries())
+      .filter(([, pageIds]) => pageIds.length > 1)
+      .map(([fingerprint, pageIds]) => ({ fingerprint, pageIds }));
+
+    logger.info("Fingerprint backfill completed", {
+      scanned: result.scanned,
+      updated: result.updated,
+      skipped: result.skippedPageIds.length,
+      duplicateGroups: result.duplicates.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * IDを指定してNotionから問題を取得
+   */
+  async getQuestion(id: string): Promise<ExamQuestionNote | null> {
+    logger.debug("Retrieving Notion page", { pageId: id });
+
+    try {
+      const page = await this.notion.pages.retrieve({ page_id: id });
+      if ("archived" in page && page.archived) {
+        logger.debug("Notion page is archived", { pageId: id });
+        return null;
+      }
+      return await this.parseNotionPage(page);
+    } catch (error) {
+      logger.error("Failed to retrieve Notion page", error as Error, {
+        pageId: id,
       });
+      throw new Error(
+        `Failed to retrieve Notion page: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
 
-      return questions;
+  /**
+   * 問題文と選択肢のフィンガープリントが一致するページを取得
+   */
+  async findQuestionByContent(
+    input: ExamQuestionInput
+  ): Promise<ExamQuestionNote | null> {
+    const pageId = await this.findExistingPage(
+      input,
+      computeQuestionFingerprint(input)
+    );
+    return pageId ? this.getQuestion(pageId) : null;
+  }
+
+  /**
+   * Notionページをアーカイブ（Notion APIでの削除に相当）
+   */
+  async deleteQuestion(id: string): Promise<void> {
+    logger.info("Archiving Notion page", { pageId: id });
+
+    try {
+      await this.notion.pages.update({ page_id: id, archived: true });
+      NotionQuestionCache.for(this.databaseId).invalidate(id);
+      logger.info("Notion page archived successfully", { pageId: id });
     } catch (error) {
-      logger.error("Failed to fetch questions from Notion", error as Error, {
-        databaseId: this.databaseId,
+      logger.error("Failed to archive Notion page", error as Error, {
+        pageId: id,
       });
       throw new Error(
-        `Failed to fetch questions from Notion: ${error instanceof Error ? error.message : "Unknown error"}`
+        `Failed to archive Notion page: ${error instanceof Error ? error.message : "Unknown error"}`
       );
     }
   }
@@ -282,15 +898,14 @@ export class NotionClient {
       const props = page.properties;
 
       // 必須プロパティの取得
-      const questionText =
-        props["Question Text"]?.title?.[0]?.text?.content || "";
+      const questionText = fromRichText(props["Question Text"]?.title);
       if (!questionText) {
         logger.warn("Page missing question text", { pageId: page.id });
         return null;
       }
 
       // Choicesの取得（rich_textから）
-      const choicesText = props.Choices?.rich_text?.[0]?.text?.content || "";
+      const choicesText = fromRichText(props.Choices?.rich_text);
       const choices = choicesText
         .split("\n")
         .map((line: string) => line.replace(/^\d+\.\s*/, "").trim())
@@ -301,27 +916,24 @@ export class NotionClient {
         return null;
       }
 
-      // Correct Answerの取得
-      const correctAnswer = props["Correct Answer"]?.number;
-      if (
-        !correctAnswer ||
-        correctAnswer < 1 ||
-        correctAnswer > choices.length
-      ) {
+      // Correct Answerの取得（複数正解に対応）
+      const correctAnswer = this.parseCorrectAnswer(props, choices.length);
+      if (correctAnswer === null) {
         logger.warn("Page has invalid correct answer", {
           pageId: page.id,
-          correctAnswer,
+          correctAnswers: fromRichText(props["Correct Answers"]?.rich_text),
+          correctAnswer: props["Correct Answer"]?.number,
         });
         return null;
       }
 
       // Correct Choice Textの取得
-      const correctChoiceText =
-        props["Correct Choice Text"]?.rich_text?.[0]?.text?.content || "";
+      const correctChoiceText = fromRichText(
+        props["Correct Choice Text"]?.rich_text
+      );
 
       // Explanationの取得
-      const explanation =
-        props.Explanation?.rich_text?.[0]?.text?.content || "";
+      const explanation = fromRichText(props.Explanation?.rich_text);
 
       // Related Servicesの取得
       const relatedServices =
@@ -339,18 +951,16 @@ export class NotionClient {
       const wellArchitectedCategories = wellArchitectedCategoriesRaw.map(
         (cat: string) => {
           // ハイフン形式に変換（例: "Cost Optimization" -> "cost-optimization"）
-          return cat
-            .toLowerCase()
-            .replace(
-              /\s+/g,
-              "-"
-            ) as ExamQuestionNote["wellArchitectedCategories"][0];
+          return toPillarId(
+            cat
+          ) as ExamQuestionNote["wellArchitectedCategories"][0];
         }
       );
 
       // Choice Explanationsの取得とパース
-      const choiceExplanationsText =
-        props["Choice Explanations"]?.rich_text?.[0]?.text?.content || "";
+      const choiceExplanationsText = fromRichText(
+        props["Choice Explanations"]?.rich_text
+      );
       const choiceExplanations = this.parseChoiceExplanations(
         choiceExplanationsText,
         choices,
@@ -358,8 +968,9 @@ export class NotionClient {
       );
 
       // Learning Pointsの取得
-      const learningPointsText =
-        props["Learning Points"]?.rich_text?.[0]?.text?.content || "";
+      const learningPointsText = fromRichText(
+        props["Learning Points"]?.rich_text
+      );
       const learningPoints = learningPointsText
         .split("\n• ")
         .map((point: string) => point.trim())
@@ -367,15 +978,53 @@ export class NotionClient {
 
       // Architecture Diagramの取得（オプション）
       const architectureDiagram =
-        props["Architecture Diagram"]?.rich_text?.[0]?.text?.content ||
-        undefined;
+        fromRichText(props["Architecture Diagram"]?.rich_text) || undefined;
 
       // Similar Questions Hintの取得（オプション）
       const similarQuestionsHint =
-        props["Similar Questions Hint"]?.rich_text?.[0]?.text?.content ||
-        undefined;
+        fromRichText(props["Similar Questions Hint"]?.rich_text) || undefined;
+
+      // Answer Confidence / Answer Votesの取得（多数決モードで生成した場合のみ）
+      const answerConfidence = parseAnswerConfidence(
+        props["Answer Confidence"]?.number,
+        fromRichText(props["Answer Votes"]?.rich_text)
+      );
+
+      // Analysis Warningsの取得（整合性チェックで警告があった場合のみ）
+      const analysisWarnings = fromRichText(
+        props["Analysis Warnings"]?.rich_text
+      )
+        .split("\n")
+        .map((warning: string) => warning.trim())
+        .filter((warning: string) => warning.length > 0);
+
+      // Prompt Templateの取得（AI で生成した場合のみ）
+      const promptTemplate = parsePromptTemplateRef(
+        fromRichText(props["Prompt Template"]?.rich_text)
+      );
+
+      // Output Language / Translationの取得（出力言語を指定して生成した場合のみ）
+      const outputLanguage = parseOutputLanguage(
+        fromRichText(props["Output Language"]?.rich_text)
+      );
+      const translation = parseTranslationProperty(
+        fromRichText(props["Translation"]?.rich_text)
+      );
+
+      // Generation Settingsの取得（生成設定を記録したノートのみ）
+      const generationSettings = parseGenerationSettingsProperty(
+        fromRichText(props["Generation Settings"]?.rich_text)
+      );
+
+      // Mentor Threadの取得（メンターに質問したノートのみ）
+      const mentorThread = parseMentorThreadProperty(
+        fromRichText(props["Mentor Thread"]?.rich_text)
+      );
 
       return {
+        id: page.id,
+        createdAt: page.created_time,
+        updatedAt: page.last_edited_time,
         questionText,
         choices,
         correctAnswer,
@@ -387,6 +1036,15 @@ export class NotionClient {
         learningPoints,
         architectureDiagram,
         similarQuestionsHint,
+        answerConfidence,
+        analysisWarnings:
+          analysisWarnings.length > 0 ? analysisWarnings : undefined,
+        promptTemplate,
+        outputLanguage,
+        translation,
+        generationSettings:
+          generationSettings.length > 0 ? generationSettings : undefined,
+        mentorThread,
       };
     } catch (error) {
       logger.error("Error parsing Notion page", error as Error, {
@@ -396,6 +1054,50 @@ export class NotionClient {
     }
   }
 
+  /**
+   * 正解番号を取得
+   * "Correct Answers"（例: "2, 4"）を優先し、存在しない既存ページは
+   * "Correct Answer" の数値プロパティにフォールバックする
+   *
+   * @returns 単一正解は数値、複数正解は配列。不正な場合は null
+   */
+  private parseCorrectAnswer(
+    props: PageObjectResponse["properties"],
+    choicesCount: number
+  ): number | number[] | null {
+    const isValid = (n: number) =>
+      Number.isInteger(n) && n >= 1 && n <= choicesCount;
+
+    const correctAnswersProperty = props["Correct Answers"];
+    const correctAnswersText =
+      correctAnswersProperty?.type === "rich_text"
+        ? fromRichText(correctAnswersProperty.rich_text)
+        : "";
+    if (correctAnswersText.trim()) {
+      const answers = Array.from(
+        new Set(
+          correctAnswersText
+            .split(/[,\s]+/)
+            .filter((token) => token.length > 0)
+            .map((token) => Number(token))
+        )
+      ).sort((a, b) => a - b);
+
+      if (answers.length > 0 && answers.every(isValid)) {
+        return answers.length === 1 ? answers[0] : answers;
+      }
+    }
+
+    const legacyProperty = props["Correct Answer"];
+    const legacyAnswer =
+      legacyProperty?.type === "number" ? legacyProperty.number : null;
+    if (typeof legacyAnswer === "number" && isValid(legacyAnswer)) {
+      return legacyAnswer;
+    }
+
+    return null;
+  }
+
   /**
    * Choice Explanationsテキストをパース
    */
@@ -0,0 +1,49 @@
+/**
+ * 生成設定と Notion プロパティの相互変換
+ * Notion 上でもモデルごとに絞り込めるよう、1行に1件の読めるテキストとして保存する
+ */
+
+import type { GenerationSettings } from "../entities/generation-settings";
+import {
+  formatGenerationSettings,
+  parseGenerationSettingsList,
+} from "./generation-settings";
+
+const SETTINGS_LINE_PATTERN = /^(\S+) \((.*)\)$/;
+
+/**
+ * 生成設定を "Generation Settings" プロパティのテキストに変換
+ *
+ * @example
+ * gemini-2.5-pro (temperature=0.2, topP=0.95, topK=40, maxOutputTokens=8192)
+ * gemini-2.5-flash (temperature=0.5, topP=0.95, topK=40, maxOutputTokens=8192)
+ */
+export function formatGenerationSettingsProperty(
+  settings: GenerationSettings[]
+): string {
+  return settings.map(formatGenerationSettings).join("\n");
+}
+
+/**
+ * "Generation Settings" プロパティのテキストから生成設定を復元
+ *
+ * @returns 生成設定（形式が不正な行は除外）
+ */
+export function parseGenerationSettingsProperty(
+  text: string
+): GenerationSettings[] {
+  const candidates = text
+    .split("\n")
+    .map((line) => SETTINGS_LINE_PATTERN.exec(line.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(([, model, params]) => ({
+      model,
+      ...Object.fromEntries(
+        params.split(",").map((param) => {
+          const [key, value] = param.split("=").map((part) => part.trim());
+          return [key, Number(value)];
+        })
+      ),
+    }));
+  return parseGenerationSettingsList(candidates);
+}
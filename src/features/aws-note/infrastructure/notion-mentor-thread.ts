@@ -0,0 +1,76 @@
+/**
+ * メンターへの質問スレッドと Notion プロパティの相互変換
+ * スレッドは構造を保ったまま復元できるよう、JSON テキストとして保存する
+ */
+
+import type { MentorMessage } from "../entities/mentor-chat";
+import {
+  NOTION_RICH_TEXT_MAX_LENGTH,
+  NOTION_RICH_TEXT_MAX_SEGMENTS,
+} from "./notion-rich-text";
+
+/**
+ * プロパティに保存できる最大文字数
+ * セグメントの分割位置によっては上限いっぱいまで使えないため、余裕を持たせる
+ */
+const MAX_MENTOR_THREAD_PROPERTY_LENGTH =
+  NOTION_RICH_TEXT_MAX_LENGTH * (NOTION_RICH_TEXT_MAX_SEGMENTS - 10);
+
+/**
+ * スレッドを "Mentor Thread" プロパティのテキストに変換
+ * Notion の上限を超える場合は古いメッセージから省く
+ */
+export function formatMentorThreadProperty(thread: MentorMessage[]): string {
+  let messages = thread;
+  let text = JSON.stringify(messages);
+  while (
+    text.length > MAX_MENTOR_THREAD_PROPERTY_LENGTH &&
+    messages.length > 0
+  ) {
+    messages = messages.slice(1);
+    text = JSON.stringify(messages);
+  }
+  return text;
+}
+
+/**
+ * "Mentor Thread" プロパティのテキストからスレッドを復元
+ *
+ * @returns スレッド（未設定・形式が不正な場合は undefined）
+ */
+export function parseMentorThreadProperty(
+  text: string
+): MentorMessage[] | undefined {
+  if (!text.trim()) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  if (!Array.isArray(parsed)) {
+    return undefined;
+  }
+
+  const thread = parsed
+    .filter(
+      (m): m is MentorMessage =>
+        typeof m?.id === "string" &&
+        (m?.role === "user" || m?.role === "mentor") &&
+        typeof m?.content === "string" &&
+        typeof m?.createdAt === "string"
+    )
+    .map((m) => ({
+      id: m.id,
+      role: m.role,
+      content: m.content,
+      createdAt: m.createdAt,
+      model: typeof m.model === "string" ? m.model : undefined,
+      promotedToLearningPoints:
+        m.promotedToLearningPoints === true ? true : undefined,
+    }));
+  return thread.length > 0 ? thread : undefined;
+}
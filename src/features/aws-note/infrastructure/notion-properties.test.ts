@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import type { ExamQuestionNote } from "../entities/types";
+import { buildNotionProperties } from "./notion-properties";
+import { NOTION_DATABASE_SCHEMA } from "./notion-schema";
+
+const OPTIONAL_PROPERTIES = NOTION_DATABASE_SCHEMA.filter(
+  (definition) => !definition.required
+);
+
+const note: ExamQuestionNote = {
+  questionText: "可用性の高い構成はどれですか？",
+  choices: ["Multi-AZ RDS", "Single-AZ RDS"],
+  correctAnswer: 1,
+  correctChoiceText: "Multi-AZ RDS",
+  explanation: "Multi-AZ 配置で自動フェイルオーバーする。",
+  relatedServices: ["Amazon RDS"],
+  wellArchitectedCategories: ["reliability"],
+  choiceExplanations: [],
+  learningPoints: [],
+};
+
+describe("buildNotionProperties", () => {
+  it("正解の信頼度がある場合は得票率と内訳を書き込む", () => {
+    const properties = buildNotionProperties({
+      ...note,
+      answerConfidence: {
+        score: 0.6,
+        votes: [
+          { answer: 1, count: 3 },
+          { answer: 2, count: 2 },
+        ],
+        runs: 5,
+      },
+    });
+
+    expect(properties["Answer Confidence"]).toEqual({ number: 0.6 });
+    expect(properties["Answer Votes"]).toMatchObject({
+      rich_text: [expect.anything()],
+    });
+  });
+
+  it("正解の信頼度がない場合は以前の値が残らないよう空にする", () => {
+    const properties = buildNotionProperties(note);
+
+    expect(properties["Answer Confidence"]).toEqual({ number: null });
+    expect(properties["Answer Votes"]).toEqual({ rich_text: [] });
+  });
+
+  it("確認が必要な点がない場合は以前の警告が残らないよう空にする", () => {
+    expect(
+      buildNotionProperties({ ...note, analysisWarnings: ["正解が一致しない"] })[
+        "Analysis Warnings"
+      ]
+    ).toMatchObject({ rich_text: [expect.anything()] });
+    expect(buildNotionProperties(note)["Analysis Warnings"]).toEqual({
+      rich_text: [],
+    });
+    expect(
+      buildNotionProperties({ ...note, analysisWarnings: [] })[
+        "Analysis Warnings"
+      ]
+    ).toEqual({ rich_text: [] });
+  });
+
+  it("翻訳のない言語で再生成した場合は以前の翻訳が残らないよう空にする", () => {
+    const bilingual = buildNotionProperties({
+      ...note,
+      outputLanguage: "bilingual",
+      translation: {
+        language: "en",
+        explanation: "Multi-AZ fails over automatically.",
+        choiceExplanations: [],
+        learningPoints: [],
+      },
+    });
+    expect(bilingual["Output Language"]).toMatchObject({
+      rich_text: [expect.anything()],
+    });
+    expect(bilingual["Translation"]).toMatchObject({
+      rich_text: [expect.anything()],
+    });
+
+    const japanese = buildNotionProperties({ ...note, outputLanguage: "ja" });
+    expect(japanese["Translation"]).toEqual({ rich_text: [] });
+    expect(buildNotionProperties(note)["Output Language"]).toEqual({
+      rich_text: [],
+    });
+  });
+
+  it("メンターとのスレッドがない場合は空にする", () => {
+    expect(buildNotionProperties(note)["Mentor Thread"]).toEqual({
+      rich_text: [],
+    });
+  });
+
+  it("値のないオプショナルプロパティをすべて空にする", () => {
+    const properties = buildNotionProperties(note);
+
+    for (const definition of OPTIONAL_PROPERTIES) {
+      expect(properties[definition.name]).toEqual(
+        definition.type === "number" ? { number: null } : { rich_text: [] }
+      );
+    }
+  });
+
+  it("データベースにないプロパティは空の値を書き込まない", () => {
+    const properties = buildNotionProperties(
+      note,
+      new Set(["Answer Confidence", "Answer Votes"])
+    );
+
+    expect(properties).not.toHaveProperty("Answer Confidence");
+    expect(properties).not.toHaveProperty("Answer Votes");
+    expect(properties["Analysis Warnings"]).toEqual({ rich_text: [] });
+  });
+
+  it("データベースにないプロパティも値がある場合は書き込む", () => {
+    const properties = buildNotionProperties(
+      { ...note, architectureDiagram: "graph TD; A-->B" },
+      new Set(["Architecture Diagram"])
+    );
+
+    expect(properties["Architecture Diagram"]).toMatchObject({
+      rich_text: [expect.anything()],
+    });
+  });
+});
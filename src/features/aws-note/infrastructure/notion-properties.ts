@@ -0,0 +1,202 @@
+/**
+ * 問題ノートと Notion ページプロパティの変換
+ * 注意: プロパティ名はNotionデータベースのプロパティ名と完全に一致する必要があります
+ */
+
+import type { UpdatePageParameters } from "@notionhq/client/build/src/api-endpoints";
+import type { ExamQuestionNote } from "../entities/types";
+import { formatPromptTemplateRef } from "./prompt-templates";
+import { toRichText } from "./notion-rich-text";
+import { computeQuestionFingerprint } from "./question-fingerprint";
+import { formatTranslationProperty } from "./notion-translation";
+import { formatMentorThreadProperty } from "./notion-mentor-thread";
+import { formatGenerationSettingsProperty } from "./notion-generation-settings";
+import { formatAnswerVotesProperty } from "./notion-answer-votes";
+
+/**
+ * ページに書き込むプロパティ
+ */
+export type NotionPageProperties = NonNullable<
+  UpdatePageParameters["properties"]
+>;
+
+/**
+ * オプショナルプロパティの値（rich_text または number）
+ */
+type OptionalPropertyValue =
+  | { rich_text: ReturnType<typeof toRichText> }
+  | { number: number | null };
+
+/**
+ * 値を消去するための空の値
+ * pages.update は指定しなかったプロパティを変更しないため、値がなくなったプロパティは明示的に空にする
+ */
+const EMPTY_RICH_TEXT: OptionalPropertyValue = { rich_text: [] };
+const EMPTY_NUMBER: OptionalPropertyValue = { number: null };
+
+/**
+ * Notionプロパティ構造を構築
+ *
+ * @param note - 問題ノート
+ * @param unavailable - データベースに存在しない（型が異なる）オプショナルプロパティ。
+ *   ノートに値がない場合は空の値も書き込まない
+ */
+export function buildNotionProperties(
+  note: ExamQuestionNote,
+  unavailable: ReadonlySet<string> = new Set()
+): NotionPageProperties {
+  const choicesText = note.choices
+    .map((choice, index) => `${index + 1}. ${choice}`)
+    .join("\n");
+
+  const correctAnswers = (
+    Array.isArray(note.correctAnswer)
+      ? [...note.correctAnswer]
+      : [note.correctAnswer]
+  ).sort((a, b) => a - b);
+
+  const choiceExplanationsText = note.choiceExplanations
+    .map(
+      (ce) =>
+        `【選択肢${ce.choiceNumber}】${ce.isCorrect ? "✓ 正解" : "✗ 不正解"}\n${ce.choiceText}\n${ce.explanation}`
+    )
+    .join("\n\n");
+
+  // 必須プロパティ
+  const properties: NotionPageProperties = {
+    "Question Text": {
+      title: toRichText(note.questionText),
+    },
+    "Question Fingerprint": {
+      rich_text: toRichText(computeQuestionFingerprint(note)),
+    },
+    Choices: {
+      rich_text: toRichText(choicesText),
+    },
+    // 単一数値プロパティは既存ページ・並び替え用に先頭の正解を保持
+    "Correct Answer": {
+      number: correctAnswers[0],
+    },
+    "Correct Answers": {
+      rich_text: toRichText(correctAnswers.join(", ")),
+    },
+    "Correct Choice Text": {
+      rich_text: toRichText(note.correctChoiceText),
+    },
+    Explanation: {
+      rich_text: toRichText(note.explanation),
+    },
+    "Related Services": {
+      multi_select: note.relatedServices.map((service) => ({
+        name: service,
+      })),
+    },
+    "Well-Architected Category": {
+      multi_select: note.wellArchitectedCategories.map((category) => ({
+        name: category,
+      })),
+    },
+    "Choice Explanations": {
+      rich_text: toRichText(choiceExplanationsText),
+    },
+    "Learning Points": {
+      rich_text: toRichText(note.learningPoints.join("\n• ")),
+    },
+  };
+
+  /**
+   * オプショナルプロパティを設定（値がない場合は空の値）
+   */
+  const setOptional = (
+    name: string,
+    value: OptionalPropertyValue | undefined,
+    empty: OptionalPropertyValue
+  ) => {
+    if (value) {
+      properties[name] = value;
+    } else if (!unavailable.has(name)) {
+      properties[name] = empty;
+    }
+  };
+
+  // オプショナルプロパティ（値がない場合は空にして、更新・巻き戻し時に以前の値を残さない）
+  // データベースに存在しないプロパティは、値がある場合のみ書き込む（保存時にエラーになる）
+  setOptional(
+    "Architecture Diagram",
+    note.architectureDiagram
+      ? { rich_text: toRichText(note.architectureDiagram) }
+      : undefined,
+    EMPTY_RICH_TEXT
+  );
+  setOptional(
+    "Similar Questions Hint",
+    note.similarQuestionsHint
+      ? { rich_text: toRichText(note.similarQuestionsHint) }
+      : undefined,
+    EMPTY_RICH_TEXT
+  );
+
+  setOptional(
+    "Answer Confidence",
+    note.answerConfidence && { number: note.answerConfidence.score },
+    EMPTY_NUMBER
+  );
+  setOptional(
+    "Answer Votes",
+    note.answerConfidence && {
+      rich_text: toRichText(formatAnswerVotesProperty(note.answerConfidence)),
+    },
+    EMPTY_RICH_TEXT
+  );
+
+  setOptional(
+    "Analysis Warnings",
+    note.analysisWarnings?.length
+      ? { rich_text: toRichText(note.analysisWarnings.join("\n")) }
+      : undefined,
+    EMPTY_RICH_TEXT
+  );
+
+  setOptional(
+    "Prompt Template",
+    note.promptTemplate && {
+      rich_text: toRichText(formatPromptTemplateRef(note.promptTemplate)),
+    },
+    EMPTY_RICH_TEXT
+  );
+
+  setOptional(
+    "Output Language",
+    note.outputLanguage && { rich_text: toRichText(note.outputLanguage) },
+    EMPTY_RICH_TEXT
+  );
+  setOptional(
+    "Translation",
+    note.translation && {
+      rich_text: toRichText(formatTranslationProperty(note.translation)),
+    },
+    EMPTY_RICH_TEXT
+  );
+
+  setOptional(
+    "Generation Settings",
+    note.generationSettings?.length
+      ? {
+          rich_text: toRichText(
+            formatGenerationSettingsProperty(note.generationSettings)
+          ),
+        }
+      : undefined,
+    EMPTY_RICH_TEXT
+  );
+
+  setOptional(
+    "Mentor Thread",
+    note.mentorThread?.length
+      ? { rich_text: toRichText(formatMentorThreadProperty(note.mentorThread)) }
+      : undefined,
+    EMPTY_RICH_TEXT
+  );
+
+  return properties;
+}
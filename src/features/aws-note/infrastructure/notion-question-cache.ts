@@ -0,0 +1,203 @@
+/**
+ * Notion 問題データのサーバー側キャッシュ
+ * ページIDをキーに保持し、last_edited_time が変化したページのみ再取得する
+ */
+
+import type { QueryDatabaseParameters } from "@notionhq/client/build/src/api-endpoints";
+import type { ExamQuestionNote } from "../entities/types";
+
+/**
+ * 全件同期（削除されたページの検出）を行う間隔
+ */
+const FULL_SYNC_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Notion の last_edited_time は分単位に丸められるため、差分取得の基準時刻に持たせる余裕
+ */
+const LAST_EDITED_TIME_SKEW_MS = 60 * 1000;
+
+/**
+ * キャッシュエントリ
+ */
+interface QuestionCacheEntry {
+  lastEditedTime: string;
+  /** パースに失敗したページは null として保持し、変更があるまで再パースしない */
+  note: ExamQuestionNote | null;
+}
+
+/**
+ * 同期時に取得したページ
+ */
+export interface CachedPageSnapshot {
+  id: string;
+  lastEditedTime: string;
+}
+
+/**
+ * 問題を取得するクエリの並び順（作成日時の新しい順）
+ */
+export const NOTION_QUESTION_SORTS: QueryDatabaseParameters["sorts"] = [
+  { timestamp: "created_time", direction: "descending" },
+];
+
+/**
+ * NOTION_QUESTION_SORTS と同じ、作成日時の新しい順に比較
+ */
+function compareByCreatedAtDesc(
+  a: ExamQuestionNote,
+  b: ExamQuestionNote
+): number {
+  return (
+    (b.createdAt ?? "").localeCompare(a.createdAt ?? "") ||
+    (a.id ?? "").localeCompare(b.id ?? "")
+  );
+}
+
+/**
+ * 実行中の同期
+ */
+interface InflightSync {
+  promise: Promise<void>;
+  full: boolean;
+}
+
+/**
+ * データベースIDごとのキャッシュインスタンス
+ */
+const caches = new Map<string, NotionQuestionCache>();
+
+export class NotionQuestionCache {
+  private entries = new Map<string, QuestionCacheEntry>();
+  private lastSyncStartedAt: number | null = null;
+  private lastFullSyncAt = 0;
+  private inflight: InflightSync | null = null;
+  /** 実行中の差分同期の完了後に行う全件同期 */
+  private queuedFullSync: Promise<void> | null = null;
+
+  /**
+   * データベースIDに対応するキャッシュを取得
+   */
+  static for(databaseId: string): NotionQuestionCache {
+    let cache = caches.get(databaseId);
+    if (!cache) {
+      cache = new NotionQuestionCache();
+      caches.set(databaseId, cache);
+    }
+    return cache;
+  }
+
+  /**
+   * 全件同期が必要かどうか
+   */
+  needsFullSync(forceRefresh = false): boolean {
+    return (
+      forceRefresh ||
+      this.lastSyncStartedAt === null ||
+      Date.now() - this.lastFullSyncAt > FULL_SYNC_INTERVAL_MS
+    );
+  }
+
+  /**
+   * 差分取得の基準時刻（ISO 8601）
+   */
+  getIncrementalSince(): string {
+    return new Date(
+      (this.lastSyncStartedAt ?? 0) - LAST_EDITED_TIME_SKEW_MS
+    ).toISOString();
+  }
+
+  /**
+   * キャッシュ済みで変更のないページかどうか
+   */
+  isFresh(page: CachedPageSnapshot): boolean {
+    return this.entries.get(page.id)?.lastEditedTime === page.lastEditedTime;
+  }
+
+  /**
+   * キャッシュ済みの問題を取得（未キャッシュの場合は undefined）
+   */
+  get(pageId: string): ExamQuestionNote | null | undefined {
+    return this.entries.get(pageId)?.note;
+  }
+
+  /**
+   * ページの内容を更新
+   */
+  set(page: CachedPageSnapshot, note: ExamQuestionNote | null): void {
+    this.entries.set(page.id, { lastEditedTime: page.lastEditedTime, note });
+  }
+
+  /**
+   * ページをキャッシュから除外（更新・削除時）
+   */
+  invalidate(pageId: string): void {
+    this.entries.delete(pageId);
+  }
+
+  /**
+   * 同期を実行（同時に呼ばれた場合は実行中の同期を共有）
+   * 差分同期の実行中に全件同期を要求された場合は、差分同期の結果で代用せず、完了後に全件同期を行う
+   *
+   * @param full - 全件同期かどうか
+   * @param sync - 同期処理（成功時に開始時刻を次回の差分取得の基準として記録）
+   */
+  async runSync(full: boolean, sync: () => Promise<void>): Promise<void> {
+    if (this.inflight && (this.inflight.full || !full)) {
+      return this.inflight.promise;
+    }
+    if (this.inflight) {
+      if (!this.queuedFullSync) {
+        this.queuedFullSync = this.inflight.promise
+          .catch(() => undefined)
+          .then(() => {
+            this.queuedFullSync = null;
+            return this.runSync(true, sync);
+          });
+      }
+      return this.queuedFullSync;
+    }
+
+    const startedAt = Date.now();
+    const promise = sync()
+      .then(() => {
+        this.lastSyncStartedAt = startedAt;
+        if (full) {
+          this.lastFullSyncAt = startedAt;
+        }
+      })
+      .finally(() => {
+        this.inflight = null;
+      });
+    this.inflight = { promise, full };
+    return promise;
+  }
+
+  /**
+   * 全件同期の結果に含まれなかった（削除・アーカイブされた）ページを除外
+   */
+  retainOnly(pageIds: Set<string>): void {
+    for (const pageId of Array.from(this.entries.keys())) {
+      if (!pageIds.has(pageId)) {
+        this.entries.delete(pageId);
+      }
+    }
+  }
+
+  /**
+   * キャッシュ済みの問題一覧（Notion のクエリと同じ作成日時の新しい順）
+   * 差分同期で更新したページは Map の末尾に移るため、挿入順ではなく作成日時で並べ直す
+   */
+  getNotes(): ExamQuestionNote[] {
+    return Array.from(this.entries.values())
+      .map((entry) => entry.note)
+      .filter((note): note is ExamQuestionNote => note !== null)
+      .sort(compareByCreatedAtDesc);
+  }
+
+  /**
+   * キャッシュされているページ数
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
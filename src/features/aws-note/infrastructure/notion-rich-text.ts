@@ -0,0 +1,80 @@
+/**
+ * Notion rich_text の分割・結合ユーティリティ
+ * Notion API の1セグメントあたり2000文字制限を透過的に扱う
+ */
+
+/**
+ * rich_text 1セグメントあたりの最大文字数（Notion APIの制限）
+ */
+export const NOTION_RICH_TEXT_MAX_LENGTH = 2000;
+
+/**
+ * 1プロパティあたりの最大セグメント数（Notion APIの制限）
+ */
+export const NOTION_RICH_TEXT_MAX_SEGMENTS = 100;
+
+/**
+ * 書き込み用の rich_text セグメント
+ */
+export interface NotionRichTextSegment {
+  text: { content: string };
+}
+
+/**
+ * 読み込み時の rich_text アイテム（Notion APIレスポンスの必要部分のみ）
+ */
+interface NotionRichTextItem {
+  plain_text?: string;
+  text?: { content?: string };
+}
+
+/**
+ * 文字列を Notion の制限内に収まるセグメントに分割
+ * 可能な限り改行位置で区切り、サロゲートペアは分断しない
+ *
+ * @param content - 分割する文字列
+ * @returns rich_text / title に渡せるセグメント配列
+ * @throws {Error} セグメント数が Notion の上限を超える場合
+ */
+export function toRichText(content: string): NotionRichTextSegment[] {
+  const segments: NotionRichTextSegment[] = [];
+  let rest = content;
+
+  while (rest.length > NOTION_RICH_TEXT_MAX_LENGTH) {
+    let end = rest.lastIndexOf("\n", NOTION_RICH_TEXT_MAX_LENGTH - 1) + 1;
+    // 改行が見つからない、または先頭付近にしかない場合は上限位置で切る
+    if (end < NOTION_RICH_TEXT_MAX_LENGTH / 2) {
+      end = NOTION_RICH_TEXT_MAX_LENGTH;
+      const lastCode = rest.charCodeAt(end - 1);
+      if (lastCode >= 0xd800 && lastCode <= 0xdbff) {
+        end -= 1;
+      }
+    }
+    segments.push({ text: { content: rest.slice(0, end) } });
+    rest = rest.slice(end);
+  }
+  segments.push({ text: { content: rest } });
+
+  if (segments.length > NOTION_RICH_TEXT_MAX_SEGMENTS) {
+    throw new Error(
+      `Text is too long for a Notion property: ${content.length} characters (max ${NOTION_RICH_TEXT_MAX_LENGTH * NOTION_RICH_TEXT_MAX_SEGMENTS})`
+    );
+  }
+
+  return segments;
+}
+
+/**
+ * rich_text / title のすべてのセグメントを結合して文字列に復元
+ *
+ * @param items - Notion APIレスポンスの rich_text / title 配列
+ * @returns 結合した文字列（プロパティがない場合は空文字）
+ */
+export function fromRichText(items: unknown): string {
+  if (!Array.isArray(items)) {
+    return "";
+  }
+  return (items as NotionRichTextItem[])
+    .map((item) => item.text?.content ?? item.plain_text ?? "")
+    .join("");
+}
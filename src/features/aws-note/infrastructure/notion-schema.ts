@@ -0,0 +1,212 @@
+/**
+ * Notion データベースのスキーマ定義と差分検出
+ * buildNotionProperties が書き込むすべてのプロパティを宣言する
+ */
+
+import type { UpdateDatabaseParameters } from "@notionhq/client/build/src/api-endpoints";
+
+/**
+ * 本システムが使用する Notion プロパティの型
+ */
+export type NotionPropertyType =
+  | "title"
+  | "rich_text"
+  | "number"
+  | "multi_select";
+
+/**
+ * プロパティ定義
+ */
+export interface NotionPropertyDefinition {
+  /** プロパティ名（Notionデータベース上の名前と完全一致） */
+  name: string;
+  /** プロパティの型 */
+  type: NotionPropertyType;
+  /** 必須かどうか（false の場合はデータベースになくても保存できる） */
+  required: boolean;
+  /** multi_select の初期オプション */
+  options?: string[];
+}
+
+/**
+ * データベースに必要なプロパティ一覧
+ */
+export const NOTION_DATABASE_SCHEMA: NotionPropertyDefinition[] = [
+  { name: "Question Text", type: "title", required: true },
+  { name: "Question Fingerprint", type: "rich_text", required: true },
+  { name: "Choices", type: "rich_text", required: true },
+  { name: "Correct Answer", type: "number", required: true },
+  { name: "Correct Answers", type: "rich_text", required: true },
+  { name: "Correct Choice Text", type: "rich_text", required: true },
+  { name: "Explanation", type: "rich_text", required: true },
+  { name: "Related Services", type: "multi_select", required: true },
+  {
+    name: "Well-Architected Category",
+    type: "multi_select",
+    required: true,
+    options: [
+      "cost-optimization",
+      "performance-efficiency",
+      "reliability",
+      "security",
+      "operational-excellence",
+      "sustainability",
+    ],
+  },
+  { name: "Choice Explanations", type: "rich_text", required: true },
+  { name: "Architecture Diagram", type: "rich_text", required: false },
+  { name: "Learning Points", type: "rich_text", required: true },
+  { name: "Similar Questions Hint", type: "rich_text", required: false },
+  { name: "Answer Confidence", type: "number", required: false },
+  { name: "Answer Votes", type: "rich_text", required: false },
+  { name: "Analysis Warnings", type: "rich_text", required: false },
+  { name: "Prompt Template", type: "rich_text", required: false },
+  { name: "Output Language", type: "rich_text", required: false },
+  { name: "Translation", type: "rich_text", required: false },
+  { name: "Generation Settings", type: "rich_text", required: false },
+  { name: "Mentor Thread", type: "rich_text", required: false },
+];
+
+/**
+ * スキーマの問題点
+ */
+export interface NotionSchemaIssue {
+  /** プロパティ名 */
+  property: string;
+  /** missing: 存在しない / wrong-type: 型が異なる */
+  kind: "missing" | "wrong-type";
+  /** 期待する型 */
+  expectedType: NotionPropertyType;
+  /** 実際の型（wrong-type の場合） */
+  actualType?: string;
+  /** 必須プロパティかどうか */
+  required: boolean;
+}
+
+/**
+ * スキーマ検査結果
+ */
+export interface NotionSchemaReport {
+  databaseId: string;
+  /** 問題がない場合は true */
+  ok: boolean;
+  issues: NotionSchemaIssue[];
+}
+
+/**
+ * スキーマ移行結果
+ */
+export interface NotionSchemaMigrationResult extends NotionSchemaReport {
+  /** 追加・変更したプロパティ名 */
+  applied: string[];
+}
+
+/**
+ * スキーマ移行のオプション
+ */
+export interface NotionSchemaMigrationOptions {
+  /**
+   * 型が異なるプロパティも変換するかどうか（既存データが失われる可能性あり）
+   * false の場合は不足しているプロパティの追加のみ行う
+   */
+  fixTypes?: boolean;
+}
+
+/**
+ * データベースの実際のプロパティ（Notion APIレスポンスの必要部分のみ）
+ */
+export type NotionDatabaseProperties = Record<string, { type: string }>;
+
+/**
+ * 宣言されたスキーマと実際のプロパティの差分を検出
+ */
+export function diffNotionSchema(
+  actual: NotionDatabaseProperties
+): NotionSchemaIssue[] {
+  const issues: NotionSchemaIssue[] = [];
+
+  for (const definition of NOTION_DATABASE_SCHEMA) {
+    const property = actual[definition.name];
+    if (!property) {
+      issues.push({
+        property: definition.name,
+        kind: "missing",
+        expectedType: definition.type,
+        required: definition.required,
+      });
+    } else if (property.type !== definition.type) {
+      issues.push({
+        property: definition.name,
+        kind: "wrong-type",
+        expectedType: definition.type,
+        actualType: property.type,
+        required: definition.required,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * 差分から databases.update に渡すプロパティ変更を構築
+ * 既存の列のリネームは行わない（タイトル列の名前の違いは自動修正できない問題として報告する）
+ *
+ * @returns 変更内容と、自動修正できない問題
+ */
+export function buildSchemaPatch(
+  issues: NotionSchemaIssue[],
+  options: NotionSchemaMigrationOptions = {}
+): {
+  patch: NonNullable<UpdateDatabaseParameters["properties"]>;
+  unresolved: NotionSchemaIssue[];
+} {
+  const patch: NonNullable<UpdateDatabaseParameters["properties"]> = {};
+  const unresolved: NotionSchemaIssue[] = [];
+
+  for (const issue of issues) {
+    const definition = NOTION_DATABASE_SCHEMA.find(
+      (d) => d.name === issue.property
+    );
+    if (!definition) continue;
+
+    // タイトル列はデータベースに1つしか持てないため、作成・変換できない
+    if (definition.type === "title") {
+      unresolved.push(issue);
+      continue;
+    }
+
+    if (issue.kind === "wrong-type" && !options.fixTypes) {
+      unresolved.push(issue);
+      continue;
+    }
+
+    patch[definition.name] =
+      definition.type === "multi_select"
+        ? {
+            multi_select: {
+              options: (definition.options ?? []).map((name) => ({ name })),
+            },
+          }
+        : definition.type === "number"
+          ? { number: {} }
+          : { rich_text: {} };
+  }
+
+  return { patch, unresolved };
+}
+
+/**
+ * スキーマの問題点を人が読めるメッセージに整形
+ */
+export function formatSchemaIssues(issues: NotionSchemaIssue[]): string {
+  return issues
+    .map((issue) =>
+      issue.kind === "missing"
+        ? issue.expectedType === "title"
+          ? `- ${issue.property}: 存在しません（タイトル列の名前を ${issue.property} に変更してください）`
+          : `- ${issue.property}: 存在しません（期待する型: ${issue.expectedType}）`
+        : `- ${issue.property}: 型が ${issue.actualType} です（期待する型: ${issue.expectedType}）`
+    )
+    .join("\n");
+}
@@ -0,0 +1,76 @@
+/**
+ * 出力言語・翻訳と Notion プロパティの相互変換
+ * 翻訳は構造を保ったまま復元できるよう、JSON テキストとして保存する
+ */
+
+import {
+  EXPLANATION_LANGUAGES,
+  OUTPUT_LANGUAGES,
+  type ExplanationLanguage,
+  type ExplanationTranslation,
+  type OutputLanguage,
+} from "../entities/explanation-language";
+
+/**
+ * "Output Language" プロパティのテキストから出力言語を復元
+ *
+ * @returns 出力言語（未設定・不明な値の場合は undefined）
+ */
+export function parseOutputLanguage(text: string): OutputLanguage | undefined {
+  const value = text.trim();
+  return OUTPUT_LANGUAGES.find((language) => language === value);
+}
+
+/**
+ * 翻訳を "Translation" プロパティのテキストに変換
+ */
+export function formatTranslationProperty(
+  translation: ExplanationTranslation
+): string {
+  return JSON.stringify(translation);
+}
+
+/**
+ * "Translation" プロパティのテキストから翻訳を復元
+ *
+ * @returns 翻訳（未設定・形式が不正な場合は undefined）
+ */
+export function parseTranslationProperty(
+  text: string
+): ExplanationTranslation | undefined {
+  if (!text.trim()) {
+    return undefined;
+  }
+
+  let parsed: Partial<ExplanationTranslation>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  if (
+    !EXPLANATION_LANGUAGES.includes(parsed.language as ExplanationLanguage) ||
+    typeof parsed.explanation !== "string" ||
+    !Array.isArray(parsed.choiceExplanations) ||
+    !Array.isArray(parsed.learningPoints)
+  ) {
+    return undefined;
+  }
+
+  return {
+    language: parsed.language as ExplanationLanguage,
+    explanation: parsed.explanation,
+    choiceExplanations: parsed.choiceExplanations.filter(
+      (ce) =>
+        typeof ce?.choiceNumber === "number" &&
+        typeof ce?.explanation === "string"
+    ),
+    learningPoints: parsed.learningPoints.filter(
+      (point): point is string => typeof point === "string"
+    ),
+    similarQuestionsHint:
+      typeof parsed.similarQuestionsHint === "string"
+        ? parsed.similarQuestionsHint
+        : undefined,
+  };
+}
@@ -0,0 +1,324 @@
+/**
+ * OpenAI 互換 API クライアント
+ * Chat Completions API（/chat/completions）を提供するサーバーで問題を分析する
+ * OpenAI のほか、Ollama や llama.cpp などのローカルサーバーにも対応
+ */
+
+import type {
+  QuestionAnalysis,
+  ExamQuestionInput,
+  ExamQuestionNote,
+} from "../entities/types";
+import type {
+  AnalyzeQuestionOptions,
+  QuestionAnalyzer,
+} from "../entities/question-analyzer";
+import type {
+  ExplanationLanguage,
+  ExplanationTranslation,
+} from "../entities/explanation-language";
+import { logger } from "./logger";
+import {
+  buildMentorPrompt,
+  buildQuestionAnalysisPrompt,
+  buildTranslationPrompt,
+} from "./analysis-prompt";
+import { getAnalysisPromptTemplate } from "./prompt-templates";
+import {
+  AnalyzerHttpError,
+  generateAnalysisWithRetry,
+  generateTextWithRetry,
+  generateTranslationWithRetry,
+} from "./analysis-retry";
+import type { GenerationSettings } from "../entities/generation-settings";
+import type { TokenUsage, UsageRecorder } from "../entities/token-usage";
+
+/**
+ * リクエストのタイムアウト（ローカルモデルは生成に時間がかかるため長めに設定）
+ */
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Chat Completions API のトークン使用量
+ */
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+/**
+ * Chat Completions API のレスポンス（必要部分のみ）
+ */
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+/**
+ * ストリーミング時の Server-Sent Events のチャンク（必要部分のみ）
+ * stream_options.include_usage を指定すると、最後のチャンクに usage が含まれる
+ */
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+/**
+ * クライアントの設定
+ */
+export interface OpenAICompatibleClientOptions {
+  /** API のベースURL（例: https://api.openai.com/v1, http://localhost:11434/v1） */
+  baseUrl: string;
+  /** APIキー（ローカルサーバーでは不要） */
+  apiKey?: string;
+  /** 検証済みの生成設定（model は gpt-4o-mini, llama3.1 など。topK は使用しない） */
+  settings: GenerationSettings;
+  /** 呼び出しごとのトークン使用量の記録先 */
+  usageRecorder?: UsageRecorder;
+}
+
+export class OpenAICompatibleClient implements QuestionAnalyzer {
+  /** 使用するモデル名 */
+  readonly modelName: string;
+
+  /** 使用する生成設定 */
+  readonly generationSettings: GenerationSettings[];
+
+  private endpoint: string;
+  private apiKey?: string;
+  private settings: GenerationSettings;
+  private usageRecorder?: UsageRecorder;
+
+  constructor(options: OpenAICompatibleClientOptions) {
+    if (!options.baseUrl) {
+      throw new Error("OPENAI_BASE_URL is required");
+    }
+    if (!options.settings.model) {
+      throw new Error("OPENAI_MODEL is required");
+    }
+    this.endpoint = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+    this.apiKey = options.apiKey;
+    this.usageRecorder = options.usageRecorder;
+    // Chat Completions API には topK がないため記録からも除く
+    this.settings = { ...options.settings, topK: undefined };
+    this.modelName = this.settings.model;
+    this.generationSettings = [this.settings];
+  }
+
+  /**
+   * 試験問題から詳細な解説を生成
+   */
+  async analyzeQuestion(
+    questionInput: ExamQuestionInput,
+    options: AnalyzeQuestionOptions = {}
+  ): Promise<QuestionAnalysis> {
+    logger.info("Starting question analysis", {
+      provider: "openai",
+      model: this.modelName,
+      temperature: this.settings.temperature,
+      streaming: Boolean(options.onPartialText),
+      questionLength: questionInput.questionText.length,
+      choicesCount: questionInput.choices.length,
+    });
+
+    const prompt = buildQuestionAnalysisPrompt(
+      questionInput,
+      getAnalysisPromptTemplate(options.promptTemplateId),
+      options.language
+    );
+
+    try {
+      return await generateAnalysisWithRetry(
+        questionInput,
+        prompt,
+        (currentPrompt) => this.complete(currentPrompt, options.onPartialText),
+        { provider: "openai", model: this.modelName }
+      );
+    } catch (error) {
+      logger.error("OpenAI-compatible API request failed", error as Error, {
+        endpoint: this.endpoint,
+        model: this.modelName,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 解説を別の言語に翻訳
+   */
+  async translateExplanation(
+    source: ExplanationTranslation,
+    language: ExplanationLanguage
+  ): Promise<ExplanationTranslation> {
+    logger.info("Starting explanation translation", {
+      provider: "openai",
+      model: this.modelName,
+      from: source.language,
+      to: language,
+    });
+
+    try {
+      return await generateTranslationWithRetry(
+        source,
+        language,
+        buildTranslationPrompt(source, language),
+        (currentPrompt) => this.complete(currentPrompt),
+        { provider: "openai", model: this.modelName }
+      );
+    } catch (error) {
+      logger.error("OpenAI-compatible API request failed", error as Error, {
+        endpoint: this.endpoint,
+        model: this.modelName,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 保存した問題についてのフォローアップの質問に回答
+   * 回答は JSON ではなくプレーンテキストで生成する
+   */
+  async answerMentorQuestion(
+    note: ExamQuestionNote,
+    question: string,
+    onPartialText?: (text: string) => void
+  ): Promise<string> {
+    logger.info("Starting mentor answer", {
+      provider: "openai",
+      model: this.modelName,
+      streaming: Boolean(onPartialText),
+      questionLength: question.length,
+      historyLength: note.mentorThread?.length ?? 0,
+    });
+
+    try {
+      return await generateTextWithRetry(
+        buildMentorPrompt(note, question),
+        (currentPrompt) =>
+          this.complete(currentPrompt, onPartialText, { jsonMode: false }),
+        { provider: "openai", model: this.modelName }
+      );
+    } catch (error) {
+      logger.error("OpenAI-compatible API request failed", error as Error, {
+        endpoint: this.endpoint,
+        model: this.modelName,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * プロンプトを送信してモデルの出力テキストを取得
+   * onPartialText が指定された場合はストリーミングで受信しながら通知する
+   *
+   * @param options.jsonMode - JSON モードを強制するかどうか（デフォルト: true）
+   */
+  private async complete(
+    prompt: string,
+    onPartialText?: (text: string) => void,
+    { jsonMode = true }: { jsonMode?: boolean } = {}
+  ): Promise<string> {
+    const response = await fetch(this.endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.modelName,
+        messages: [{ role: "user", content: prompt }],
+        temperature: this.settings.temperature,
+        top_p: this.settings.topP,
+        max_tokens: this.settings.maxOutputTokens,
+        // JSONモード強制（メンターへの回答などプレーンテキストの場合は指定しない）
+        ...(jsonMode ? { response_format: { type: "json_object" } } : {}),
+        stream: Boolean(onPartialText),
+        ...(onPartialText ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new AnalyzerHttpError(
+        `OpenAI-compatible API returned ${response.status}: ${body.substring(0, 500)}`,
+        response.status
+      );
+    }
+
+    if (onPartialText && response.body) {
+      return this.readStream(response.body, onPartialText);
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    await this.recordUsage(data.usage);
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error("OpenAI-compatible API returned an empty response");
+    }
+    return text;
+  }
+
+  /**
+   * Server-Sent Events 形式のレスポンスを読み取り、受信済みのテキストを通知
+   */
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    onPartialText: (text: string) => void
+  ): Promise<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+    let usage: ChatCompletionUsage | null | undefined;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+        const data = line.slice("data:".length).trim();
+        if (!data || data === "[DONE]") continue;
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        usage = chunk.usage ?? usage;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onPartialText(text);
+        }
+      }
+    }
+
+    await this.recordUsage(usage);
+    if (!text) {
+      throw new Error("OpenAI-compatible API returned an empty response");
+    }
+    return text;
+  }
+
+  /**
+   * レスポンスのトークン使用量を記録
+   * 使用量を返さないサーバーの場合は記録しない。記録に失敗しても生成結果は返す
+   */
+  private async recordUsage(usage?: ChatCompletionUsage | null): Promise<void> {
+    if (!this.usageRecorder || !usage) {
+      return;
+    }
+    const tokens: TokenUsage = {
+      inputTokens: usage.prompt_tokens ?? 0,
+      outputTokens: usage.completion_tokens ?? 0,
+    };
+    try {
+      await this.usageRecorder.recordUsage(this.modelName, tokens);
+    } catch (error) {
+      logger.warn("Failed to record token usage", {
+        model: this.modelName,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
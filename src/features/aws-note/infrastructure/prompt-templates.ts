@@ -0,0 +1,200 @@
+/**
+ * 問題分析プロンプトのテンプレート
+ * ペルソナごとにバージョン付きのテンプレートを管理し、{{変数名}} を問題の内容で置き換えて使用する
+ *
+ * テンプレートの内容を変更した場合はそのテンプレートの version を更新する
+ * （ノートと改訂履歴に記録され、分析結果のキャッシュキーにも含まれる）
+ */
+
+import {
+  DEFAULT_PROMPT_TEMPLATE_ID,
+  PROMPT_TEMPLATE_IDS,
+  type PromptTemplateId,
+  type PromptTemplateRef,
+} from "../entities/prompt-template";
+
+/**
+ * 問題分析プロンプトのテンプレート
+ */
+export interface AnalysisPromptTemplate extends PromptTemplateRef {
+  /**
+   * テンプレート本文
+   * 使用できる変数: {{questionText}}（問題文）, {{choices}}（番号付きの選択肢）
+   */
+  body: string;
+}
+
+/**
+ * テンプレートで使用できる変数
+ */
+export interface AnalysisPromptVariables {
+  questionText: string;
+  choices: string;
+}
+
+/**
+ * ペルソナごとのテンプレート
+ */
+const ANALYSIS_PROMPT_TEMPLATES: Record<
+  PromptTemplateId,
+  AnalysisPromptTemplate
+> = {
+  beginner: {
+    id: "beginner",
+    version: "1",
+    body: `あなたは、AWSをほとんど触ったことがない初心者にも、直感的に技術を理解させるのが得意な「親切なAWSメンター」です。
+以下のSAA試験問題について、専門用語をできるだけ使わず、日常の事象（例：コンビニ、図書館、宅配便、家の鍵など）に例えて、直感的にわかる解説を作成してください。
+
+【問題文】
+{{questionText}}
+
+【選択肢】
+{{choices}}
+
+以下のJSONスキーマに従って出力してください。
+**最優先事項: 初心者が「なるほど、イメージできた！」と思えるような、噛み砕いた平易な表現を徹底してください。**
+
+{
+  "correctAnswer": integer | integer[], // **重要: 正解が1つの場合は数値（例: 2）、複数の場合は配列（例: [2, 4]）で出力してください**
+  "correctChoiceText": string,
+  "explanation": string, // **重要: 500文字以内で、なぜそれが正解なのかを「日常の例え話」を交えて解説してください。難しいAWS用語は避けるか、カッコ書きで補足してください。**
+  "relatedServices": string[],
+  "wellArchitectedCategories": string[], // "cost-optimization", "performance-efficiency" 等
+  "choiceExplanations": [
+    {
+      "choiceNumber": integer,
+      "choiceText": string,
+      "isCorrect": boolean,
+      "explanation": string // **重要: 「機能が違うから」等の機械的な説明ではなく、「それを選ぶと、現場でどんな困ったことが起きるか」を初心者にわかる言葉で説明してください。**
+    }
+  ],
+  "architectureDiagram": string, // **重要: Mermaid.js形式の図解コード (graph TD/LR)。システム構成図であり、「どうデータが流れるか」や「誰が何をするか」がわかる概念図にしてください。5-15個くらいのノードにしてください。構文エラーを防ぐため、- 記号（"()", "[]", """", "''"）の厳禁。- AWSのサービスは必ず英語で書いてください。例: A["User"] --> B["Amazon S3 (倉庫)"]**
+  "learningPoints": string[], // 初心者が持ち帰るべき3つのポイント（専門用語ではなく、簡単な言葉で）
+  "similarQuestionsHint": string
+}`,
+  },
+  "exam-cram": {
+    id: "exam-cram",
+    version: "1",
+    body: `あなたはAWS認定ソリューションアーキテクト アソシエイト（SAA）試験の直前対策を担当する講師です。
+受験者はAWSの基本を理解しており、試験直前に短時間で復習したいと考えています。以下の問題について、正確なAWS用語を使い、要点だけを簡潔にまとめた解説を作成してください。
+
+【問題文】
+{{questionText}}
+
+【選択肢】
+{{choices}}
+
+以下のJSONスキーマに従って出力してください。
+**最優先事項: 例え話や前置きは不要です。問題文のどのキーワード（要件・制約）が正解を決めるのかを、正確なサービス名・機能名で端的に示してください。**
+
+{
+  "correctAnswer": integer | integer[], // **重要: 正解が1つの場合は数値（例: 2）、複数の場合は配列（例: [2, 4]）で出力してください**
+  "correctChoiceText": string, // 正解の選択肢のテキストをそのまま
+  "explanation": string, // **重要: 300文字以内。「要件のキーワード → 該当する機能 → 正解」の順で、試験で使える判断基準として書いてください。**
+  "relatedServices": string[],
+  "wellArchitectedCategories": string[], // "cost-optimization", "performance-efficiency" 等
+  "choiceExplanations": [
+    {
+      "choiceNumber": integer,
+      "choiceText": string,
+      "isCorrect": boolean,
+      "explanation": string // **重要: 1〜2文で。不正解の場合は、どの要件を満たさないのか（例: 「同期レプリケーションではないためRPO 0を満たさない」）を具体的に書いてください。**
+    }
+  ],
+  "architectureDiagram": string, // Mermaid.js形式の構成図 (graph TD/LR)。5-10個程度のノード。構文エラーを防ぐため、ノードのラベルは必ず二重引用符で囲み、ラベル内で "()", "[]", 引用符は使わないでください。AWSのサービスは英語で書いてください。例: A["Client"] --> B["Amazon CloudFront"]
+  "learningPoints": string[], // 試験で問われやすい3つのポイント（数値・制限・使い分けの基準など、暗記すべき事実を優先）
+  "similarQuestionsHint": string // 同じ論点を問う別パターンの問題で、正解を見抜くためのキーワード
+}`,
+  },
+  "deep-dive": {
+    id: "deep-dive",
+    version: "1",
+    body: `あなたはAWSのシニアソリューションアーキテクトです。
+読者はSAA試験の範囲を一通り学習済みで、暗記ではなく仕組みから理解したいと考えています。以下のSAA試験問題について、エキスパートの視点で踏み込んだ解説を作成してください。
+
+【問題文】
+{{questionText}}
+
+【選択肢】
+{{choices}}
+
+以下のJSONスキーマに従って出力してください。
+**最優先事項: 「なぜその設計になるのか」を、サービスの内部動作・制約・トレードオフ（コスト・可用性・運用負荷）から説明してください。用語は正確に使い、必要に応じて具体的な設定項目や上限値にも触れてください。**
+
+{
+  "correctAnswer": integer | integer[], // **重要: 正解が1つの場合は数値（例: 2）、複数の場合は配列（例: [2, 4]）で出力してください**
+  "correctChoiceText": string, // 正解の選択肢のテキストをそのまま
+  "explanation": string, // **重要: 800文字以内。正解のアーキテクチャが要件を満たす仕組み、採用しなかった代替案との比較、実運用での注意点の順で解説してください。**
+  "relatedServices": string[],
+  "wellArchitectedCategories": string[], // "cost-optimization", "performance-efficiency" 等
+  "choiceExplanations": [
+    {
+      "choiceNumber": integer,
+      "choiceText": string,
+      "isCorrect": boolean,
+      "explanation": string // **重要: 不正解の選択肢も「どういう要件なら正解になり得るか」まで含めて説明してください。**
+    }
+  ],
+  "architectureDiagram": string, // **重要: Mermaid.js形式の構成図 (graph TD/LR)。データの流れ・レプリケーション・フェイルオーバーの経路など、設計上の要点がわかるようにしてください。8-15個くらいのノード。構文エラーを防ぐため、ノードのラベルは必ず二重引用符で囲み、ラベル内で "()", "[]", 引用符は使わないでください。AWSのサービスは英語で書いてください。例: A["Primary DB"] -->|"async replication"| B["Read Replica"]**
+  "learningPoints": string[], // 設計判断に応用できる3つの原則（サービスの特性・制約・トレードオフ）
+  "similarQuestionsHint": string // 要件が少し変わった場合に正解がどう変わるか（例: RTOが厳しくなった場合）
+}`,
+  },
+};
+
+/**
+ * テンプレートを取得
+ *
+ * @param id - テンプレートID（省略時はデフォルトのテンプレート）
+ */
+export function getAnalysisPromptTemplate(
+  id: PromptTemplateId = DEFAULT_PROMPT_TEMPLATE_ID
+): AnalysisPromptTemplate {
+  const template = ANALYSIS_PROMPT_TEMPLATES[id];
+  if (!template) {
+    throw new Error(`Unknown prompt template: ${id}`);
+  }
+  return template;
+}
+
+/**
+ * テンプレートの {{変数名}} を値で置き換える
+ *
+ * @throws テンプレートに未定義の変数が含まれている場合
+ */
+export function renderPromptTemplate(
+  template: AnalysisPromptTemplate,
+  variables: AnalysisPromptVariables
+): string {
+  return template.body.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(
+        `Prompt template ${template.id}@${template.version} uses unknown variable: ${name}`
+      );
+    }
+    return variables[name as keyof AnalysisPromptVariables];
+  });
+}
+
+/**
+ * テンプレートを "id@version" 形式の文字列に変換
+ */
+export function formatPromptTemplateRef(ref: PromptTemplateRef): string {
+  return `${ref.id}@${ref.version}`;
+}
+
+/**
+ * "id@version" 形式の文字列からテンプレートを復元
+ *
+ * @returns テンプレート（形式が不正・未知のIDの場合は undefined）
+ */
+export function parsePromptTemplateRef(
+  text: string
+): PromptTemplateRef | undefined {
+  const [id, version] = text.trim().split("@");
+  if (!version || !PROMPT_TEMPLATE_IDS.includes(id as PromptTemplateId)) {
+    return undefined;
+  }
+  return { id: id as PromptTemplateId, version };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeQuestionFingerprint,
+  normalizeQuestionText,
+} from "./question-fingerprint";
+
+describe("normalizeQuestionText", () => {
+  it("全角・半角、大文字・小文字、空白の違いを吸収する", () => {
+    expect(normalizeQuestionText("  ＡＷＳ　Lambda\n\tを使う ")).toBe(
+      "aws lambda を使う"
+    );
+  });
+});
+
+describe("computeQuestionFingerprint", () => {
+  const input = {
+    questionText: "可用性の高い構成はどれですか？",
+    choices: ["Multi-AZ RDS", "Single-AZ RDS", "EC2 on-demand", "S3 Glacier"],
+  };
+
+  it("同じ問題から同じ値を生成する", () => {
+    expect(computeQuestionFingerprint(input)).toBe(
+      computeQuestionFingerprint({ ...input, choices: [...input.choices] })
+    );
+    expect(computeQuestionFingerprint(input)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("選択肢の並び順と表記揺れは同一問題として扱う", () => {
+    expect(
+      computeQuestionFingerprint({
+        questionText: " 可用性の高い構成はどれですか? ",
+        choices: [
+          "s3 glacier",
+          "EC2  on-demand",
+          "Single-AZ RDS",
+          "MULTI-AZ RDS",
+        ],
+      })
+    ).toBe(computeQuestionFingerprint(input));
+  });
+
+  it("空の選択肢は無視する", () => {
+    expect(
+      computeQuestionFingerprint({
+        ...input,
+        choices: [...input.choices, "", "  "],
+      })
+    ).toBe(computeQuestionFingerprint(input));
+  });
+
+  it("問題文や選択肢が異なれば別の値になる", () => {
+    expect(
+      computeQuestionFingerprint({ ...input, questionText: "別の問題" })
+    ).not.toBe(computeQuestionFingerprint(input));
+    expect(
+      computeQuestionFingerprint({
+        ...input,
+        choices: [...input.choices.slice(0, 3), "S3 Standard"],
+      })
+    ).not.toBe(computeQuestionFingerprint(input));
+  });
+
+  it("問題文と選択肢の境界をまたぐ変更を区別する", () => {
+    expect(
+      computeQuestionFingerprint({ questionText: "a b", choices: ["c"] })
+    ).not.toBe(
+      computeQuestionFingerprint({ questionText: "a", choices: ["b c"] })
+    );
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * 問題のフィンガープリント（内容ハッシュ）
+ * 問題文と選択肢から安定した識別子を生成し、upsert時の同一性判定に使用する
+ */
+
+import { createHash } from "crypto";
+import type { ExamQuestionInput } from "../entities/types";
+
+/**
+ * 比較用にテキストを正規化
+ * 全角・半角の統一（NFKC）、小文字化、連続する空白の圧縮を行う
+ */
+export function normalizeQuestionText(text: string): string {
+  return text.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * 問題文と選択肢からフィンガープリントを生成
+ * 選択肢は正規化後にソートするため、並び順の違いは同一問題として扱う
+ *
+ * @param input - 問題文と選択肢
+ * @returns SHA-256 の16進文字列
+ */
+export function computeQuestionFingerprint(input: ExamQuestionInput): string {
+  const normalizedChoices = input.choices
+    .map(normalizeQuestionText)
+    .filter((choice) => choice.length > 0)
+    .sort();
+  const payload = JSON.stringify([
+    normalizeQuestionText(input.questionText),
+    normalizedChoices,
+  ]);
+  return createHash("sha256").update(payload).digest("hex");
+}
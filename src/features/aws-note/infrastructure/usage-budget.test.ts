@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import type { DailyModelUsage } from "../entities/token-usage";
+import {
+  getUsageBudgetStatus,
+  sumUsage,
+  toUsageDate,
+  UsageBudgetExceededError,
+} from "./usage-budget";
+
+function usage(date: string, estimatedCostUsd: number): DailyModelUsage {
+  return {
+    date,
+    model: "gemini-2.5-flash",
+    requests: 1,
+    inputTokens: 100,
+    outputTokens: 50,
+    estimatedCostUsd,
+  };
+}
+
+const now = new Date("2026-03-15T23:30:00Z");
+const ledger = [
+  usage("2026-02-28", 10),
+  usage("2026-03-01", 2),
+  usage("2026-03-15", 0.5),
+  usage("2026-03-15", 0.25),
+];
+
+describe("toUsageDate", () => {
+  it("UTC の日付を返す", () => {
+    expect(toUsageDate(new Date("2026-03-15T23:30:00-09:00"))).toBe(
+      "2026-03-16"
+    );
+  });
+});
+
+describe("sumUsage", () => {
+  it("使用量を合計し、空の場合は 0 を返す", () => {
+    expect(sumUsage(ledger)).toEqual({
+      requests: 4,
+      inputTokens: 400,
+      outputTokens: 200,
+      estimatedCostUsd: 12.75,
+    });
+    expect(sumUsage([])).toEqual({
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      estimatedCostUsd: 0,
+    });
+  });
+});
+
+describe("getUsageBudgetStatus", () => {
+  it("今日と今月の推定コストを集計する", () => {
+    expect(getUsageBudgetStatus(ledger, { mode: "block" }, now)).toEqual({
+      dailyCostUsd: 0.75,
+      monthlyCostUsd: 2.75,
+      exceeded: [],
+    });
+  });
+
+  it("上限に達した期間を返す（上限と等しい場合も超過とする）", () => {
+    expect(
+      getUsageBudgetStatus(
+        ledger,
+        { dailyLimitUsd: 0.75, monthlyLimitUsd: 2.75, mode: "block" },
+        now
+      ).exceeded
+    ).toEqual(["daily", "monthly"]);
+    expect(
+      getUsageBudgetStatus(
+        ledger,
+        { dailyLimitUsd: 1, monthlyLimitUsd: 2.5, mode: "warn" },
+        now
+      ).exceeded
+    ).toEqual(["monthly"]);
+  });
+
+  it("未設定の上限は判定しない", () => {
+    expect(
+      getUsageBudgetStatus(ledger, { monthlyLimitUsd: 100, mode: "block" }, now)
+        .exceeded
+    ).toEqual([]);
+  });
+});
+
+describe("UsageBudgetExceededError", () => {
+  it("超過した期間と金額をメッセージに含める", () => {
+    const status = getUsageBudgetStatus(
+      ledger,
+      { dailyLimitUsd: 0.5, mode: "block" },
+      now
+    );
+    const error = new UsageBudgetExceededError(status);
+    expect(error.status).toBe(status);
+    expect(error.message).toBe(
+      "Usage budget exceeded (daily): today $0.7500, this month $2.7500"
+    );
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * 使用量の集計と予算の判定
+ * 台帳の日別・モデル別の使用量を合計し、予算の上限と照らし合わせる
+ */
+
+import type {
+  DailyModelUsage,
+  UsageBudget,
+  UsageBudgetStatus,
+  UsageTotals,
+} from "../entities/token-usage";
+
+/**
+ * 予算の上限に達したため分析を実行できない
+ */
+export class UsageBudgetExceededError extends Error {
+  constructor(readonly status: UsageBudgetStatus) {
+    super(
+      `Usage budget exceeded (${status.exceeded.join(", ")}): today $${status.dailyCostUsd.toFixed(4)}, this month $${status.monthlyCostUsd.toFixed(4)}`
+    );
+    this.name = "UsageBudgetExceededError";
+  }
+}
+
+/**
+ * 日付キー（UTC、YYYY-MM-DD）
+ */
+export function toUsageDate(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * 使用量を合計
+ */
+export function sumUsage(usage: UsageTotals[]): UsageTotals {
+  return usage.reduce<UsageTotals>(
+    (total, entry) => ({
+      requests: total.requests + entry.requests,
+      inputTokens: total.inputTokens + entry.inputTokens,
+      outputTokens: total.outputTokens + entry.outputTokens,
+      estimatedCostUsd: total.estimatedCostUsd + entry.estimatedCostUsd,
+    }),
+    { requests: 0, inputTokens: 0, outputTokens: 0, estimatedCostUsd: 0 }
+  );
+}
+
+/**
+ * 予算に対する現在の状況を判定
+ *
+ * @param usage - 日別・モデル別の使用量
+ * @param budget - 予算の上限
+ * @param now - 判定する日時（今日・今月の範囲に使う）
+ */
+export function getUsageBudgetStatus(
+  usage: DailyModelUsage[],
+  budget: UsageBudget,
+  now = new Date()
+): UsageBudgetStatus {
+  const today = toUsageDate(now);
+  const month = today.substring(0, 7);
+  const dailyCostUsd = sumUsage(
+    usage.filter((entry) => entry.date === today)
+  ).estimatedCostUsd;
+  const monthlyCostUsd = sumUsage(
+    usage.filter((entry) => entry.date.startsWith(month))
+  ).estimatedCostUsd;
+
+  const exceeded: UsageBudgetStatus["exceeded"] = [];
+  if (
+    budget.dailyLimitUsd !== undefined &&
+    dailyCostUsd >= budget.dailyLimitUsd
+  ) {
+    exceeded.push("daily");
+  }
+  if (
+    budget.monthlyLimitUsd !== undefined &&
+    monthlyCostUsd >= budget.monthlyLimitUsd
+  ) {
+    exceeded.push("monthly");
+  }
+  return { dailyCostUsd, monthlyCostUsd, exceeded };
+}
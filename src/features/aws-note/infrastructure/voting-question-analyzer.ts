@@ -0,0 +1,158 @@
+/**
+ * 多数決による問題分析器（自己一貫性）
+ * 温度やモデルを変えた複数の分析器で同じ問題を分析し、正解を多数決で決める
+ * 得票率を信頼度として分析結果に付与する
+ */
+
+import type {
+  QuestionAnalysis,
+  ExamQuestionInput,
+  ExamQuestionNote,
+} from "../entities/types";
+import type {
+  AnalyzeQuestionOptions,
+  QuestionAnalyzer,
+} from "../entities/question-analyzer";
+import type {
+  AnswerConfidence,
+  AnswerVote,
+} from "../entities/answer-confidence";
+import type {
+  ExplanationLanguage,
+  ExplanationTranslation,
+} from "../entities/explanation-language";
+import type { GenerationSettings } from "../entities/generation-settings";
+import { logger } from "./logger";
+
+/**
+ * 複数正解を昇順に並べる（順序の違いは同じ正解として数える）
+ */
+function normalizeAnswer(answer: number | number[]): number | number[] {
+  return Array.isArray(answer) ? [...answer].sort((a, b) => a - b) : answer;
+}
+
+export class VotingQuestionAnalyzer implements QuestionAnalyzer {
+  /** 改訂履歴・キャッシュキーに使うモデル名（例: "vote3:gemini-3-pro-preview"） */
+  readonly modelName: string;
+
+  /** 各分析の生成設定（分析器の順） */
+  readonly generationSettings: GenerationSettings[];
+
+  /**
+   * @param analyzers - 投票に参加する分析器（2つ以上）
+   */
+  constructor(private analyzers: QuestionAnalyzer[]) {
+    if (analyzers.length < 2) {
+      throw new Error("VotingQuestionAnalyzer requires at least 2 analyzers");
+    }
+    const models = Array.from(new Set(analyzers.map((a) => a.modelName)));
+    this.modelName = `vote${analyzers.length}:${models.join("+")}`;
+    this.generationSettings = analyzers.flatMap((a) => a.generationSettings);
+  }
+
+  /**
+   * すべての分析器で並行して分析し、多数決で採用した分析結果を返す
+   * 同票の場合は先に設定された分析器の結果を優先する
+   * ストリーミングの通知は最初の分析器の出力のみ転送する
+   */
+  async analyzeQuestion(
+    questionInput: ExamQuestionInput,
+    options: AnalyzeQuestionOptions = {}
+  ): Promise<QuestionAnalysis> {
+    logger.info("Starting voting analysis", {
+      runs: this.analyzers.length,
+      models: this.analyzers.map((a) => a.modelName),
+    });
+
+    const settled = await Promise.allSettled(
+      this.analyzers.map((analyzer, index) =>
+        analyzer.analyzeQuestion(
+          questionInput,
+          index === 0 ? options : { ...options, onPartialText: undefined }
+        )
+      )
+    );
+
+    const tally = new Map<
+      string,
+      { vote: AnswerVote; analysis: QuestionAnalysis }
+    >();
+    settled.forEach((result, index) => {
+      if (result.status === "rejected") {
+        logger.warn("Voting analysis run failed", {
+          run: index + 1,
+          model: this.analyzers[index].modelName,
+          message:
+            result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason),
+        });
+        return;
+      }
+      const answer = normalizeAnswer(result.value.correctAnswer);
+      const key = String(answer);
+      const entry = tally.get(key);
+      if (entry) {
+        entry.vote.count++;
+      } else {
+        tally.set(key, {
+          vote: { answer, count: 1 },
+          analysis: result.value,
+        });
+      }
+    });
+
+    if (tally.size === 0) {
+      const firstFailure = settled.find(
+        (result): result is PromiseRejectedResult =>
+          result.status === "rejected"
+      );
+      throw firstFailure?.reason ?? new Error("All voting runs failed");
+    }
+
+    const entries = Array.from(tally.values());
+    const winner = entries.reduce((best, entry) =>
+      entry.vote.count > best.vote.count ? entry : best
+    );
+    const confidence: AnswerConfidence = {
+      score: winner.vote.count / this.analyzers.length,
+      votes: entries
+        .map((entry) => entry.vote)
+        .sort((a, b) => b.count - a.count),
+      runs: this.analyzers.length,
+    };
+
+    logger.info("Voting analysis completed", {
+      correctAnswer: winner.analysis.correctAnswer,
+      score: confidence.score,
+      votes: confidence.votes,
+    });
+
+    return { ...winner.analysis, answerConfidence: confidence };
+  }
+
+  /**
+   * 翻訳は正解を左右しないため、最初の分析器のみで行う
+   */
+  translateExplanation(
+    source: ExplanationTranslation,
+    language: ExplanationLanguage
+  ): Promise<ExplanationTranslation> {
+    return this.analyzers[0].translateExplanation(source, language);
+  }
+
+  /**
+   * メンターへの質問も正解を左右しないため、最初の分析器のみで回答する
+   */
+  answerMentorQuestion(
+    note: ExamQuestionNote,
+    question: string,
+    onPartialText?: (text: string) => void
+  ): Promise<string> {
+    return this.analyzers[0].answerMentorQuestion(
+      note,
+      question,
+      onPartialText
+    );
+  }
+}
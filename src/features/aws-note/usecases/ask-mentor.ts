@@ -0,0 +1,102 @@
+/**
+ * メンターへの質問ユースケース
+ * 問題ノートを文脈として LLM に質問し、質問と回答をノートのスレッドに追加して保存する
+ */
+
+import { randomUUID } from "crypto";
+import { logger } from "../infrastructure/logger";
+import type { ExamQuestionNote } from "../entities/types";
+import type { QuestionRepository } from "../entities/question-repository";
+import type { QuestionAnalyzer } from "../entities/question-analyzer";
+import {
+  MAX_MENTOR_QUESTION_LENGTH,
+  type MentorMessage,
+} from "../entities/mentor-chat";
+
+/**
+ * 質問のオプション
+ */
+export interface AskMentorOptions {
+  /** 生成途中の回答（受信済みの部分全体）を受け取る。指定した場合はストリーミングで生成する */
+  onPartialAnswer?: (answer: string) => void;
+}
+
+export class AskMentorUseCase {
+  constructor(
+    private analyzer: QuestionAnalyzer,
+    private questionRepository: QuestionRepository
+  ) {}
+
+  /**
+   * 質問して回答をスレッドに追加
+   *
+   * @param noteId - ノートID
+   * @param question - 学習者の質問
+   * @returns 質問と回答を追加した問題ノート
+   */
+  async execute(
+    noteId: string,
+    question: string,
+    options: AskMentorOptions = {}
+  ): Promise<ExamQuestionNote> {
+    logger.info("AskMentorUseCase.execute started", {
+      noteId,
+      questionLength: question.length,
+    });
+
+    try {
+      const trimmed = question.trim();
+      if (!trimmed || trimmed.length > MAX_MENTOR_QUESTION_LENGTH) {
+        throw new Error(
+          `Question must be between 1 and ${MAX_MENTOR_QUESTION_LENGTH} characters`
+        );
+      }
+
+      const current = await this.questionRepository.getQuestion(noteId);
+      if (!current) {
+        throw new Error(`Question not found: ${noteId}`);
+      }
+
+      const askedAt = new Date().toISOString();
+      const answer = await this.analyzer.answerMentorQuestion(
+        current,
+        trimmed,
+        options.onPartialAnswer
+      );
+
+      const messages: MentorMessage[] = [
+        {
+          id: randomUUID(),
+          role: "user",
+          content: trimmed,
+          createdAt: askedAt,
+        },
+        {
+          id: randomUUID(),
+          role: "mentor",
+          content: answer,
+          createdAt: new Date().toISOString(),
+          model: this.analyzer.modelName,
+        },
+      ];
+      const note: ExamQuestionNote = {
+        ...current,
+        id: noteId,
+        mentorThread: [...(current.mentorThread ?? []), ...messages],
+      };
+      await this.questionRepository.upsertQuestionNote(note);
+
+      logger.info("AskMentorUseCase.execute completed", {
+        noteId,
+        answerLength: answer.length,
+        threadLength: note.mentorThread?.length,
+      });
+      return note;
+    } catch (error) {
+      logger.error("AskMentorUseCase.execute failed", error as Error, {
+        noteId,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ExamQuestionInput } from "../entities/types";
+import type { MentorMessage } from "../entities/mentor-chat";
+import { FakeQuestionAnalyzer } from "../infrastructure/fake-question-analyzer";
+import { LocalQuestionRepository } from "../infrastructure/local-question-repository";
+import { LocalRevisionRepository } from "../infrastructure/local-revision-repository";
+import { CreateSaaNoteUseCase } from "./create-saa-note";
+
+const input: ExamQuestionInput = {
+  questionText: "可用性の高いデータベース構成はどれですか？",
+  choices: ["Multi-AZ RDS", "Single-AZ RDS", "EC2 上の MySQL"],
+};
+
+const thread: MentorMessage[] = [
+  {
+    id: "m1",
+    role: "user",
+    content: "リードレプリカとの違いは？",
+    createdAt: "2026-01-01T00:00:00.000Z",
+  },
+];
+
+describe("CreateSaaNoteUseCase", () => {
+  let dir: string;
+  let questions: LocalQuestionRepository;
+  let revisions: LocalRevisionRepository;
+  let useCase: CreateSaaNoteUseCase;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "create-saa-note-"));
+    questions = new LocalQuestionRepository(path.join(dir, "questions.json"));
+    revisions = new LocalRevisionRepository(path.join(dir, "revisions.json"));
+    useCase = new CreateSaaNoteUseCase(
+      new FakeQuestionAnalyzer(),
+      questions,
+      revisions
+    );
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("再生成しても既存ノートのメンターとのスレッドを引き継ぐ", async () => {
+    const { noteId, note } = await useCase.execute(input);
+    await questions.upsertQuestionNote({ ...note, mentorThread: thread });
+
+    const regenerated = await useCase.execute(input);
+
+    expect(regenerated.noteId).toBe(noteId);
+    expect(regenerated.note.mentorThread).toEqual(thread);
+    expect((await questions.getQuestion(noteId))?.mentorThread).toEqual(
+      thread
+    );
+  });
+
+  it("改訂のない既存ノートは上書きする前に内容を記録する", async () => {
+    const noteId = await questions.upsertQuestionNote({
+      ...input,
+      correctAnswer: 2,
+      correctChoiceText: "Single-AZ RDS",
+      explanation: "手動で作成した解説",
+      relatedServices: [],
+      wellArchitectedCategories: [],
+      choiceExplanations: [],
+      learningPoints: [],
+    });
+
+    await useCase.execute(input);
+
+    const recorded = await revisions.getRevisions(noteId);
+    expect(recorded.map((revision) => revision.source).sort()).toEqual([
+      "generation",
+      "pre-regeneration",
+    ]);
+    expect(
+      recorded.find((revision) => revision.source === "pre-regeneration")
+        ?.note.explanation
+    ).toBe("手動で作成した解説");
+  });
+
+  it("改訂のある既存ノートは再生成前の内容を重ねて記録しない", async () => {
+    const { noteId } = await useCase.execute(input);
+    await useCase.execute(input, { bypassCache: true });
+
+    const recorded = await revisions.getRevisions(noteId);
+    expect(recorded.map((revision) => revision.source)).toEqual([
+      "generation",
+      "generation",
+    ]);
+  });
+});
@@ -1,24 +1,107 @@
 /**
  * AWS SAA試験問題解説作成ユースケース
- * Gemini 3 Pro による問題分析とNotionへの保存をオーケストレート
+ * LLM（Gemini / OpenAI 互換など）による問題分析とリポジトリ（Notion / ローカル）への保存をオーケストレート
  */
 
-import { GeminiClient } from "../infrastructure/gemini-client";
-import { NotionClient } from "../infrastructure/notion-client";
 import { logger } from "../infrastructure/logger";
+import { extractPartialStringField } from "../infrastructure/analysis-response-parser";
+import { validateAndFixMermaid } from "../infrastructure/mermaid-validator";
+import {
+  formatPromptTemplateRef,
+  getAnalysisPromptTemplate,
+} from "../infrastructure/prompt-templates";
+import { getPrimaryExplanation } from "../infrastructure/note-localization";
+import { formatGenerationSettings } from "../infrastructure/generation-settings";
 import type { ExamQuestionNote, ExamQuestionInput } from "../entities/types";
+import type { QuestionRepository } from "../entities/question-repository";
+import type { QuestionAnalyzer } from "../entities/question-analyzer";
+import type { QuestionRevisionRepository } from "../entities/question-revision";
+import type { AnalysisCache } from "../entities/analysis-cache";
+import type { GenerationProgressEvent } from "../entities/generation-progress";
+import {
+  DEFAULT_OUTPUT_LANGUAGE,
+  type ExplanationLanguage,
+  type OutputLanguage,
+} from "../entities/explanation-language";
+import type {
+  PromptTemplateId,
+  PromptTemplateRef,
+} from "../entities/prompt-template";
+
+/**
+ * 解説ノート作成のオプション
+ */
+export interface CreateSaaNoteOptions {
+  /** キャッシュを使わずに分析し直す（結果はキャッシュに保存する） */
+  bypassCache?: boolean;
+  /** 生成の段階と生成途中の解説を受け取る */
+  onProgress?: (event: GenerationProgressEvent) => void;
+  /** 解説のペルソナ（省略時はデフォルトのテンプレート） */
+  promptTemplateId?: PromptTemplateId;
+  /** 解説の出力言語（省略時は日本語） */
+  outputLanguage?: OutputLanguage;
+}
 
 /**
  * 高精度な問題分析結果を取得
- * Gemini 3 Pro による推論を実行
+ * キャッシュに有効な結果があればそれを使い、なければ設定されたプロバイダーで推論を実行
  */
 async function getQuestionAnalysis(
   questionInput: ExamQuestionInput,
-  geminiClient: GeminiClient
+  analyzer: QuestionAnalyzer,
+  promptTemplate: PromptTemplateRef,
+  cache: AnalysisCache | undefined,
+  options: CreateSaaNoteOptions
 ): Promise<ExamQuestionNote> {
-  const analysis = await geminiClient.analyzeQuestion(questionInput);
+  // 両方の言語の場合は日本語で分析し、英語は翻訳で追加する
+  const outputLanguage = options.outputLanguage ?? DEFAULT_OUTPUT_LANGUAGE;
+  const language: ExplanationLanguage = outputLanguage === "en" ? "en" : "ja";
+  const cacheKey = {
+    input: questionInput,
+    model: analyzer.modelName,
+    promptVersion: formatPromptTemplateRef(promptTemplate),
+    language,
+    generationSettings: analyzer.generationSettings,
+  };
+
+  let analysis = null;
+  if (cache && options.bypassCache) {
+    logger.info("Analysis cache bypassed", { model: analyzer.modelName });
+  } else if (cache) {
+    analysis = await cache.get(cacheKey).catch((error: unknown) => {
+      logger.warn("Failed to read analysis cache", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    });
+  }
+
+  if (!analysis) {
+    const { onProgress } = options;
+    let lastExplanation = "";
+    analysis = await analyzer.analyzeQuestion(questionInput, {
+      promptTemplateId: promptTemplate.id,
+      language,
+      onPartialText: onProgress
+        ? (text) => {
+            const explanation = extractPartialStringField(text, "explanation");
+            if (explanation && explanation !== lastExplanation) {
+              lastExplanation = explanation;
+              onProgress({ type: "partial-explanation", explanation });
+            }
+          }
+        : undefined,
+    });
+    if (cache) {
+      await cache.set(cacheKey, analysis).catch((error: unknown) => {
+        logger.warn("Failed to write analysis cache", {
+          message: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+  }
 
-  // GeminiQuestionAnalysis を ExamQuestionNote に変換
+  // QuestionAnalysis を ExamQuestionNote に変換
   return {
     questionText: questionInput.questionText,
     choices: questionInput.choices,
@@ -31,56 +114,137 @@ async function getQuestionAnalysis(
     architectureDiagram: analysis.architectureDiagram,
     learningPoints: analysis.learningPoints,
     similarQuestionsHint: analysis.similarQuestionsHint,
+    answerConfidence: analysis.answerConfidence,
+    analysisWarnings: analysis.analysisWarnings,
+    promptTemplate: { id: promptTemplate.id, version: promptTemplate.version },
+    outputLanguage,
+    generationSettings: analyzer.generationSettings,
   };
 }
 
-// キャッシュ機能は将来的に実装予定
-// Next.js 15のcache関数を使用する場合は、Server Component内で使用する必要があります
-
 /**
  * AWS SAA試験問題解説作成のメインオーケストレーション
  */
 export class CreateSaaNoteUseCase {
   constructor(
-    private geminiClient: GeminiClient,
-    private notionClient: NotionClient
+    private analyzer: QuestionAnalyzer,
+    private questionRepository: QuestionRepository,
+    private revisionRepository: QuestionRevisionRepository,
+    private analysisCache?: AnalysisCache
   ) {}
 
   /**
-   * 問題文と選択肢から完全な解説ノートを作成してNotionに保存
+   * 問題文と選択肢から完全な解説ノートを作成してリポジトリに保存
    */
-  async execute(questionInput: ExamQuestionInput): Promise<{
+  async execute(
+    questionInput: ExamQuestionInput,
+    options: CreateSaaNoteOptions = {}
+  ): Promise<{
     note: ExamQuestionNote;
-    notionPageId: string;
+    noteId: string;
   }> {
     logger.info("CreateSaaNoteUseCase.execute started", {
       questionTextLength: questionInput.questionText.length,
       choicesCount: questionInput.choices.length,
+      bypassCache: options.bypassCache ?? false,
     });
 
+    const { onProgress } = options;
+
     try {
-      // 1. Gemini 3 Pro による高精度な問題分析
-      // 注意: キャッシュは将来的に実装（現時点では毎回API呼び出し）
-      logger.debug("Step 1: Analyzing question with Gemini");
-      const note = await getQuestionAnalysis(questionInput, this.geminiClient);
+      const promptTemplate = getAnalysisPromptTemplate(options.promptTemplateId);
+
+      // 1. LLM による高精度な問題分析（キャッシュがあれば再利用）
+      logger.debug("Step 1: Analyzing question", {
+        model: this.analyzer.modelName,
+        promptTemplate: formatPromptTemplateRef(promptTemplate),
+        generationSettings: this.analyzer.generationSettings.map(
+          formatGenerationSettings
+        ),
+      });
+      onProgress?.({ type: "stage", stage: "analyzing" });
+      const note = await getQuestionAnalysis(
+        questionInput,
+        this.analyzer,
+        promptTemplate,
+        this.analysisCache,
+        options
+      );
 
       logger.info("Question analysis completed", {
         correctAnswer: note.correctAnswer,
         relatedServicesCount: note.relatedServices.length,
+        answerConfidence: note.answerConfidence?.score,
       });
+      onProgress?.({
+        type: "partial-explanation",
+        explanation: note.explanation,
+      });
+      onProgress?.({ type: "stage", stage: "explanation-received" });
+
+      // 2. アーキテクチャ図の構文検証（表示時に自動修正されるため、ここでは記録のみ）
+      logger.debug("Step 2: Validating architecture diagram");
+      if (note.architectureDiagram) {
+        const validation = validateAndFixMermaid(note.architectureDiagram);
+        if (!validation.isValid) {
+          logger.warn("Architecture diagram is invalid", {
+            error: validation.error,
+          });
+        } else if (validation.warnings?.length) {
+          logger.debug("Architecture diagram needs fixes on render", {
+            warnings: validation.warnings,
+          });
+        }
+      }
+      onProgress?.({ type: "stage", stage: "diagram-validated" });
 
-      // 2. Notionへの保存（既存の場合は更新）
-      logger.debug("Step 2: Saving to Notion");
-      const notionPageId = await this.notionClient.upsertQuestionNote(note);
+      // 両方の言語の場合は英語の解説を翻訳で追加
+      if (note.outputLanguage === "bilingual") {
+        logger.debug("Translating explanation for bilingual output");
+        note.translation = await this.analyzer.translateExplanation(
+          getPrimaryExplanation(note),
+          "en"
+        );
+      }
+
+      // 3. リポジトリへの保存（既存の場合は更新）
+      logger.debug("Step 3: Saving to question repository");
+      onProgress?.({ type: "stage", stage: "saving" });
+      const existing = await this.snapshotBeforeRegeneration(questionInput);
+      // 保存は全体の置き換えのため、再生成の対象ではないメンターとのスレッドを引き継ぐ
+      if (existing?.mentorThread?.length) {
+        note.mentorThread = existing.mentorThread;
+      }
+      const noteId = await this.questionRepository.upsertQuestionNote(note);
+
+      // 4. 改訂履歴への記録（失敗しても保存済みのノートは返す）
+      logger.debug("Step 4: Recording revision");
+      try {
+        await this.revisionRepository.addRevision({
+          noteId,
+          model: this.analyzer.modelName,
+          promptVersion: formatPromptTemplateRef(promptTemplate),
+          source: "generation",
+          note,
+        });
+      } catch (revisionError) {
+        logger.warn("Failed to record question revision", {
+          noteId,
+          message:
+            revisionError instanceof Error
+              ? revisionError.message
+              : String(revisionError),
+        });
+      }
 
       logger.info("CreateSaaNoteUseCase.execute completed successfully", {
-        notionPageId,
+        noteId,
         correctAnswer: note.correctAnswer,
       });
 
       return {
-        note,
-        notionPageId,
+        note: { ...note, id: noteId },
+        noteId,
       };
     } catch (error) {
       logger.error("CreateSaaNoteUseCase.execute failed", error as Error, {
@@ -90,4 +254,39 @@ export class CreateSaaNoteUseCase {
       throw error;
     }
   }
+
+  /**
+   * 改訂が1件もない既存ノートを上書きする前に、現在の内容を改訂として記録
+   * 改訂履歴の導入前に作成・インポート・復元したノートの解説が再生成で失われないようにする
+   *
+   * @returns 上書きする既存のノート（新規の場合は null）
+   * @throws 記録に失敗した場合（既存の解説を失わないよう、上書きしない）
+   */
+  private async snapshotBeforeRegeneration(
+    questionInput: ExamQuestionInput
+  ): Promise<ExamQuestionNote | null> {
+    const existing =
+      await this.questionRepository.findQuestionByContent(questionInput);
+    if (!existing?.id) {
+      return null;
+    }
+    const revisions = await this.revisionRepository.getRevisions(existing.id);
+    if (revisions.length > 0) {
+      return existing;
+    }
+
+    await this.revisionRepository.addRevision({
+      noteId: existing.id,
+      model: existing.generationSettings?.[0]?.model ?? "unknown",
+      promptVersion: existing.promptTemplate
+        ? formatPromptTemplateRef(existing.promptTemplate)
+        : "unknown",
+      source: "pre-regeneration",
+      note: existing,
+    });
+    logger.info("Recorded note content before regeneration", {
+      noteId: existing.id,
+    });
+    return existing;
+  }
 }
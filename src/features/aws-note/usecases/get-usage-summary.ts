@@ -0,0 +1,69 @@
+/**
+ * トークン使用量の集計ユースケース
+ * 台帳の日別・モデル別の使用量から、モデル別の合計と予算に対する状況をまとめる
+ */
+
+import { logger } from "../infrastructure/logger";
+import { findModelPrice } from "../infrastructure/model-prices";
+import { getUsageBudgetStatus, sumUsage } from "../infrastructure/usage-budget";
+import type {
+  DailyModelUsage,
+  ModelPriceTable,
+  UsageBudget,
+  UsageBudgetStatus,
+  UsageLedger,
+  UsageTotals,
+} from "../entities/token-usage";
+
+/**
+ * 使用量の集計結果
+ */
+export interface UsageSummary {
+  /** 日別・モデル別の使用量（新しい日付順） */
+  daily: DailyModelUsage[];
+  /** モデル別の合計（推定コストの高い順） */
+  byModel: (UsageTotals & { model: string })[];
+  /** 全期間の合計 */
+  total: UsageTotals;
+  budget: UsageBudget;
+  budgetStatus: UsageBudgetStatus;
+  /** 料金表にないため推定コストを 0 として数えたモデル */
+  unpricedModels: string[];
+}
+
+export class GetUsageSummaryUseCase {
+  /**
+   * @param ledger - 使用量の台帳
+   * @param budget - 予算の上限
+   * @param prices - 推定コストの計算に使った料金表
+   */
+  constructor(
+    private ledger: UsageLedger,
+    private budget: UsageBudget,
+    private prices: ModelPriceTable
+  ) {}
+
+  async execute(): Promise<UsageSummary> {
+    logger.info("GetUsageSummaryUseCase.execute started");
+
+    const daily = await this.ledger.getDailyUsage();
+    const models = Array.from(new Set(daily.map((entry) => entry.model)));
+    const byModel = models
+      .map((model) => ({
+        model,
+        ...sumUsage(daily.filter((entry) => entry.model === model)),
+      }))
+      .sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd);
+
+    return {
+      daily,
+      byModel,
+      total: sumUsage(daily),
+      budget: this.budget,
+      budgetStatus: getUsageBudgetStatus(daily, this.budget),
+      unpricedModels: models.filter(
+        (model) => !findModelPrice(this.prices, model)
+      ),
+    };
+  }
+}
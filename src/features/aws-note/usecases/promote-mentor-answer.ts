@@ -0,0 +1,100 @@
+/**
+ * メンターの回答を学習ポイントに追加するユースケース
+ * 役に立った回答（またはその要約）を learningPoints に追加し、改訂として記録する
+ */
+
+import { logger } from "../infrastructure/logger";
+import { MENTOR_PROMPT_VERSION } from "../infrastructure/analysis-prompt";
+import type { ExamQuestionNote } from "../entities/types";
+import type { QuestionRepository } from "../entities/question-repository";
+import type { QuestionRevisionRepository } from "../entities/question-revision";
+
+export class PromoteMentorAnswerUseCase {
+  constructor(
+    private questionRepository: QuestionRepository,
+    private revisionRepository: QuestionRevisionRepository
+  ) {}
+
+  /**
+   * 回答を学習ポイントに追加
+   *
+   * @param noteId - ノートID
+   * @param messageId - 追加するメンターの回答のメッセージID
+   * @param learningPoint - 追加する文（省略時は回答の全文）
+   * @returns 学習ポイントを追加した問題ノート
+   */
+  async execute(
+    noteId: string,
+    messageId: string,
+    learningPoint?: string
+  ): Promise<ExamQuestionNote> {
+    logger.info("PromoteMentorAnswerUseCase.execute started", {
+      noteId,
+      messageId,
+    });
+
+    try {
+      const current = await this.questionRepository.getQuestion(noteId);
+      if (!current) {
+        throw new Error(`Question not found: ${noteId}`);
+      }
+      const message = current.mentorThread?.find(
+        (m) => m.id === messageId && m.role === "mentor"
+      );
+      if (!message) {
+        throw new Error(`Mentor answer not found: ${messageId}`);
+      }
+      if (message.promotedToLearningPoints) {
+        logger.info("Mentor answer already promoted", { noteId, messageId });
+        return current;
+      }
+
+      const point = (learningPoint ?? message.content).trim();
+      if (!point) {
+        throw new Error("Learning point must not be empty");
+      }
+      const note: ExamQuestionNote = {
+        ...current,
+        id: noteId,
+        learningPoints: [...current.learningPoints, point],
+        mentorThread: current.mentorThread?.map((m) =>
+          m.id === messageId ? { ...m, promotedToLearningPoints: true } : m
+        ),
+      };
+      await this.questionRepository.upsertQuestionNote(note);
+
+      // 改訂履歴への記録（失敗しても保存済みのノートは返す）
+      try {
+        await this.revisionRepository.addRevision({
+          noteId,
+          model: message.model ?? "unknown",
+          promptVersion: MENTOR_PROMPT_VERSION,
+          source: "mentor",
+          note,
+        });
+      } catch (revisionError) {
+        logger.warn("Failed to record question revision", {
+          noteId,
+          message:
+            revisionError instanceof Error
+              ? revisionError.message
+              : String(revisionError),
+        });
+      }
+
+      logger.info("PromoteMentorAnswerUseCase.execute completed", {
+        noteId,
+        messageId,
+        learningPoints: note.learningPoints.length,
+      });
+      return note;
+    } catch (error) {
+      logger.error(
+        "PromoteMentorAnswerUseCase.execute failed",
+        error as Error,
+        { noteId, messageId }
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ExamQuestionNote } from "../entities/types";
+import { LocalQuestionRepository } from "../infrastructure/local-question-repository";
+import { LocalRevisionRepository } from "../infrastructure/local-revision-repository";
+import { RollbackQuestionRevisionUseCase } from "./rollback-question-revision";
+
+const original: ExamQuestionNote = {
+  questionText: "可用性の高いデータベース構成はどれですか？",
+  choices: ["Multi-AZ RDS", "Single-AZ RDS"],
+  correctAnswer: 1,
+  correctChoiceText: "Multi-AZ RDS",
+  explanation: "最初の解説",
+  relatedServices: ["Amazon RDS"],
+  wellArchitectedCategories: ["reliability"],
+  choiceExplanations: [],
+  learningPoints: [],
+};
+
+describe("RollbackQuestionRevisionUseCase", () => {
+  let dir: string;
+  let questions: LocalQuestionRepository;
+  let revisions: LocalRevisionRepository;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "rollback-revision-"));
+    questions = new LocalQuestionRepository(path.join(dir, "questions.json"));
+    revisions = new LocalRevisionRepository(path.join(dir, "revisions.json"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("巻き戻し先の改訂にない項目は現在の値を残さない", async () => {
+    const noteId = await questions.upsertQuestionNote(original);
+    const first = await revisions.addRevision({
+      noteId,
+      model: "fake",
+      promptVersion: "unknown",
+      source: "generation",
+      note: original,
+    });
+    await questions.upsertQuestionNote({
+      ...original,
+      id: noteId,
+      explanation: "再生成した解説",
+      outputLanguage: "bilingual",
+      translation: {
+        language: "en",
+        explanation: "Regenerated explanation",
+        choiceExplanations: [],
+        learningPoints: [],
+      },
+      analysisWarnings: ["正解の選択肢の文が一致しない"],
+      answerConfidence: { score: 0.6, votes: [], runs: 5 },
+    });
+
+    const restored = await new RollbackQuestionRevisionUseCase(
+      questions,
+      revisions
+    ).execute(noteId, first.id);
+
+    const saved = await questions.getQuestion(noteId);
+    expect(restored).toEqual({ ...original, id: noteId });
+    expect(saved).toMatchObject({ ...original, id: noteId });
+    expect(saved?.translation).toBeUndefined();
+    expect(saved?.analysisWarnings).toBeUndefined();
+    expect(saved?.answerConfidence).toBeUndefined();
+
+    const [latest] = await revisions.getRevisions(noteId);
+    expect(latest).toMatchObject({
+      source: "rollback",
+      restoredFrom: first.id,
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * 問題ノートの改訂ロールバックユースケース
+ * 過去の改訂の内容で問題ノートを上書きし、巻き戻し自体も改訂として記録する
+ */
+
+import { logger } from "../infrastructure/logger";
+import type { ExamQuestionNote } from "../entities/types";
+import type { QuestionRepository } from "../entities/question-repository";
+import type { QuestionRevisionRepository } from "../entities/question-revision";
+
+export class RollbackQuestionRevisionUseCase {
+  constructor(
+    private questionRepository: QuestionRepository,
+    private revisionRepository: QuestionRevisionRepository
+  ) {}
+
+  /**
+   * 指定した改訂の内容に巻き戻す
+   *
+   * @param noteId - ノートID
+   * @param revisionId - 巻き戻し先の改訂ID
+   * @returns 巻き戻した問題ノート
+   */
+  async execute(noteId: string, revisionId: string): Promise<ExamQuestionNote> {
+    logger.info("RollbackQuestionRevisionUseCase.execute started", {
+      noteId,
+      revisionId,
+    });
+
+    try {
+      const revision = await this.revisionRepository.getRevision(
+        noteId,
+        revisionId
+      );
+      if (!revision) {
+        throw new Error(`Revision not found: ${revisionId}`);
+      }
+
+      // ノートIDを指定して上書き（問題文が変わっていても同じノートを更新する）
+      const note: ExamQuestionNote = { ...revision.note, id: noteId };
+      await this.questionRepository.upsertQuestionNote(note);
+
+      await this.revisionRepository.addRevision({
+        noteId,
+        model: revision.model,
+        promptVersion: revision.promptVersion,
+        source: "rollback",
+        restoredFrom: revision.id,
+        note,
+      });
+
+      logger.info("RollbackQuestionRevisionUseCase.execute completed", {
+        noteId,
+        revisionId,
+      });
+      return note;
+    } catch (error) {
+      logger.error(
+        "RollbackQuestionRevisionUseCase.execute failed",
+        error as Error,
+        { noteId, revisionId }
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * 問題ノートの翻訳ユースケース
+ * ノートにない言語の解説を翻訳で追加し、両方の言語を持つノートとして保存する
+ */
+
+import { logger } from "../infrastructure/logger";
+import { TRANSLATION_PROMPT_VERSION } from "../infrastructure/analysis-prompt";
+import {
+  getNoteLanguages,
+  getPrimaryExplanation,
+} from "../infrastructure/note-localization";
+import type { ExamQuestionNote } from "../entities/types";
+import type { QuestionRepository } from "../entities/question-repository";
+import type { QuestionAnalyzer } from "../entities/question-analyzer";
+import type { QuestionRevisionRepository } from "../entities/question-revision";
+import type { ExplanationLanguage } from "../entities/explanation-language";
+
+export class TranslateQuestionNoteUseCase {
+  constructor(
+    private analyzer: QuestionAnalyzer,
+    private questionRepository: QuestionRepository,
+    private revisionRepository: QuestionRevisionRepository
+  ) {}
+
+  /**
+   * 指定した言語の解説を追加
+   *
+   * @param noteId - ノートID
+   * @param language - 追加する言語
+   * @returns 翻訳を追加した問題ノート（すでにその言語の解説がある場合はそのまま）
+   */
+  async execute(
+    noteId: string,
+    language: ExplanationLanguage
+  ): Promise<ExamQuestionNote> {
+    logger.info("TranslateQuestionNoteUseCase.execute started", {
+      noteId,
+      language,
+    });
+
+    try {
+      const current = await this.questionRepository.getQuestion(noteId);
+      if (!current) {
+        throw new Error(`Question not found: ${noteId}`);
+      }
+      if (getNoteLanguages(current).includes(language)) {
+        logger.info("Question already has explanation in language", {
+          noteId,
+          language,
+        });
+        return current;
+      }
+
+      const translation = await this.analyzer.translateExplanation(
+        getPrimaryExplanation(current),
+        language
+      );
+      const note: ExamQuestionNote = {
+        ...current,
+        id: noteId,
+        outputLanguage: "bilingual",
+        translation,
+      };
+      await this.questionRepository.upsertQuestionNote(note);
+
+      // 改訂履歴への記録（失敗しても保存済みのノートは返す）
+      try {
+        await this.revisionRepository.addRevision({
+          noteId,
+          model: this.analyzer.modelName,
+          promptVersion: TRANSLATION_PROMPT_VERSION,
+          source: "translation",
+          note,
+        });
+      } catch (revisionError) {
+        logger.warn("Failed to record question revision", {
+          noteId,
+          message:
+            revisionError instanceof Error
+              ? revisionError.message
+              : String(revisionError),
+        });
+      }
+
+      logger.info("TranslateQuestionNoteUseCase.execute completed", {
+        noteId,
+        language,
+      });
+      return note;
+    } catch (error) {
+      logger.error(
+        "TranslateQuestionNoteUseCase.execute failed",
+        error as Error,
+        { noteId, language }
+      );
+      throw error;
+    }
+  }
+}
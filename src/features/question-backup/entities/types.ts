@@ -0,0 +1,91 @@
+/**
+ * Question Backup - エンティティ層
+ * ドメインオブジェクトの型定義
+ */
+
+import type { ExamQuestionNote } from "@/features/aws-note/entities/types";
+import type { QuestionRepositoryType } from "@/features/aws-note/entities/question-repository";
+
+/**
+ * バックアップアーカイブの形式識別子
+ */
+export const BACKUP_ARCHIVE_FORMAT = "aws-saa-question-backup";
+
+/**
+ * バックアップアーカイブの現在のバージョン
+ */
+export const BACKUP_ARCHIVE_VERSION = 1;
+
+/**
+ * バックアップアーカイブ
+ */
+export interface QuestionBackupArchive {
+  format: typeof BACKUP_ARCHIVE_FORMAT;
+  version: number;
+  /** バックアップを作成した日時（ISO 8601） */
+  createdAt: string;
+  /** バックアップ元 */
+  source: {
+    repositoryType: QuestionRepositoryType;
+    /** Notion の場合のデータベースID */
+    databaseId?: string;
+  };
+  /** ノートID（NotionページID）と作成・更新日時を含むすべての問題 */
+  questions: ExamQuestionNote[];
+}
+
+/**
+ * 既存の問題と内容が異なる場合の扱い
+ * - skip: 既存の問題を残す
+ * - overwrite: アーカイブの内容で上書き
+ * - keep-newer: 更新日時が新しい方を残す
+ */
+export type RestoreConflictStrategy = "skip" | "overwrite" | "keep-newer";
+
+/**
+ * リストアのオプション
+ */
+export interface RestoreOptions {
+  strategy: RestoreConflictStrategy;
+  /** 差分の確認のみ行い、書き込まない */
+  dryRun?: boolean;
+}
+
+/**
+ * 問題ごとのリストア内容
+ * - create: 新規作成
+ * - update: 既存の問題を上書き
+ * - unchanged: 既存の問題と内容が同じ
+ * - skip-conflict: 内容が異なるが、戦略により既存の問題を残す
+ */
+export type RestoreAction = "create" | "update" | "unchanged" | "skip-conflict";
+
+/**
+ * 問題ごとのリストア結果
+ */
+export interface RestoreEntryResult {
+  /** アーカイブ内のノートID */
+  archivedId?: string;
+  /** 対応する既存のノートID（新規作成の場合は保存後のID） */
+  targetId?: string;
+  action: RestoreAction;
+  /** 問題文の先頭（一覧表示用） */
+  questionPreview: string;
+  /** 内容が異なるフィールド */
+  changedFields?: string[];
+  /** 書き込みに失敗した場合のエラー */
+  error?: string;
+}
+
+/**
+ * リストア結果
+ */
+export interface RestoreResult {
+  dryRun: boolean;
+  strategy: RestoreConflictStrategy;
+  entries: RestoreEntryResult[];
+  summary: Record<RestoreAction, number> & {
+    /** 書き込みに失敗した件数 */
+    failed: number;
+  };
+}
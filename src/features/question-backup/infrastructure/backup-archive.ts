@@ -0,0 +1,148 @@
+/**
+ * Backup Archive - インフラストラクチャ層
+ * バックアップアーカイブ（JSON）の検証とバージョン間の変換
+ */
+
+import { z } from "zod";
+import {
+  BACKUP_ARCHIVE_FORMAT,
+  BACKUP_ARCHIVE_VERSION,
+  type QuestionBackupArchive,
+} from "../entities/types";
+import { PROMPT_TEMPLATE_IDS } from "@/features/aws-note/entities/prompt-template";
+import { GenerationSettingsSchema } from "@/features/aws-note/infrastructure/generation-settings";
+import {
+  EXPLANATION_LANGUAGES,
+  OUTPUT_LANGUAGES,
+} from "@/features/aws-note/entities/explanation-language";
+
+const ChoiceNumberSchema = z.number().int().min(1).max(8);
+
+/**
+ * アーカイブに含まれる問題ノートのスキーマ
+ */
+const BackupNoteSchema = z.object({
+  id: z.string().optional(),
+  createdAt: z.string().datetime({ offset: true }).optional(),
+  updatedAt: z.string().datetime({ offset: true }).optional(),
+  questionText: z.string().min(1),
+  choices: z.array(z.string()).min(2).max(8),
+  correctAnswer: z.union([ChoiceNumberSchema, z.array(ChoiceNumberSchema)]),
+  correctChoiceText: z.string(),
+  explanation: z.string(),
+  relatedServices: z.array(z.string()),
+  wellArchitectedCategories: z.array(
+    z.enum([
+      "cost-optimization",
+      "performance-efficiency",
+      "reliability",
+      "security",
+      "operational-excellence",
+      "sustainability",
+    ])
+  ),
+  choiceExplanations: z.array(
+    z.object({
+      choiceNumber: ChoiceNumberSchema,
+      choiceText: z.string(),
+      isCorrect: z.boolean(),
+      explanation: z.string(),
+    })
+  ),
+  architectureDiagram: z.string().optional(),
+  learningPoints: z.array(z.string()),
+  similarQuestionsHint: z.string().optional(),
+  answerConfidence: z
+    .object({
+      score: z.number().min(0).max(1),
+      votes: z.array(
+        z.object({
+          answer: z.union([ChoiceNumberSchema, z.array(ChoiceNumberSchema)]),
+          count: z.number().int().min(1),
+        })
+      ),
+      runs: z.number().int().min(1),
+    })
+    .optional(),
+  analysisWarnings: z.array(z.string()).optional(),
+  promptTemplate: z
+    .object({
+      id: z.enum(PROMPT_TEMPLATE_IDS),
+      version: z.string(),
+    })
+    .optional(),
+  outputLanguage: z.enum(OUTPUT_LANGUAGES).optional(),
+  translation: z
+    .object({
+      language: z.enum(EXPLANATION_LANGUAGES),
+      explanation: z.string(),
+      choiceExplanations: z.array(
+        z.object({
+          choiceNumber: ChoiceNumberSchema,
+          explanation: z.string(),
+        })
+      ),
+      learningPoints: z.array(z.string()),
+      similarQuestionsHint: z.string().optional(),
+    })
+    .optional(),
+  generationSettings: z.array(GenerationSettingsSchema).optional(),
+  mentorThread: z
+    .array(
+      z.object({
+        id: z.string(),
+        role: z.enum(["user", "mentor"]),
+        content: z.string(),
+        createdAt: z.string(),
+        model: z.string().optional(),
+        promotedToLearningPoints: z.boolean().optional(),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * 現在のバージョンのアーカイブのスキーマ
+ */
+const BackupArchiveSchema = z.object({
+  format: z.literal(BACKUP_ARCHIVE_FORMAT),
+  version: z.literal(BACKUP_ARCHIVE_VERSION),
+  createdAt: z.string(),
+  source: z.object({
+    repositoryType: z.enum(["notion", "local"]),
+    databaseId: z.string().optional(),
+  }),
+  questions: z.array(BackupNoteSchema),
+});
+
+/**
+ * アーカイブを検証
+ * 将来バージョンを上げる場合は、ここで旧バージョンを現在の形式に変換してから検証する
+ *
+ * @param data - JSON.parse したアーカイブ
+ * @throws 形式・バージョンが不正、または問題データが不正な場合
+ */
+export function parseBackupArchive(data: unknown): QuestionBackupArchive {
+  const header = z
+    .object({ format: z.string(), version: z.number() })
+    .safeParse(data);
+  if (!header.success || header.data.format !== BACKUP_ARCHIVE_FORMAT) {
+    throw new Error("Not a question backup archive");
+  }
+  if (header.data.version > BACKUP_ARCHIVE_VERSION) {
+    throw new Error(
+      `Unsupported backup archive version ${header.data.version} (this server supports up to ${BACKUP_ARCHIVE_VERSION})`
+    );
+  }
+
+  const result = BackupArchiveSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(
+      `Invalid backup archive: ${result.error.errors
+        .slice(0, 10)
+        .map((e) => `${e.path.join(".")}: ${e.message}`)
+        .join(", ")}`
+    );
+  }
+  return result.data;
+}
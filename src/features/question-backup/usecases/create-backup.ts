@@ -0,0 +1,56 @@
+/**
+ * Create Backup Use Case - ユースケース層
+ * 問題バンク全体をバージョン付きの JSON アーカイブとして出力
+ */
+
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import type { QuestionRepository } from "@/features/aws-note/entities/question-repository";
+import {
+  BACKUP_ARCHIVE_FORMAT,
+  BACKUP_ARCHIVE_VERSION,
+  type QuestionBackupArchive,
+} from "../entities/types";
+
+/**
+ * バックアップ作成ユースケース
+ */
+export class CreateBackupUseCase {
+  /**
+   * コンストラクタ
+   * @param questionRepository - 問題リポジトリ（依存注入）
+   */
+  constructor(private questionRepository: QuestionRepository) {}
+
+  /**
+   * すべての問題をアーカイブにまとめる
+   * キャッシュの取りこぼしがないよう、保存先から全件を再取得する
+   *
+   * @param source - バックアップ元の情報
+   */
+  async execute(
+    source: QuestionBackupArchive["source"]
+  ): Promise<QuestionBackupArchive> {
+    logger.info("CreateBackupUseCase.execute called", { ...source });
+
+    try {
+      const questions = await this.questionRepository.getAllQuestions({
+        forceRefresh: true,
+      });
+
+      logger.info("Backup created successfully", {
+        questionCount: questions.length,
+      });
+
+      return {
+        format: BACKUP_ARCHIVE_FORMAT,
+        version: BACKUP_ARCHIVE_VERSION,
+        createdAt: new Date().toISOString(),
+        source,
+        questions,
+      };
+    } catch (error) {
+      logger.error("Failed to create backup", error as Error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ExamQuestionNote } from "@/features/aws-note/entities/types";
+import { LocalQuestionRepository } from "@/features/aws-note/infrastructure/local-question-repository";
+import {
+  BACKUP_ARCHIVE_FORMAT,
+  BACKUP_ARCHIVE_VERSION,
+  type QuestionBackupArchive,
+  type RestoreAction,
+  type RestoreConflictStrategy,
+} from "../entities/types";
+import { RestoreBackupUseCase } from "./restore-backup";
+
+/**
+ * 復元先に保存した時点より前・後の更新日時
+ */
+const OLDER = "2000-01-01T00:00:00.000Z";
+const NEWER = "2999-01-01T00:00:00.000Z";
+
+function question(questionText: string): ExamQuestionNote {
+  return {
+    questionText,
+    choices: ["Multi-AZ RDS", "Single-AZ RDS"],
+    correctAnswer: 1,
+    correctChoiceText: "Multi-AZ RDS",
+    explanation: "復元先の解説",
+    relatedServices: ["Amazon RDS"],
+    wellArchitectedCategories: ["reliability"],
+    choiceExplanations: [],
+    learningPoints: [],
+  };
+}
+
+function archiveOf(questions: ExamQuestionNote[]): QuestionBackupArchive {
+  return {
+    format: BACKUP_ARCHIVE_FORMAT,
+    version: BACKUP_ARCHIVE_VERSION,
+    createdAt: NEWER,
+    source: { repositoryType: "local" },
+    questions,
+  };
+}
+
+describe("RestoreBackupUseCase", () => {
+  let dir: string;
+  let repository: LocalQuestionRepository;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "restore-backup-"));
+    repository = new LocalQuestionRepository(path.join(dir, "questions.json"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * 復元先に問題を1件保存し、アーカイブ側の問題を組み立てる
+   */
+  async function prepare(archived: "new" | "same" | "changed") {
+    const current = question("既存の問題");
+    const id = await repository.upsertQuestionNote(current);
+    if (archived === "new") {
+      return { id, note: { ...question("新しい問題"), id: "archived-id" } };
+    }
+    return {
+      id,
+      note: {
+        ...current,
+        id,
+        explanation: archived === "same" ? current.explanation : "別の解説",
+      },
+    };
+  }
+
+  const matrix: [
+    RestoreConflictStrategy,
+    "new" | "same" | "changed",
+    string | undefined,
+    RestoreAction,
+  ][] = [
+    ["skip", "new", undefined, "create"],
+    ["skip", "same", OLDER, "unchanged"],
+    ["skip", "changed", NEWER, "skip-conflict"],
+    ["overwrite", "new", undefined, "create"],
+    ["overwrite", "same", NEWER, "unchanged"],
+    ["overwrite", "changed", OLDER, "update"],
+    ["overwrite", "changed", undefined, "update"],
+    ["keep-newer", "new", undefined, "create"],
+    ["keep-newer", "same", NEWER, "unchanged"],
+    ["keep-newer", "changed", NEWER, "update"],
+    ["keep-newer", "changed", OLDER, "skip-conflict"],
+    ["keep-newer", "changed", undefined, "skip-conflict"],
+  ];
+
+  it.each(matrix)(
+    "%s: %s の問題（更新日時 %s）は %s になる",
+    async (strategy, kind, updatedAt, expected) => {
+      const { id, note } = await prepare(kind);
+      const archive = archiveOf([{ ...note, updatedAt }]);
+
+      const dryRun = await new RestoreBackupUseCase(repository).execute(
+        archive,
+        { strategy, dryRun: true }
+      );
+      expect(dryRun.entries.map((entry) => entry.action)).toEqual([expected]);
+      expect(await repository.getAllQuestions()).toHaveLength(1);
+
+      const result = await new RestoreBackupUseCase(repository).execute(
+        archive,
+        { strategy }
+      );
+      expect(result.summary[expected]).toBe(1);
+      expect(result.summary.failed).toBe(0);
+
+      const saved = await repository.getAllQuestions();
+      if (expected === "create") {
+        expect(saved).toHaveLength(2);
+        return;
+      }
+      expect(saved).toHaveLength(1);
+      expect(saved[0].id).toBe(id);
+      expect(saved[0].explanation).toBe(
+        expected === "update" ? "別の解説" : "復元先の解説"
+      );
+    }
+  );
+
+  it("差分のあるフィールドを返し、上書き後は差分がなくなる", async () => {
+    const { note } = await prepare("changed");
+    const archive = archiveOf([
+      { ...note, analysisWarnings: [], mentorThread: undefined },
+    ]);
+    await repository.upsertQuestionNote({
+      ...note,
+      explanation: "復元先の解説",
+      analysisWarnings: ["確認が必要な点"],
+      mentorThread: [
+        {
+          id: "m1",
+          role: "user",
+          content: "質問",
+          createdAt: OLDER,
+        },
+      ],
+    });
+
+    const useCase = new RestoreBackupUseCase(repository);
+    const before = await useCase.execute(archive, {
+      strategy: "overwrite",
+      dryRun: true,
+    });
+    expect(before.entries[0].changedFields).toEqual([
+      "explanation",
+      "analysisWarnings",
+      "mentorThread",
+    ]);
+
+    await useCase.execute(archive, { strategy: "overwrite" });
+    const after = await useCase.execute(archive, {
+      strategy: "overwrite",
+      dryRun: true,
+    });
+    expect(after.entries[0].action).toBe("unchanged");
+  });
+
+  it("ノートIDが異なっても問題文と選択肢が一致する問題に対応付ける", async () => {
+    const { id, note } = await prepare("changed");
+    const result = await new RestoreBackupUseCase(repository).execute(
+      archiveOf([{ ...note, id: "other-id" }]),
+      { strategy: "overwrite" }
+    );
+
+    expect(result.entries[0]).toMatchObject({
+      action: "update",
+      archivedId: "other-id",
+      targetId: id,
+    });
+  });
+});
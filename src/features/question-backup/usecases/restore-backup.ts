@@ -0,0 +1,206 @@
+/**
+ * Restore Backup Use Case - ユースケース層
+ * バックアップアーカイブを問題リポジトリに復元
+ */
+
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import { computeQuestionFingerprint } from "@/features/aws-note/infrastructure/question-fingerprint";
+import type { QuestionRepository } from "@/features/aws-note/entities/question-repository";
+import type { ExamQuestionNote } from "@/features/aws-note/entities/types";
+import type {
+  QuestionBackupArchive,
+  RestoreEntryResult,
+  RestoreOptions,
+  RestoreResult,
+} from "../entities/types";
+
+/**
+ * 一覧表示用に切り詰める問題文の文字数
+ */
+const QUESTION_PREVIEW_LENGTH = 60;
+
+/**
+ * 差分の比較対象とするフィールド（ID・日時は保存先ごとに異なるため除外）
+ */
+const CONTENT_FIELDS = [
+  "questionText",
+  "choices",
+  "correctAnswer",
+  "correctChoiceText",
+  "explanation",
+  "relatedServices",
+  "wellArchitectedCategories",
+  "choiceExplanations",
+  "architectureDiagram",
+  "learningPoints",
+  "similarQuestionsHint",
+  "answerConfidence",
+  "analysisWarnings",
+  "promptTemplate",
+  "outputLanguage",
+  "translation",
+  "generationSettings",
+  "mentorThread",
+] as const satisfies readonly (keyof ExamQuestionNote)[];
+
+/**
+ * 比較用の値
+ * 保存先によっては空の配列を未設定として読み戻すため、両者を同じ値として扱う
+ */
+function toComparable(value: unknown): string {
+  return JSON.stringify(
+    Array.isArray(value) && value.length === 0 ? null : (value ?? null)
+  );
+}
+
+/**
+ * 内容が異なるフィールドを列挙
+ */
+function diffFields(a: ExamQuestionNote, b: ExamQuestionNote): string[] {
+  return CONTENT_FIELDS.filter(
+    (field) => toComparable(a[field]) !== toComparable(b[field])
+  );
+}
+
+/**
+ * 保存先ごとに異なるIDと日時を除いた内容
+ * 書き込み時のIDは復元先のものを使い、日時は保存先が設定する
+ */
+function toContent(note: ExamQuestionNote): ExamQuestionNote {
+  const { id, createdAt, updatedAt, ...content } = note;
+  return content;
+}
+
+/**
+ * 日時の比較用の値（不明な場合は null）
+ */
+function toTime(value?: string): number | null {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * バックアップ復元ユースケース
+ */
+export class RestoreBackupUseCase {
+  /**
+   * コンストラクタ
+   * @param questionRepository - 復元先の問題リポジトリ（依存注入）
+   */
+  constructor(private questionRepository: QuestionRepository) {}
+
+  /**
+   * アーカイブを復元
+   * 既存の問題はノートIDで、見つからなければ問題文と選択肢のフィンガープリントで対応付ける
+   *
+   * @param archive - 検証済みのアーカイブ
+   * @param options - 競合時の戦略と dryRun
+   * @returns 問題ごとの差分と結果
+   */
+  async execute(
+    archive: QuestionBackupArchive,
+    options: RestoreOptions
+  ): Promise<RestoreResult> {
+    const dryRun = options.dryRun ?? false;
+    logger.info("RestoreBackupUseCase.execute called", {
+      questionCount: archive.questions.length,
+      archiveCreatedAt: archive.createdAt,
+      strategy: options.strategy,
+      dryRun,
+    });
+
+    const existing = await this.questionRepository.getAllQuestions({
+      forceRefresh: true,
+    });
+    const existingById = new Map(
+      existing.filter((q) => q.id).map((q) => [q.id as string, q])
+    );
+    const existingByFingerprint = new Map(
+      existing.map((q) => [computeQuestionFingerprint(q), q])
+    );
+
+    const entries: RestoreEntryResult[] = [];
+    const writes: { entry: RestoreEntryResult; note: ExamQuestionNote }[] = [];
+
+    for (const archived of archive.questions) {
+      const current =
+        (archived.id && existingById.get(archived.id)) ||
+        existingByFingerprint.get(computeQuestionFingerprint(archived));
+
+      const entry: RestoreEntryResult = {
+        archivedId: archived.id,
+        targetId: current?.id,
+        action: "create",
+        questionPreview: archived.questionText.slice(
+          0,
+          QUESTION_PREVIEW_LENGTH
+        ),
+      };
+      entries.push(entry);
+
+      const content = toContent(archived);
+      if (!current) {
+        writes.push({ entry, note: content });
+        continue;
+      }
+
+      const changedFields = diffFields(archived, current);
+      if (changedFields.length === 0) {
+        entry.action = "unchanged";
+        continue;
+      }
+      entry.changedFields = changedFields;
+
+      const archivedTime = toTime(archived.updatedAt);
+      const currentTime = toTime(current.updatedAt);
+      const shouldOverwrite =
+        options.strategy === "overwrite" ||
+        (options.strategy === "keep-newer" &&
+          archivedTime !== null &&
+          (currentTime === null || archivedTime > currentTime));
+
+      if (shouldOverwrite) {
+        entry.action = "update";
+        writes.push({ entry, note: { ...content, id: current.id } });
+      } else {
+        entry.action = "skip-conflict";
+      }
+    }
+
+    let failed = 0;
+    if (!dryRun) {
+      // リポジトリへの書き込みは1件ずつ（Notion API のレート制限対策）
+      for (const { entry, note } of writes) {
+        try {
+          entry.targetId =
+            await this.questionRepository.upsertQuestionNote(note);
+        } catch (error) {
+          failed++;
+          entry.error =
+            error instanceof Error ? error.message : "Unknown error";
+          logger.error("Failed to restore question", error as Error, {
+            archivedId: entry.archivedId,
+          });
+        }
+      }
+    }
+
+    const summary: RestoreResult["summary"] = {
+      create: 0,
+      update: 0,
+      unchanged: 0,
+      "skip-conflict": 0,
+      failed,
+    };
+    for (const entry of entries) {
+      summary[entry.action]++;
+    }
+
+    logger.info("RestoreBackupUseCase.execute completed", {
+      ...summary,
+      dryRun,
+    });
+
+    return { dryRun, strategy: options.strategy, entries, summary };
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Question Export - エンティティ層
+ * ドメインオブジェクトの型定義
+ */
+
+import type { QuestionRepositoryType } from "@/features/aws-note/entities/question-repository";
+import type { ExamQuestionNote } from "@/features/aws-note/entities/types";
+
+/**
+ * エクスポートされたファイル
+ */
+export interface ExportedFile {
+  /** ダウンロード時のファイル名 */
+  fileName: string;
+  /** Content-Type ヘッダー */
+  contentType: string;
+  /** ファイルの内容（zip などのバイナリは ArrayBuffer） */
+  content: string | ArrayBuffer;
+  /** 含まれる問題数 */
+  questionCount: number;
+}
+
+/**
+ * Anki のカードへのアーキテクチャ図の出力方法
+ * - source: Mermaid のソースをテキストとして含める（オフラインで表示でき、外部に送信しない）
+ * - image: 外部のレンダリングサービス（mermaid.ink）の画像を参照する（図のソースを送信する）
+ * - none: 含めない
+ */
+export type AnkiDiagramMode = "source" | "image" | "none";
+
+/**
+ * Anki エクスポートのオプション
+ */
+export interface AnkiExportOptions {
+  /** インポート先のデッキ名 */
+  deckName?: string;
+  /** アーキテクチャ図の出力方法（省略時は source） */
+  diagramMode?: AnkiDiagramMode;
+}
+
+/**
+ * Markdown エクスポートのオプション
+ */
+export interface MarkdownExportOptions {
+  /** 問題の保存先（notion の場合はページIDを front matter に含める） */
+  repositoryType?: QuestionRepositoryType;
+}
+
+/**
+ * アーカイブに含める1ファイル
+ */
+export interface ArchiveEntry {
+  /** アーカイブ内のパス（"/" 区切り） */
+  path: string;
+  /** ファイルの内容 */
+  content: string;
+}
+
+/**
+ * 問題ノートをエクスポート形式に変換するフォーマッター
+ */
+export interface QuestionExportFormatter<T> {
+  /**
+   * 問題ノートを変換
+   * @param notes - 変換する問題ノート
+   */
+  format(notes: ExamQuestionNote[]): T;
+}
+
+/**
+ * ファイル一覧を1つのアーカイブにまとめる
+ * @param entries - アーカイブに含めるファイル
+ * @param rootDir - すべてのファイルを格納するフォルダ名
+ */
+export type ArchiveBuilder = (
+  entries: ArchiveEntry[],
+  rootDir: string
+) => Promise<ArrayBuffer>;
@@ -0,0 +1,175 @@
+/**
+ * Anki Deck Formatter - インフラストラクチャ層
+ * 問題ノートを Anki でインポート可能なタブ区切りテキストに変換
+ */
+
+import type { ExamQuestionNote } from "@/features/aws-note/entities/types";
+import { validateAndFixMermaid } from "@/features/aws-note/infrastructure/mermaid-validator";
+import { computeQuestionFingerprint } from "@/features/aws-note/infrastructure/question-fingerprint";
+import type { AnkiDiagramMode, AnkiExportOptions } from "../entities/types";
+
+/**
+ * デフォルトのデッキ名
+ */
+export const DEFAULT_ANKI_DECK_NAME = "AWS SAA";
+
+/**
+ * Mermaid 図を画像として配信するレンダリングサービス（diagramMode が image の場合のみ使用）
+ */
+const MERMAID_IMAGE_BASE_URL = "https://mermaid.ink/img/";
+
+/**
+ * デッキ名からヘッダー行を壊す文字（改行・タブ）を取り除く
+ * 改行を含むと "#deck:" 行の後に任意のヘッダー行を追加できてしまう
+ */
+function sanitizeDeckName(deckName: string | undefined): string {
+  const sanitized = (deckName ?? "").replace(/[\r\n\t]+/g, " ").trim();
+  return sanitized || DEFAULT_ANKI_DECK_NAME;
+}
+
+/**
+ * HTMLの特殊文字をエスケープし、改行を <br> に変換
+ * タブ区切りの列を壊さないよう、タブも空白に置き換える
+ */
+function toHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\t/g, " ")
+    .replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Anki のタグに使えるよう空白を置き換える
+ */
+function toTag(prefix: string, value: string): string {
+  return `${prefix}::${value.trim().replace(/\s+/g, "_")}`;
+}
+
+/**
+ * Anki デッキフォーマッター
+ * 1問を1行（GUID・表面・裏面・タグ）として出力する
+ */
+export class AnkiDeckFormatter {
+  private deckName: string;
+  private diagramMode: AnkiDiagramMode;
+
+  /**
+   * コンストラクタ
+   * @param options - デッキ名や図の出力方法
+   */
+  constructor(options: AnkiExportOptions = {}) {
+    this.deckName = sanitizeDeckName(options.deckName);
+    this.diagramMode = options.diagramMode ?? "source";
+  }
+
+  /**
+   * 問題ノートを Anki インポート用テキストに変換
+   * @param notes - エクスポートする問題ノート
+   * @returns ヘッダー付きのタブ区切りテキスト
+   */
+  format(notes: ExamQuestionNote[]): string {
+    const header = [
+      "#separator:tab",
+      "#html:true",
+      "#notetype:Basic",
+      `#deck:${this.deckName}`,
+      "#guid column:1",
+      "#tags column:4",
+    ];
+
+    const rows = notes.map((note) =>
+      [
+        // 再エクスポート時に Anki 側で同じカードとして更新されるよう固定のIDを使う
+        note.id ?? computeQuestionFingerprint(note),
+        this.buildFront(note),
+        this.buildBack(note),
+        this.buildTags(note),
+      ].join("\t")
+    );
+
+    return [...header, ...rows].join("\n") + "\n";
+  }
+
+  /**
+   * 表面: 問題文と選択肢
+   */
+  private buildFront(note: ExamQuestionNote): string {
+    const choices = note.choices
+      .map((choice) => `<li>${toHtml(choice)}</li>`)
+      .join("");
+    return `${toHtml(note.questionText)}<ol>${choices}</ol>`;
+  }
+
+  /**
+   * 裏面: 正解・解説・各選択肢の解説・学習ポイント・アーキテクチャ図
+   */
+  private buildBack(note: ExamQuestionNote): string {
+    const correctAnswers = Array.isArray(note.correctAnswer)
+      ? note.correctAnswer
+      : [note.correctAnswer];
+
+    const sections = [
+      `<b>正解: ${correctAnswers.join(", ")}</b> ${toHtml(note.correctChoiceText)}`,
+      toHtml(note.explanation),
+    ];
+
+    if (note.choiceExplanations.length > 0) {
+      const items = note.choiceExplanations
+        .map(
+          (ce) =>
+            `<li>${ce.isCorrect ? "✓" : "✗"} ${toHtml(ce.choiceText)}: ${toHtml(ce.explanation)}</li>`
+        )
+        .join("");
+      sections.push(`<b>各選択肢の解説</b><ol>${items}</ol>`);
+    }
+
+    if (note.learningPoints.length > 0) {
+      const items = note.learningPoints
+        .map((point) => `<li>${toHtml(point)}</li>`)
+        .join("");
+      sections.push(`<b>学習ポイント</b><ul>${items}</ul>`);
+    }
+
+    const diagram = this.buildDiagram(note.architectureDiagram);
+    if (diagram) {
+      sections.push(diagram);
+    }
+
+    return sections.join("<br><br>");
+  }
+
+  /**
+   * タグ: 関連サービスと Well-Architected の柱
+   */
+  private buildTags(note: ExamQuestionNote): string {
+    return [
+      ...note.relatedServices.map((service) => toTag("service", service)),
+      ...note.wellArchitectedCategories.map((pillar) =>
+        toTag("pillar", pillar)
+      ),
+    ].join(" ");
+  }
+
+  /**
+   * アーキテクチャ図を diagramMode に応じて HTML に変換
+   * image の場合のみ、レンダリングした画像の URL を参照する（図のソースが外部サービスに送信される）
+   */
+  private buildDiagram(diagram?: string): string | null {
+    if (this.diagramMode === "none" || !diagram?.trim()) {
+      return null;
+    }
+    const validation = validateAndFixMermaid(diagram);
+    const code = validation.fixedCode || diagram;
+
+    if (this.diagramMode === "image") {
+      if (!validation.isValid) {
+        return null;
+      }
+      return `<img src="${MERMAID_IMAGE_BASE_URL}${Buffer.from(code, "utf-8").toString("base64url")}">`;
+    }
+    return `<b>アーキテクチャ図（Mermaid）</b><pre>${toHtml(code)}</pre>`;
+  }
+}
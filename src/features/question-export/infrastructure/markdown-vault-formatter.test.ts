@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { ExamQuestionNote } from "@/features/aws-note/entities/types";
+import { MarkdownVaultFormatter } from "./markdown-vault-formatter";
+
+function question(
+  questionText: string,
+  relatedServices: string[]
+): ExamQuestionNote {
+  return {
+    questionText,
+    choices: ["WAF を使う", "Shield を使う"],
+    correctAnswer: 1,
+    correctChoiceText: "WAF を使う",
+    explanation: "解説",
+    relatedServices,
+    wellArchitectedCategories: ["security"],
+    choiceExplanations: [],
+    learningPoints: [],
+  };
+}
+
+function servicePaths(notes: ExamQuestionNote[]): string[] {
+  return new MarkdownVaultFormatter()
+    .format(notes)
+    .map((entry) => entry.path)
+    .filter((entryPath) => entryPath.startsWith("services/"));
+}
+
+describe("MarkdownVaultFormatter", () => {
+  it("置き換え後に同じ名前になるサービスに別々のファイル名を割り当てる", () => {
+    const paths = servicePaths([
+      question("SQLインジェクションを防ぐには", ["AWS WAF/Shield"]),
+      question("DDoS攻撃を緩和するには", ["AWS WAF Shield"]),
+    ]);
+
+    expect(paths).toEqual([
+      "services/AWS WAF Shield.md",
+      "services/AWS WAF Shield (2).md",
+    ]);
+  });
+
+  it("大文字・小文字だけが異なるサービスも別のファイルにする", () => {
+    const paths = servicePaths([
+      question("問題1", ["Amazon S3"]),
+      question("問題2", ["amazon s3"]),
+    ]);
+
+    expect(new Set(paths.map((p) => p.toLowerCase())).size).toBe(2);
+  });
+
+  it("使える文字が残らないサービス名には代わりのファイル名を使う", () => {
+    const paths = servicePaths([question("問題1", ["/:*?"])]);
+
+    expect(paths).toEqual(["services/service.md"]);
+  });
+
+  it("問題ページとインデックスのリンクは割り当てたファイル名を指す", () => {
+    const entries = new MarkdownVaultFormatter().format([
+      question("SQLインジェクションを防ぐには", ["AWS WAF/Shield"]),
+      question("DDoS攻撃を緩和するには", ["AWS WAF Shield"]),
+    ]);
+    const content = entries.map((entry) => entry.content).join("\n");
+
+    expect(content).toContain("[[services/AWS WAF Shield|AWS WAF Shield]]");
+    expect(content).toContain(
+      "[[services/AWS WAF Shield (2)|AWS WAF/Shield]]"
+    );
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Markdown Vault Formatter - インフラストラクチャ層
+ * 問題ノートを Obsidian で開ける Markdown ファイル群に変換
+ */
+
+import type {
+  ExamQuestionNote,
+  WellArchitectedPillar,
+} from "@/features/aws-note/entities/types";
+import { WELL_ARCHITECTED_PILLAR_NAMES } from "@/features/aws-note/entities/well-architected";
+import { computeQuestionFingerprint } from "@/features/aws-note/infrastructure/question-fingerprint";
+import type { ArchiveEntry, MarkdownExportOptions } from "../entities/types";
+
+/**
+ * 問題ファイルを置くフォルダ
+ */
+const QUESTIONS_DIR = "questions";
+
+/**
+ * サービス別インデックスを置くフォルダ
+ */
+const SERVICES_DIR = "services";
+
+/**
+ * ファイル名に使う問題文の最大文字数
+ */
+const TITLE_MAX_LENGTH = 40;
+
+/**
+ * ファイル名に使える文字が残らないサービス名のファイル名
+ */
+const UNTITLED_SERVICE_FILE_NAME = "service";
+
+/**
+ * ファイル名（wiki-link のリンク先）に使えない文字を置き換える
+ */
+function toFileName(text: string): string {
+  return text
+    .replace(/[\\/:*?"<>|#^[\]]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * YAML のスカラー値（JSON 形式の文字列は YAML のダブルクォート文字列として有効）
+ */
+function yamlValue(value: string | number): string {
+  return typeof value === "number" ? String(value) : JSON.stringify(value);
+}
+
+/**
+ * YAML front matter を生成
+ */
+function frontMatter(fields: Record<string, string | number | string[]>): string {
+  const lines = Object.entries(fields).map(([key, value]) => {
+    if (!Array.isArray(value)) {
+      return `${key}: ${yamlValue(value)}`;
+    }
+    if (value.length === 0) {
+      return `${key}: []`;
+    }
+    return [`${key}:`, ...value.map((item) => `  - ${yamlValue(item)}`)].join(
+      "\n"
+    );
+  });
+  return ["---", ...lines, "---"].join("\n");
+}
+
+/**
+ * Markdown Vault フォーマッター
+ * 1問1ファイルに加え、サービス別・柱別のインデックスページを出力する
+ */
+export class MarkdownVaultFormatter {
+  constructor(private options: MarkdownExportOptions = {}) {}
+
+  /**
+   * 問題ノートを Vault 内のファイル一覧に変換
+   * @param notes - エクスポートする問題ノート
+   * @returns アーカイブに含めるファイル
+   */
+  format(notes: ExamQuestionNote[]): ArchiveEntry[] {
+    const fileNames = this.assignFileNames(notes);
+
+    const questionsByService = new Map<string, string[]>();
+    notes.forEach((note, index) => {
+      for (const service of note.relatedServices) {
+        const list = questionsByService.get(service) ?? [];
+        list.push(fileNames[index]);
+        questionsByService.set(service, list);
+      }
+    });
+    const services = Array.from(questionsByService.keys()).sort((a, b) =>
+      a.localeCompare(b)
+    );
+    const serviceFileNames = this.assignServiceFileNames(services);
+
+    const entries: ArchiveEntry[] = notes.map((note, index) => ({
+      path: `${QUESTIONS_DIR}/${fileNames[index]}.md`,
+      content: this.buildQuestionPage(note, serviceFileNames),
+    }));
+
+    for (const service of services) {
+      const names = questionsByService.get(service) ?? [];
+      entries.push({
+        path: `${SERVICES_DIR}/${serviceFileNames.get(service)}.md`,
+        content: [
+          `# ${service}`,
+          "",
+          ...names.map((name) => `- [[${QUESTIONS_DIR}/${name}|${name}]]`),
+          "",
+        ].join("\n"),
+      });
+    }
+
+    entries.push({
+      path: "index.md",
+      content: this.buildIndexPage(notes, fileNames, serviceFileNames),
+    });
+
+    return entries;
+  }
+
+  /**
+   * 問題ごとに一意なファイル名を割り当てる
+   * 問題文の先頭とIDの一部を組み合わせ、同じ書き出しの問題でも衝突しないようにする
+   */
+  private assignFileNames(notes: ExamQuestionNote[]): string[] {
+    return notes.map((note) => {
+      const id = (note.id ?? computeQuestionFingerprint(note))
+        .replace(/-/g, "")
+        .slice(0, 8);
+      const title = toFileName(note.questionText).slice(0, TITLE_MAX_LENGTH);
+      return title ? `${title} (${id})` : id;
+    });
+  }
+
+  /**
+   * サービスごとに一意なファイル名を割り当てる
+   * 使えない文字を置き換えると同じ名前になるサービス（例: "AWS WAF/Shield" と "AWS WAF Shield"）は、
+   * 大文字・小文字を区別しないファイルシステムでも衝突しないよう連番を付ける
+   *
+   * @param services - 並び順を決めたサービス名（連番はこの順に付ける）
+   * @returns サービス名からファイル名への対応
+   */
+  private assignServiceFileNames(services: string[]): Map<string, string> {
+    const fileNames = new Map<string, string>();
+    const used = new Set<string>();
+    for (const service of services) {
+      const base = toFileName(service) || UNTITLED_SERVICE_FILE_NAME;
+      let fileName = base;
+      for (let n = 2; used.has(fileName.toLowerCase()); n++) {
+        fileName = `${base} (${n})`;
+      }
+      used.add(fileName.toLowerCase());
+      fileNames.set(service, fileName);
+    }
+    return fileNames;
+  }
+
+  /**
+   * 問題ページ
+   */
+  private buildQuestionPage(
+    note: ExamQuestionNote,
+    serviceFileNames: Map<string, string>
+  ): string {
+    const correctAnswers = Array.isArray(note.correctAnswer)
+      ? note.correctAnswer
+      : [note.correctAnswer];
+
+    const fields: Record<string, string | number | string[]> = {
+      services: note.relatedServices,
+      pillars: note.wellArchitectedCategories,
+      correct_answer:
+        correctAnswers.length === 1
+          ? correctAnswers[0]
+          : correctAnswers.map(String),
+    };
+    if (note.answerConfidence) {
+      fields.answer_confidence =
+        Math.round(note.answerConfidence.score * 100) / 100;
+    }
+    if (this.options.repositoryType === "notion" && note.id) {
+      fields.notion_page_id = note.id;
+    }
+
+    const sections = [
+      frontMatter(fields),
+      "## 問題文",
+      note.questionText,
+      "## 選択肢",
+      note.choices.map((choice, i) => `${i + 1}. ${choice}`).join("\n"),
+      "## 正解",
+      `${correctAnswers.join(", ")}. ${note.correctChoiceText}`,
+      "## 解説",
+      note.explanation,
+    ];
+
+    if (note.choiceExplanations.length > 0) {
+      sections.push(
+        "## 各選択肢の解説",
+        note.choiceExplanations
+          .map(
+            (ce) =>
+              `### 選択肢${ce.choiceNumber}: ${ce.choiceText} ${ce.isCorrect ? "✓" : "✗"}\n\n${ce.explanation}`
+          )
+          .join("\n\n")
+      );
+    }
+
+    if (note.learningPoints.length > 0) {
+      sections.push(
+        "## 学習ポイント",
+        note.learningPoints.map((point) => `- ${point}`).join("\n")
+      );
+    }
+
+    if (note.architectureDiagram) {
+      sections.push(
+        "## アーキテクチャ図",
+        ["```mermaid", note.architectureDiagram.trim(), "```"].join("\n")
+      );
+    }
+
+    if (note.similarQuestionsHint) {
+      sections.push("## 類似問題へのヒント", note.similarQuestionsHint);
+    }
+
+    if (note.relatedServices.length > 0) {
+      sections.push(
+        "## 関連サービス",
+        note.relatedServices
+          .map(
+            (service) =>
+              `- [[${SERVICES_DIR}/${serviceFileNames.get(service)}|${service}]]`
+          )
+          .join("\n")
+      );
+    }
+
+    if (note.wellArchitectedCategories.length > 0) {
+      sections.push(
+        "## Well-Architected",
+        note.wellArchitectedCategories
+          .map((pillar) => `- ${WELL_ARCHITECTED_PILLAR_NAMES[pillar]}`)
+          .join("\n")
+      );
+    }
+
+    return sections.join("\n\n") + "\n";
+  }
+
+  /**
+   * Vault のトップページ（柱ごとの問題一覧とサービス一覧）
+   */
+  private buildIndexPage(
+    notes: ExamQuestionNote[],
+    fileNames: string[],
+    serviceFileNames: Map<string, string>
+  ): string {
+    const lines = ["# AWS SAA 問題バンク", "", `問題数: ${notes.length}`, ""];
+
+    for (const pillar of Object.keys(
+      WELL_ARCHITECTED_PILLAR_NAMES
+    ) as WellArchitectedPillar[]) {
+      const names = fileNames.filter((_, i) =>
+        notes[i].wellArchitectedCategories.includes(pillar)
+      );
+      if (names.length === 0) continue;
+      lines.push(`## ${WELL_ARCHITECTED_PILLAR_NAMES[pillar]}`, "");
+      lines.push(
+        ...names.map((name) => `- [[${QUESTIONS_DIR}/${name}|${name}]]`),
+        ""
+      );
+    }
+
+    if (serviceFileNames.size > 0) {
+      lines.push("## 関連サービス", "");
+      lines.push(
+        ...Array.from(serviceFileNames).map(
+          ([service, fileName]) =>
+            `- [[${SERVICES_DIR}/${fileName}|${service}]]`
+        ),
+        ""
+      );
+    }
+
+    return lines.join("\n");
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Zip Archive - インフラストラクチャ層
+ * エクスポートしたファイル群を zip にまとめる
+ */
+
+import JSZip from "jszip";
+import type { ArchiveEntry } from "../entities/types";
+
+/**
+ * ファイル一覧から zip アーカイブを生成
+ * @param entries - アーカイブに含めるファイル
+ * @param rootDir - すべてのファイルを格納するフォルダ名
+ */
+export async function createZipArchive(
+  entries: ArchiveEntry[],
+  rootDir: string
+): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  const folder = zip.folder(rootDir) ?? zip;
+
+  for (const entry of entries) {
+    folder.file(entry.path, entry.content);
+  }
+
+  return zip.generateAsync({ type: "arraybuffer", compression: "DEFLATE" });
+}
@@ -0,0 +1,54 @@
+/**
+ * Export Anki Deck Use Case - ユースケース層
+ * 問題バンクを Anki デッキとしてエクスポート
+ */
+
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import type { QuestionRepository } from "@/features/aws-note/entities/question-repository";
+import type {
+  ExportedFile,
+  QuestionExportFormatter,
+} from "../entities/types";
+
+/**
+ * Anki デッキエクスポートユースケース
+ */
+export class ExportAnkiDeckUseCase {
+  /**
+   * コンストラクタ
+   * @param questionRepository - 問題リポジトリ（依存注入）
+   * @param formatter - Anki デッキフォーマッター（依存注入）
+   */
+  constructor(
+    private questionRepository: QuestionRepository,
+    private formatter: QuestionExportFormatter<string>
+  ) {}
+
+  /**
+   * すべての問題を Anki インポート用テキストに変換
+   * @returns ダウンロード用のファイル
+   */
+  async execute(): Promise<ExportedFile> {
+    logger.info("ExportAnkiDeckUseCase.execute called");
+
+    try {
+      const notes = await this.questionRepository.getAllQuestions();
+      const content = this.formatter.format(notes);
+      const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+
+      logger.info("Anki deck exported successfully", {
+        questionCount: notes.length,
+      });
+
+      return {
+        fileName: `aws-saa-anki-${date}.txt`,
+        contentType: "text/plain; charset=utf-8",
+        content,
+        questionCount: notes.length,
+      };
+    } catch (error) {
+      logger.error("Failed to export Anki deck", error as Error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Export Markdown Vault Use Case - ユースケース層
+ * 問題バンク（またはフィルターに一致する問題）を Markdown の zip としてエクスポート
+ */
+
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import {
+  MAX_QUESTION_PAGE_SIZE,
+  type QuestionQuery,
+  type QuestionRepository,
+} from "@/features/aws-note/entities/question-repository";
+import type { ExamQuestionNote } from "@/features/aws-note/entities/types";
+import type {
+  ArchiveBuilder,
+  ArchiveEntry,
+  ExportedFile,
+  QuestionExportFormatter,
+} from "../entities/types";
+
+/**
+ * エクスポート対象を絞り込む条件
+ */
+export type MarkdownExportFilter = Pick<
+  QuestionQuery,
+  "services" | "pillars" | "search"
+>;
+
+/**
+ * Markdown Vault エクスポートユースケース
+ */
+export class ExportMarkdownVaultUseCase {
+  /**
+   * コンストラクタ
+   * @param questionRepository - 問題リポジトリ（依存注入）
+   * @param formatter - Markdown Vault フォーマッター（依存注入）
+   * @param buildArchive - zip アーカイブの生成（依存注入）
+   */
+  constructor(
+    private questionRepository: QuestionRepository,
+    private formatter: QuestionExportFormatter<ArchiveEntry[]>,
+    private buildArchive: ArchiveBuilder
+  ) {}
+
+  /**
+   * 条件に一致する問題を Markdown ファイルにして zip にまとめる
+   * @param filter - 絞り込み条件（省略時は全件）
+   * @returns ダウンロード用のファイル
+   */
+  async execute(filter: MarkdownExportFilter = {}): Promise<ExportedFile> {
+    logger.info("ExportMarkdownVaultUseCase.execute called", { filter });
+
+    try {
+      const notes = await this.collectQuestions(filter);
+      const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+      const rootDir = `aws-saa-vault-${date}`;
+      const content = await this.buildArchive(
+        this.formatter.format(notes),
+        rootDir
+      );
+
+      logger.info("Markdown vault exported successfully", {
+        questionCount: notes.length,
+        bytes: content.byteLength,
+      });
+
+      return {
+        fileName: `${rootDir}.zip`,
+        contentType: "application/zip",
+        content,
+        questionCount: notes.length,
+      };
+    } catch (error) {
+      logger.error("Failed to export Markdown vault", error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * 条件に一致する問題をすべてのページにわたって取得
+   */
+  private async collectQuestions(
+    filter: MarkdownExportFilter
+  ): Promise<ExamQuestionNote[]> {
+    const notes: ExamQuestionNote[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this.questionRepository.queryQuestions({
+        ...filter,
+        pageSize: MAX_QUESTION_PAGE_SIZE,
+        cursor,
+      });
+      notes.push(...result.questions);
+      cursor = result.nextCursor ?? undefined;
+    } while (cursor);
+
+    return notes;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Question Import - エンティティ層
+ * ドメインオブジェクトの型定義
+ */
+
+import type {
+  ExamQuestionInput,
+  ExamQuestionNote,
+} from "@/features/aws-note/entities/types";
+
+/**
+ * インポートファイルの形式
+ */
+export type ImportFormat = "csv" | "json";
+
+/**
+ * インポートのオプション
+ */
+export interface ImportOptions {
+  /** 検証と重複チェックのみ行い、保存しない */
+  dryRun?: boolean;
+  /** 正解・解説のない行を LLM の分析キューに追加する */
+  analyzeMissing?: boolean;
+}
+
+/**
+ * 検証済みの行
+ * 正解と解説がそろっている場合は note、問題文と選択肢のみの場合は input
+ */
+export type ValidatedImportRow =
+  | { kind: "note"; note: ExamQuestionNote }
+  | { kind: "input"; input: ExamQuestionInput };
+
+/**
+ * 行ごとの処理内容
+ * - save: 解説付きの問題として保存
+ * - analyze: LLM の分析キューに追加
+ * - skip-duplicate: 問題バンクまたはファイル内の先行行と重複
+ * - skip-unanswered: 正解・解説がなく、分析も行わない
+ * - invalid: 検証エラー
+ */
+export type ImportRowAction =
+  | "save"
+  | "analyze"
+  | "skip-duplicate"
+  | "skip-unanswered"
+  | "invalid";
+
+/**
+ * 行ごとのインポート結果
+ */
+export interface ImportRowResult {
+  /** 行番号（CSVはヘッダーを1行目とした行番号、JSONは1始まりの要素番号） */
+  row: number;
+  action: ImportRowAction;
+  /** 問題文の先頭（一覧表示用） */
+  questionPreview?: string;
+  /** 保存先でのノートID（save が成功した場合） */
+  noteId?: string;
+  /** 検証エラー、または保存時のエラー */
+  errors?: string[];
+}
+
+/**
+ * インポート結果
+ */
+export interface ImportResult {
+  dryRun: boolean;
+  rows: ImportRowResult[];
+  summary: Record<ImportRowAction, number> & {
+    /** 保存に失敗した行数 */
+    failed: number;
+  };
+  /** 分析キューに追加したジョブのID */
+  analysisJobId?: string;
+}
+
+/**
+ * 分析ジョブの状態
+ */
+export interface AnalysisJob {
+  id: string;
+  status: "queued" | "running" | "completed";
+  total: number;
+  completed: number;
+  failed: number;
+  /** 失敗した行とエラーメッセージ */
+  errors: { row: number; message: string }[];
+  createdAt: string;
+}
@@ -0,0 +1,116 @@
+/**
+ * Analysis Queue - インフラストラクチャ層
+ * インポートした問題の Gemini 分析をバックグラウンドで1件ずつ実行するキュー
+ * ジョブはプロセスのメモリ上にのみ保持するため、サーバーを再起動すると未完了のジョブと進捗は失われる
+ * （再インポートすると保存済みの問題は重複としてスキップされる）
+ */
+
+import { randomUUID } from "crypto";
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import type { ExamQuestionInput } from "@/features/aws-note/entities/types";
+import type { AnalysisJob } from "../entities/types";
+
+/**
+ * 状態を保持する完了済みジョブの最大数
+ */
+const MAX_RETAINED_JOBS = 20;
+
+/**
+ * 分析対象の行
+ */
+export interface AnalysisQueueItem {
+  row: number;
+  input: ExamQuestionInput;
+}
+
+/**
+ * ジョブIDごとの状態
+ */
+const jobs = new Map<string, AnalysisJob>();
+
+/**
+ * プロセス全体で分析を直列化するためのキュー（Gemini のレート制限対策）
+ */
+let queueTail: Promise<void> = Promise.resolve();
+
+/**
+ * 完了済みの古いジョブを破棄
+ */
+function pruneJobs(): void {
+  const completed = Array.from(jobs.values()).filter(
+    (job) => job.status === "completed"
+  );
+  for (const job of completed.slice(
+    0,
+    Math.max(0, completed.length - MAX_RETAINED_JOBS)
+  )) {
+    jobs.delete(job.id);
+  }
+}
+
+/**
+ * 分析ジョブをキューに追加
+ * ジョブは前のジョブの完了後に開始され、各行を順番に analyze に渡す
+ *
+ * @param items - 分析対象の行
+ * @param analyze - 1件分の分析と保存
+ * @returns 追加したジョブ
+ */
+export function enqueueAnalysisJob(
+  items: AnalysisQueueItem[],
+  analyze: (input: ExamQuestionInput) => Promise<unknown>
+): AnalysisJob {
+  pruneJobs();
+
+  const job: AnalysisJob = {
+    id: randomUUID(),
+    status: "queued",
+    total: items.length,
+    completed: 0,
+    failed: 0,
+    errors: [],
+    createdAt: new Date().toISOString(),
+  };
+  jobs.set(job.id, job);
+
+  queueTail = queueTail.then(async () => {
+    job.status = "running";
+    logger.info("Analysis job started", { jobId: job.id, total: job.total });
+
+    for (const item of items) {
+      try {
+        await analyze(item.input);
+        job.completed++;
+      } catch (error) {
+        job.failed++;
+        job.errors.push({
+          row: item.row,
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+        logger.warn("Analysis of imported question failed", {
+          jobId: job.id,
+          row: item.row,
+        });
+      }
+    }
+
+    job.status = "completed";
+    logger.info("Analysis job completed", {
+      jobId: job.id,
+      completed: job.completed,
+      failed: job.failed,
+    });
+  });
+
+  return { ...job };
+}
+
+/**
+ * ジョブの状態を取得
+ *
+ * @returns ジョブのスナップショット（存在しない場合は null）
+ */
+export function getAnalysisJob(jobId: string): AnalysisJob | null {
+  const job = jobs.get(jobId);
+  return job ? { ...job, errors: [...job.errors] } : null;
+}
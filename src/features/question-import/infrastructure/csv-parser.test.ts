@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "./csv-parser";
+
+describe("parseCsv", () => {
+  it("カンマ区切りの行を解析する", () => {
+    expect(parseCsv("a,b,c\n1,2,3")).toEqual([
+      ["a", "b", "c"],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("ダブルクォート内のカンマ・改行・エスケープした引用符を保つ", () => {
+    expect(parseCsv('q,"x, y","line1\nline2","say ""hi"""')).toEqual([
+      ["q", "x, y", "line1\nline2", 'say "hi"'],
+    ]);
+  });
+
+  it("CRLF と CR の改行を扱い、末尾の改行で空行を作らない", () => {
+    expect(parseCsv("a,b\r\n1,2\r3,4\r\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+    ]);
+  });
+
+  it("行番号を保つため空行を空のセル1つの行として返す", () => {
+    expect(parseCsv("a\n\nb")).toEqual([["a"], [""], ["b"]]);
+  });
+
+  it("末尾の空のセルを保つ", () => {
+    expect(parseCsv("a,b,\n1,,")).toEqual([
+      ["a", "b", ""],
+      ["1", "", ""],
+    ]);
+  });
+
+  it("先頭の BOM を無視する", () => {
+    expect(parseCsv("﻿questionText\nq")).toEqual([
+      ["questionText"],
+      ["q"],
+    ]);
+  });
+
+  it("閉じられていないダブルクォートはエラーにする", () => {
+    expect(() => parseCsv('a,"b\n1,2')).toThrow(/unterminated/);
+  });
+});
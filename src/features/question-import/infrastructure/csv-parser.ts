@@ -0,0 +1,61 @@
+/**
+ * CSV Parser - インフラストラクチャ層
+ * RFC 4180 形式の CSV（ダブルクォート内の改行・カンマを含む）を解析
+ */
+
+/**
+ * CSV テキストを行・列の配列に変換
+ * 行番号を保つため、空行も空のセル1つの行として返す
+ *
+ * @param text - CSV テキスト（先頭の BOM は無視）
+ * @returns 行ごとのセルの配列
+ * @throws 閉じられていないダブルクォートがある場合
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^﻿/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("CSV has an unterminated quoted field");
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import {
+  readImportRecords,
+  validateImportRecord,
+} from "./import-record-reader";
+
+describe("readImportRecords", () => {
+  it("JSON の配列と questions 配列を受け付ける", () => {
+    const question = { questionText: "q", choices: ["a", "b"] };
+    expect(readImportRecords(JSON.stringify([question]), "json")).toEqual([
+      { row: 1, data: question },
+    ]);
+    expect(
+      readImportRecords(JSON.stringify({ questions: [question] }), "json")
+    ).toEqual([{ row: 1, data: question }]);
+  });
+
+  it("問題の配列を含まない JSON はエラーにする", () => {
+    expect(() => readImportRecords('{"items": []}', "json")).toThrow(
+      /questions/
+    );
+  });
+
+  it("questionText 列のない CSV はエラーにする", () => {
+    expect(() => readImportRecords("question,choice1\nq,a", "csv")).toThrow(
+      /questionText/
+    );
+  });
+
+  it("CSV の列を JSON と同じ形に変換し、ヘッダーを1行目とした行番号を付ける", () => {
+    const csv = [
+      "questionText,choice1,choice2,choice3,correctAnswer,explanation,relatedServices,wellArchitectedCategories,choiceExplanation2,learningPoints",
+      "",
+      'q1,a,b,c,"1, 3",解説,"Amazon S3; AWS KMS",信頼性,b は誤り,"p1\np2"',
+    ].join("\n");
+
+    expect(readImportRecords(csv, "csv")).toEqual([
+      {
+        row: 3,
+        data: {
+          questionText: "q1",
+          choices: ["a", "b", "c"],
+          correctAnswer: ["1", "3"],
+          correctChoiceText: undefined,
+          explanation: "解説",
+          relatedServices: ["Amazon S3", "AWS KMS"],
+          wellArchitectedCategories: ["信頼性"],
+          choiceExplanations: [{ choiceNumber: 2, explanation: "b は誤り" }],
+          architectureDiagram: undefined,
+          learningPoints: ["p1", "p2"],
+          similarQuestionsHint: undefined,
+        },
+      },
+    ]);
+  });
+
+  it("choices 列は改行区切りの選択肢として読む", () => {
+    const [record] = readImportRecords(
+      'questionText,choices\nq,"a\r\nb\n\nc"',
+      "csv"
+    );
+    expect(record.data).toMatchObject({ choices: ["a", "b", "c"] });
+  });
+});
+
+describe("validateImportRecord", () => {
+  it("正解か解説がない行は分析対象の入力にする", () => {
+    expect(
+      validateImportRecord({
+        row: 1,
+        data: { questionText: " q ", choices: ["a", "b"], correctAnswer: 1 },
+      })
+    ).toEqual({
+      ok: true,
+      value: {
+        kind: "input",
+        input: { questionText: "q", choices: ["a", "b"] },
+      },
+    });
+  });
+
+  it("正解と解説がそろった行はノートに変換する", () => {
+    const result = validateImportRecord({
+      row: 1,
+      data: {
+        questionText: "q",
+        choices: ["a", "b", "c"],
+        correctAnswer: ["1", "3"],
+        explanation: "解説",
+        wellArchitectedCategories: ["信頼性", "Security"],
+        choiceExplanations: [{ choiceNumber: 3, explanation: "c は正解" }],
+      },
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        kind: "note",
+        note: {
+          questionText: "q",
+          choices: ["a", "b", "c"],
+          correctAnswer: [1, 3],
+          correctChoiceText: "a / c",
+          explanation: "解説",
+          relatedServices: [],
+          wellArchitectedCategories: ["reliability", "security"],
+          choiceExplanations: [
+            {
+              choiceNumber: 3,
+              choiceText: "c",
+              isCorrect: true,
+              explanation: "c は正解",
+            },
+          ],
+          architectureDiagram: undefined,
+          learningPoints: [],
+          similarQuestionsHint: undefined,
+        },
+      },
+    });
+  });
+
+  it("行のエラーをパス付きで返す", () => {
+    const result = validateImportRecord({
+      row: 1,
+      data: {
+        questionText: "",
+        choices: ["a", "b"],
+        wellArchitectedCategories: ["unknown"],
+      },
+    });
+
+    expect(result.ok).toBe(false);
+    const errors = result.ok ? [] : result.errors;
+    expect(errors).toContain("questionText: questionText is required");
+    expect(
+      errors.some((e) => e.startsWith("wellArchitectedCategories.0:"))
+    ).toBe(true);
+  });
+
+  it("存在しない選択肢の正解はエラーにする", () => {
+    expect(
+      validateImportRecord({
+        row: 1,
+        data: { questionText: "q", choices: ["a", "b"], correctAnswer: 3 },
+      })
+    ).toEqual({
+      ok: false,
+      errors: ["correctAnswer: choice 3 does not exist (2 choices)"],
+    });
+  });
+
+  it("解説があって正解がない行はエラーにする", () => {
+    expect(
+      validateImportRecord({
+        row: 1,
+        data: { questionText: "q", choices: ["a", "b"], explanation: "解説" },
+      })
+    ).toEqual({
+      ok: false,
+      errors: [
+        "correctAnswer: correctAnswer is required when explanation is given",
+      ],
+    });
+  });
+});
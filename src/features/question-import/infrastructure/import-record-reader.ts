@@ -0,0 +1,270 @@
+/**
+ * Import Record Reader - インフラストラクチャ層
+ * CSV / JSON の各行を検証し、ExamQuestionInput または ExamQuestionNote に変換
+ */
+
+import { z } from "zod";
+import type { WellArchitectedPillar } from "@/features/aws-note/entities/types";
+import { WELL_ARCHITECTED_PILLAR_NAMES } from "@/features/aws-note/entities/well-architected";
+import { parseCsv } from "./csv-parser";
+import type { ImportFormat, ValidatedImportRow } from "../entities/types";
+
+/**
+ * 選択肢の最大数（ExamQuestionInput の制約）
+ */
+const MAX_CHOICES = 8;
+
+/**
+ * 未検証の行
+ */
+export interface ImportRecord {
+  /** 行番号（CSVはヘッダーを1行目とした行番号、JSONは1始まりの要素番号） */
+  row: number;
+  data: unknown;
+}
+
+const PILLAR_IDS = Object.keys(
+  WELL_ARCHITECTED_PILLAR_NAMES
+) as WellArchitectedPillar[];
+
+/**
+ * 柱はIDのほか日本語名（例: "信頼性"）も受け付ける
+ */
+const PillarSchema = z.preprocess((value) => {
+  if (typeof value !== "string") return value;
+  const trimmed = value.trim();
+  return (
+    PILLAR_IDS.find((id) => WELL_ARCHITECTED_PILLAR_NAMES[id] === trimmed) ??
+    trimmed.toLowerCase()
+  );
+}, z.enum(PILLAR_IDS as [WellArchitectedPillar, ...WellArchitectedPillar[]]));
+
+const ChoiceNumberSchema = z.coerce.number().int().min(1).max(MAX_CHOICES);
+
+/**
+ * 1行分の問題データのスキーマ
+ * 正解と解説は任意で、そろっていない行は Gemini による分析の対象となる
+ */
+const ImportedQuestionSchema = z
+  .object({
+    questionText: z.string().trim().min(1, "questionText is required"),
+    choices: z
+      .array(z.string().trim().min(1))
+      .min(2, "at least 2 choices are required")
+      .max(MAX_CHOICES, `at most ${MAX_CHOICES} choices are allowed`),
+    correctAnswer: z
+      .union([ChoiceNumberSchema, z.array(ChoiceNumberSchema).min(1)])
+      .optional(),
+    correctChoiceText: z.string().trim().optional(),
+    explanation: z.string().trim().optional(),
+    relatedServices: z.array(z.string().trim().min(1)).default([]),
+    wellArchitectedCategories: z.array(PillarSchema).default([]),
+    choiceExplanations: z
+      .array(
+        z.object({
+          choiceNumber: ChoiceNumberSchema,
+          choiceText: z.string().optional(),
+          isCorrect: z.boolean().optional(),
+          explanation: z.string(),
+        })
+      )
+      .optional(),
+    architectureDiagram: z.string().trim().optional(),
+    learningPoints: z.array(z.string().trim().min(1)).default([]),
+    similarQuestionsHint: z.string().trim().optional(),
+  })
+  .superRefine((value, ctx) => {
+    const answers =
+      value.correctAnswer === undefined
+        ? []
+        : Array.isArray(value.correctAnswer)
+          ? value.correctAnswer
+          : [value.correctAnswer];
+    for (const answer of answers) {
+      if (answer > value.choices.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["correctAnswer"],
+          message: `choice ${answer} does not exist (${value.choices.length} choices)`,
+        });
+      }
+    }
+    if (value.explanation && answers.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["correctAnswer"],
+        message: "correctAnswer is required when explanation is given",
+      });
+    }
+  });
+
+/**
+ * 区切り文字で分割したリスト（空要素は除外）
+ */
+function splitList(value: string | undefined, separator: RegExp): string[] {
+  return (value ?? "")
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * CSV の1行を JSON と同じ形のオブジェクトに変換
+ *
+ * 列:
+ * - questionText（必須）
+ * - choice1〜choice8、または choices（改行区切り）
+ * - correctAnswer（"2" や "1,3"）, correctChoiceText, explanation
+ * - relatedServices / wellArchitectedCategories（カンマ・セミコロン・改行区切り）
+ * - choiceExplanation1〜choiceExplanation8
+ * - learningPoints（改行区切り）, architectureDiagram, similarQuestionsHint
+ */
+function csvRowToData(cells: Record<string, string>): Record<string, unknown> {
+  const value = (key: string) => cells[key]?.trim() || undefined;
+
+  const numberedChoices = Array.from(
+    { length: MAX_CHOICES },
+    (_, i) => value(`choice${i + 1}`) ?? ""
+  );
+  const choices = value("choices")
+    ? splitList(value("choices"), /\r?\n/)
+    : numberedChoices.filter(Boolean);
+
+  const answers = splitList(value("correctAnswer"), /[,;\s]+/);
+  const choiceExplanations = numberedChoices
+    .map((_, i) => ({
+      choiceNumber: i + 1,
+      explanation: value(`choiceExplanation${i + 1}`) ?? "",
+    }))
+    .filter((ce) => ce.explanation);
+
+  return {
+    questionText: value("questionText") ?? "",
+    choices,
+    correctAnswer:
+      answers.length === 0
+        ? undefined
+        : answers.length === 1
+          ? answers[0]
+          : answers,
+    correctChoiceText: value("correctChoiceText"),
+    explanation: value("explanation"),
+    relatedServices: splitList(value("relatedServices"), /[,;\n]/),
+    wellArchitectedCategories: splitList(
+      value("wellArchitectedCategories"),
+      /[,;\n]/
+    ),
+    choiceExplanations:
+      choiceExplanations.length > 0 ? choiceExplanations : undefined,
+    architectureDiagram: value("architectureDiagram"),
+    learningPoints: splitList(value("learningPoints"), /\r?\n/),
+    similarQuestionsHint: value("similarQuestionsHint"),
+  };
+}
+
+/**
+ * ファイルの内容を行単位のレコードに分割
+ *
+ * @param content - ファイルの内容
+ * @param format - ファイル形式
+ * @throws ファイル自体を解析できない場合
+ */
+export function readImportRecords(
+  content: string,
+  format: ImportFormat
+): ImportRecord[] {
+  if (format === "json") {
+    const parsed: unknown = JSON.parse(content);
+    const items = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { questions?: unknown })?.questions;
+    if (!Array.isArray(items)) {
+      throw new Error(
+        'JSON must be an array of questions or an object with a "questions" array'
+      );
+    }
+    return items.map((data, index) => ({ row: index + 1, data }));
+  }
+
+  const [header, ...rows] = parseCsv(content);
+  if (!header || !header.some((name) => name.trim() === "questionText")) {
+    throw new Error('CSV header must include a "questionText" column');
+  }
+  const columns = header.map((name) => name.trim());
+
+  return rows
+    .map((cells, index) => ({ cells, row: index + 2 }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ""))
+    .map(({ cells, row }) => ({
+      row,
+      data: csvRowToData(
+        Object.fromEntries(columns.map((name, i) => [name, cells[i] ?? ""]))
+      ),
+    }));
+}
+
+/**
+ * レコードを検証して問題データに変換
+ *
+ * @returns 検証済みの行、または行のエラーメッセージ
+ */
+export function validateImportRecord(
+  record: ImportRecord
+): { ok: true; value: ValidatedImportRow } | { ok: false; errors: string[] } {
+  const result = ImportedQuestionSchema.safeParse(record.data);
+  if (!result.success) {
+    return {
+      ok: false,
+      errors: result.error.errors.map((e) =>
+        e.path.length > 0 ? `${e.path.join(".")}: ${e.message}` : e.message
+      ),
+    };
+  }
+
+  const data = result.data;
+  if (data.correctAnswer === undefined || !data.explanation) {
+    return {
+      ok: true,
+      value: {
+        kind: "input",
+        input: { questionText: data.questionText, choices: data.choices },
+      },
+    };
+  }
+
+  const answers = Array.isArray(data.correctAnswer)
+    ? data.correctAnswer
+    : [data.correctAnswer];
+  const explanationByChoice = new Map(
+    (data.choiceExplanations ?? []).map((ce) => [ce.choiceNumber, ce])
+  );
+
+  return {
+    ok: true,
+    value: {
+      kind: "note",
+      note: {
+        questionText: data.questionText,
+        choices: data.choices,
+        correctAnswer: answers.length === 1 ? answers[0] : answers,
+        correctChoiceText:
+          data.correctChoiceText ||
+          answers.map((answer) => data.choices[answer - 1]).join(" / "),
+        explanation: data.explanation,
+        relatedServices: data.relatedServices,
+        wellArchitectedCategories: data.wellArchitectedCategories,
+        choiceExplanations: data.choices
+          .map((choice, i) => ({
+            choiceNumber: i + 1,
+            choiceText: choice,
+            isCorrect: answers.includes(i + 1),
+            explanation: explanationByChoice.get(i + 1)?.explanation ?? "",
+          }))
+          .filter((ce) => ce.explanation),
+        architectureDiagram: data.architectureDiagram || undefined,
+        learningPoints: data.learningPoints,
+        similarQuestionsHint: data.similarQuestionsHint || undefined,
+      },
+    },
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Import Questions Use Case - ユースケース層
+ * CSV / JSON の問題バンクを検証・重複排除して問題リポジトリに取り込む
+ */
+
+import { logger } from "@/features/aws-note/infrastructure/logger";
+import { computeQuestionFingerprint } from "@/features/aws-note/infrastructure/question-fingerprint";
+import type { QuestionRepository } from "@/features/aws-note/entities/question-repository";
+import type { ExamQuestionNote } from "@/features/aws-note/entities/types";
+import type { CreateSaaNoteUseCase } from "@/features/aws-note/usecases/create-saa-note";
+import {
+  readImportRecords,
+  validateImportRecord,
+} from "../infrastructure/import-record-reader";
+import {
+  enqueueAnalysisJob,
+  type AnalysisQueueItem,
+} from "../infrastructure/analysis-queue";
+import type {
+  ImportFormat,
+  ImportOptions,
+  ImportResult,
+  ImportRowResult,
+} from "../entities/types";
+
+/**
+ * 一覧表示用に切り詰める問題文の文字数
+ */
+const QUESTION_PREVIEW_LENGTH = 60;
+
+/**
+ * 問題インポートユースケース
+ */
+export class ImportQuestionsUseCase {
+  /**
+   * コンストラクタ
+   * @param questionRepository - 問題リポジトリ（依存注入）
+   * @param createNoteUseCase - 正解・解説のない行の分析に使うユースケース（分析しない場合は省略可）
+   */
+  constructor(
+    private questionRepository: QuestionRepository,
+    private createNoteUseCase?: CreateSaaNoteUseCase
+  ) {}
+
+  /**
+   * ファイルの内容をインポート
+   *
+   * @param content - CSV / JSON の内容
+   * @param format - ファイル形式
+   * @param options - dryRun / analyzeMissing
+   * @returns 行ごとの結果と集計
+   */
+  async execute(
+    content: string,
+    format: ImportFormat,
+    options: ImportOptions = {}
+  ): Promise<ImportResult> {
+    const dryRun = options.dryRun ?? false;
+    const analyzeMissing =
+      (options.analyzeMissing ?? false) && Boolean(this.createNoteUseCase);
+
+    logger.info("ImportQuestionsUseCase.execute called", {
+      format,
+      contentLength: content.length,
+      dryRun,
+      analyzeMissing,
+    });
+
+    const records = readImportRecords(content, format);
+    const existing = await this.questionRepository.getAllQuestions();
+    const seen = new Set(existing.map((q) => computeQuestionFingerprint(q)));
+
+    const rows: ImportRowResult[] = [];
+    const toSave: { result: ImportRowResult; note: ExamQuestionNote }[] = [];
+    const toAnalyze: AnalysisQueueItem[] = [];
+
+    for (const record of records) {
+      const validation = validateImportRecord(record);
+      if (!validation.ok) {
+        rows.push({
+          row: record.row,
+          action: "invalid",
+          errors: validation.errors,
+        });
+        continue;
+      }
+
+      const value = validation.value;
+      const question = value.kind === "note" ? value.note : value.input;
+      const result: ImportRowResult = {
+        row: record.row,
+        action: "save",
+        questionPreview: question.questionText.slice(0, QUESTION_PREVIEW_LENGTH),
+      };
+      rows.push(result);
+
+      // 既存の問題バンク、およびファイル内で先に出現した行との重複を除外
+      const fingerprint = computeQuestionFingerprint(question);
+      if (seen.has(fingerprint)) {
+        result.action = "skip-duplicate";
+        continue;
+      }
+      seen.add(fingerprint);
+
+      if (value.kind === "note") {
+        toSave.push({ result, note: value.note });
+      } else if (analyzeMissing) {
+        result.action = "analyze";
+        toAnalyze.push({ row: record.row, input: value.input });
+      } else {
+        result.action = "skip-unanswered";
+      }
+    }
+
+    let failed = 0;
+    let analysisJobId: string | undefined;
+
+    if (!dryRun) {
+      // リポジトリへの書き込みは1件ずつ（Notion API のレート制限対策）
+      for (const { result, note } of toSave) {
+        try {
+          result.noteId =
+            await this.questionRepository.upsertQuestionNote(note);
+        } catch (error) {
+          failed++;
+          result.errors = [
+            error instanceof Error ? error.message : "Unknown error",
+          ];
+          logger.error("Failed to save imported question", error as Error, {
+            row: result.row,
+          });
+        }
+      }
+
+      const createNoteUseCase = this.createNoteUseCase;
+      if (toAnalyze.length > 0 && createNoteUseCase) {
+        analysisJobId = enqueueAnalysisJob(toAnalyze, (input) =>
+          createNoteUseCase.execute(input)
+        ).id;
+      }
+    }
+
+    const summary: ImportResult["summary"] = {
+      save: 0,
+      analyze: 0,
+      "skip-duplicate": 0,
+      "skip-unanswered": 0,
+      invalid: 0,
+      failed,
+    };
+    for (const row of rows) {
+      summary[row.action]++;
+    }
+
+    logger.info("ImportQuestionsUseCase.execute completed", {
+      ...summary,
+      analysisJobId,
+    });
+
+    return { dryRun, rows, summary, analysisJobId };
+  }
+}
@@ -0,0 +1,16 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "src"),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+    // 想定内の警告ログでテスト結果が埋もれないようにする
+    env: { LOG_LEVEL: "ERROR" },
+  },
+});